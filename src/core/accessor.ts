@@ -0,0 +1,508 @@
+import ts from "typescript";
+import type { CommentContent, TriviaOptions } from "../helpers/trivia";
+import { addComments } from "../helpers/trivia";
+import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { fromDecorator } from "./decorator";
+import {
+  $override,
+  $private,
+  $protected,
+  $public,
+  $static,
+  withModifier,
+} from "./modifier";
+import { param } from "./params";
+
+// Resolve a member name, turning "#name" into a private identifier
+const createMemberName = (name: string): ts.PropertyName =>
+  name.startsWith("#")
+    ? ts.factory.createPrivateIdentifier(name)
+    : ts.factory.createIdentifier(name);
+
+// Read a member name as text
+const getMemberNameText = (name: ts.PropertyName): string =>
+  ts.isIdentifier(name) ||
+  ts.isPrivateIdentifier(name) ||
+  ts.isStringLiteral(name) ||
+  ts.isNumericLiteral(name)
+    ? name.text
+    : name.getText();
+
+// Extract the name of a decorator expression: @Name or @Name(...)
+const getDecoratorName = (decorator: ts.Decorator): string | undefined => {
+  if (
+    ts.isCallExpression(decorator.expression) &&
+    ts.isIdentifier(decorator.expression.expression)
+  ) {
+    return decorator.expression.expression.text;
+  } else if (ts.isIdentifier(decorator.expression)) {
+    return decorator.expression.text;
+  }
+  return undefined;
+};
+
+// Getter Builder
+class GetterBuilder implements BuildableAST {
+  #decl: ts.GetAccessorDeclaration;
+
+  constructor(
+    optionsOrFrom:
+      | {
+          name: string;
+          body: ts.Block;
+          returnType?: ts.TypeNode;
+          mods?: ts.ModifierLike[];
+        }
+      | ts.GetAccessorDeclaration,
+  ) {
+    if ("kind" in optionsOrFrom && "pos" in optionsOrFrom) {
+      // Adopting existing AST node - preserves trivia
+      this.#decl = optionsOrFrom;
+    } else {
+      this.#decl = ts.factory.createGetAccessorDeclaration(
+        optionsOrFrom.mods,
+        createMemberName(optionsOrFrom.name),
+        [],
+        optionsOrFrom.returnType,
+        optionsOrFrom.body,
+      );
+    }
+  }
+
+  private updateModifiers(modifiers: readonly ts.ModifierLike[] | undefined) {
+    this.#decl = ts.factory.updateGetAccessorDeclaration(
+      this.#decl,
+      modifiers,
+      this.#decl.name,
+      this.#decl.parameters,
+      this.#decl.type,
+      this.#decl.body,
+    );
+  }
+
+  // Fluent modifier methods
+  $public() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $public()));
+    return this;
+  }
+
+  $private() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $private()));
+    return this;
+  }
+
+  $protected() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $protected()));
+    return this;
+  }
+
+  $static() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $static()));
+    return this;
+  }
+
+  $override() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $override()));
+    return this;
+  }
+
+  $mod(mod: ts.Modifier) {
+    this.updateModifiers(withModifier(this.#decl.modifiers, mod));
+    return this;
+  }
+
+  // Set return type
+  $returnType(type: ts.TypeNode) {
+    this.#decl = ts.factory.updateGetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      this.#decl.parameters,
+      type,
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  $body(body: ts.Block) {
+    this.#decl = ts.factory.updateGetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      this.#decl.parameters,
+      this.#decl.type,
+      body,
+    );
+    return this;
+  }
+
+  rename(newName: string) {
+    this.#decl = ts.factory.updateGetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      createMemberName(newName),
+      this.#decl.parameters,
+      this.#decl.type,
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  getName(): string {
+    return getMemberNameText(this.#decl.name);
+  }
+
+  // ========== Decorator Methods ==========
+
+  /**
+   * Add a decorator to the getter, placed before any modifiers
+   * @param decorator Decorator to add
+   * @returns The getter builder for chaining
+   */
+  addDecorator(decorator: ts.Decorator) {
+    const existing = this.#decl.modifiers || [];
+    const decorators = existing.filter(ts.isDecorator);
+    const modifiers = existing.filter((mod) => !ts.isDecorator(mod));
+    this.updateModifiers([...decorators, decorator, ...modifiers]);
+    return this;
+  }
+
+  /**
+   * Update a decorator on the getter by name
+   * @param decoratorName The name of the decorator to update
+   * @param updateFn Function that receives the existing decorator and returns the updated one
+   * @returns The updated decorator builder or undefined if not found
+   */
+  updateDecoratorByName(
+    decoratorName: string,
+    updateFn: (
+      decorator: ReturnType<typeof fromDecorator>,
+    ) => ReturnType<typeof fromDecorator>,
+  ): ReturnType<typeof fromDecorator> | undefined {
+    const decoratorModifier = this.#decl.modifiers?.find(
+      (modifier): modifier is ts.Decorator =>
+        ts.isDecorator(modifier) &&
+        getDecoratorName(modifier) === decoratorName,
+    );
+
+    if (!decoratorModifier) {
+      return undefined;
+    }
+
+    const updatedDecorator = updateFn(fromDecorator(decoratorModifier));
+    this.updateModifiers(
+      this.#decl.modifiers?.map((modifier) =>
+        modifier === decoratorModifier ? updatedDecorator.get() : modifier,
+      ),
+    );
+
+    return updatedDecorator;
+  }
+
+  // ========== Comment Methods ==========
+
+  /**
+   * Add leading comment(s) to the getter declaration
+   * @param comment Comment content to add
+   * @returns The getter builder for chaining
+   */
+  addLeadingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { leading: [comment] });
+    return this;
+  }
+
+  /**
+   * Add trailing comment(s) to the getter declaration
+   * @param comment Comment content to add
+   * @returns The getter builder for chaining
+   */
+  addTrailingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { trailing: [comment] });
+    return this;
+  }
+
+  /**
+   * Add multiple comments to the getter declaration
+   * @param options Trivia options with leading and/or trailing comments
+   * @returns The getter builder for chaining
+   */
+  addComments(options: TriviaOptions): this {
+    this.#decl = addComments(this.#decl, options);
+    return this;
+  }
+
+  get(): ts.GetAccessorDeclaration {
+    return this.#decl;
+  }
+}
+
+// Setter Builder
+class SetterBuilder implements BuildableAST {
+  #decl: ts.SetAccessorDeclaration;
+
+  constructor(
+    optionsOrFrom:
+      | {
+          name: string;
+          param: ts.ParameterDeclaration;
+          body: ts.Block;
+          mods?: ts.ModifierLike[];
+        }
+      | ts.SetAccessorDeclaration,
+  ) {
+    if ("kind" in optionsOrFrom && "pos" in optionsOrFrom) {
+      // Adopting existing AST node - preserves trivia
+      this.#decl = optionsOrFrom;
+    } else {
+      this.#decl = ts.factory.createSetAccessorDeclaration(
+        optionsOrFrom.mods,
+        createMemberName(optionsOrFrom.name),
+        [optionsOrFrom.param],
+        optionsOrFrom.body,
+      );
+    }
+  }
+
+  private updateModifiers(modifiers: readonly ts.ModifierLike[] | undefined) {
+    this.#decl = ts.factory.updateSetAccessorDeclaration(
+      this.#decl,
+      modifiers,
+      this.#decl.name,
+      this.#decl.parameters,
+      this.#decl.body,
+    );
+  }
+
+  // Fluent modifier methods
+  $public() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $public()));
+    return this;
+  }
+
+  $private() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $private()));
+    return this;
+  }
+
+  $protected() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $protected()));
+    return this;
+  }
+
+  $static() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $static()));
+    return this;
+  }
+
+  $override() {
+    this.updateModifiers(withModifier(this.#decl.modifiers, $override()));
+    return this;
+  }
+
+  $mod(mod: ts.Modifier) {
+    this.updateModifiers(withModifier(this.#decl.modifiers, mod));
+    return this;
+  }
+
+  // Replace the value parameter
+  $param(nameOrParam: string | ts.ParameterDeclaration, type?: ts.TypeNode) {
+    const newParam =
+      typeof nameOrParam === "string"
+        ? param(nameOrParam, type).get()
+        : nameOrParam;
+    this.#decl = ts.factory.updateSetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      [newParam],
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  $body(body: ts.Block) {
+    this.#decl = ts.factory.updateSetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      this.#decl.parameters,
+      body,
+    );
+    return this;
+  }
+
+  rename(newName: string) {
+    this.#decl = ts.factory.updateSetAccessorDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      createMemberName(newName),
+      this.#decl.parameters,
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  getName(): string {
+    return getMemberNameText(this.#decl.name);
+  }
+
+  // ========== Decorator Methods ==========
+
+  /**
+   * Add a decorator to the setter, placed before any modifiers
+   * @param decorator Decorator to add
+   * @returns The setter builder for chaining
+   */
+  addDecorator(decorator: ts.Decorator) {
+    const existing = this.#decl.modifiers || [];
+    const decorators = existing.filter(ts.isDecorator);
+    const modifiers = existing.filter((mod) => !ts.isDecorator(mod));
+    this.updateModifiers([...decorators, decorator, ...modifiers]);
+    return this;
+  }
+
+  /**
+   * Update a decorator on the setter by name
+   * @param decoratorName The name of the decorator to update
+   * @param updateFn Function that receives the existing decorator and returns the updated one
+   * @returns The updated decorator builder or undefined if not found
+   */
+  updateDecoratorByName(
+    decoratorName: string,
+    updateFn: (
+      decorator: ReturnType<typeof fromDecorator>,
+    ) => ReturnType<typeof fromDecorator>,
+  ): ReturnType<typeof fromDecorator> | undefined {
+    const decoratorModifier = this.#decl.modifiers?.find(
+      (modifier): modifier is ts.Decorator =>
+        ts.isDecorator(modifier) &&
+        getDecoratorName(modifier) === decoratorName,
+    );
+
+    if (!decoratorModifier) {
+      return undefined;
+    }
+
+    const updatedDecorator = updateFn(fromDecorator(decoratorModifier));
+    this.updateModifiers(
+      this.#decl.modifiers?.map((modifier) =>
+        modifier === decoratorModifier ? updatedDecorator.get() : modifier,
+      ),
+    );
+
+    return updatedDecorator;
+  }
+
+  // ========== Comment Methods ==========
+
+  /**
+   * Add leading comment(s) to the setter declaration
+   * @param comment Comment content to add
+   * @returns The setter builder for chaining
+   */
+  addLeadingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { leading: [comment] });
+    return this;
+  }
+
+  /**
+   * Add trailing comment(s) to the setter declaration
+   * @param comment Comment content to add
+   * @returns The setter builder for chaining
+   */
+  addTrailingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { trailing: [comment] });
+    return this;
+  }
+
+  /**
+   * Add multiple comments to the setter declaration
+   * @param options Trivia options with leading and/or trailing comments
+   * @returns The setter builder for chaining
+   */
+  addComments(options: TriviaOptions): this {
+    this.#decl = addComments(this.#decl, options);
+    return this;
+  }
+
+  get(): ts.SetAccessorDeclaration {
+    return this.#decl;
+  }
+}
+
+/**
+ * Create a getter, or adopt an existing one to preserve trivia
+ * @example
+ * ```ts
+ * getter("fullName", block([ret(template(...))]), $string()).$public();
+ * getter(existingGetAccessor).$returnType($string());
+ * ```
+ */
+export function getter(
+  name: string,
+  body: ts.Block,
+  returnType?: ts.TypeNode,
+  mods?: ts.ModifierLike[],
+): GetterBuilder & ts.GetAccessorDeclaration;
+export function getter(
+  existingGetter: ts.GetAccessorDeclaration,
+): GetterBuilder & ts.GetAccessorDeclaration;
+export function getter(
+  nameOrGetter: string | ts.GetAccessorDeclaration,
+  body?: ts.Block,
+  returnType?: ts.TypeNode,
+  mods?: ts.ModifierLike[],
+) {
+  if (typeof nameOrGetter === "string") {
+    if (!body) {
+      throw new Error("body is required when creating a new getter");
+    }
+    return buildFluentApi(GetterBuilder, {
+      name: nameOrGetter,
+      body,
+      returnType,
+      mods,
+    });
+  }
+  return buildFluentApi(GetterBuilder, nameOrGetter);
+}
+
+/**
+ * Create a setter, or adopt an existing one to preserve trivia
+ * @example
+ * ```ts
+ * setter("fullName", param("value", $string()).get(), block([...]));
+ * setter("fullName", "value", block([...])); // untyped parameter
+ * ```
+ */
+export function setter(
+  name: string,
+  valueParam: string | ts.ParameterDeclaration,
+  body: ts.Block,
+  mods?: ts.ModifierLike[],
+): SetterBuilder & ts.SetAccessorDeclaration;
+export function setter(
+  existingSetter: ts.SetAccessorDeclaration,
+): SetterBuilder & ts.SetAccessorDeclaration;
+export function setter(
+  nameOrSetter: string | ts.SetAccessorDeclaration,
+  valueParam?: string | ts.ParameterDeclaration,
+  body?: ts.Block,
+  mods?: ts.ModifierLike[],
+) {
+  if (typeof nameOrSetter === "string") {
+    if (!valueParam || !body) {
+      throw new Error(
+        "valueParam and body are required when creating a new setter",
+      );
+    }
+    return buildFluentApi(SetterBuilder, {
+      name: nameOrSetter,
+      param:
+        typeof valueParam === "string" ? param(valueParam).get() : valueParam,
+      body,
+      mods,
+    });
+  }
+  return buildFluentApi(SetterBuilder, nameOrSetter);
+}
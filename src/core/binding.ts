@@ -0,0 +1,87 @@
+import ts from "typescript";
+
+/**
+ * Name of a binding: a plain identifier or a nested pattern
+ */
+export type BindingTarget = string | ts.BindingName;
+
+export interface BindingElementOptions {
+  /** Source property when renaming: `{ propertyName: target }` */
+  propertyName?: string | ts.PropertyName;
+  /** Default value: `{ target = initializer }` */
+  initializer?: ts.Expression;
+}
+
+/**
+ * Create a single binding element
+ * @example
+ * ```ts
+ * bindingElement("id")                                 // id
+ * bindingElement("userId", { propertyName: "id" })     // id: userId
+ * bindingElement("page", { initializer: $(1) })        // page = 1
+ * bindingElement(objectBinding(["city"]), { propertyName: "address" })
+ * // address: { city }
+ * ```
+ */
+export const bindingElement = (
+  name: BindingTarget,
+  options: BindingElementOptions = {},
+): ts.BindingElement =>
+  ts.factory.createBindingElement(
+    undefined, // dotDotDotToken
+    options.propertyName,
+    name,
+    options.initializer,
+  );
+
+// Rest element: ...rest
+export const restBinding = (name: BindingTarget): ts.BindingElement =>
+  ts.factory.createBindingElement(
+    ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
+    undefined,
+    name,
+    undefined,
+  );
+
+/**
+ * Object destructuring pattern; strings are shorthand elements
+ * @example
+ * ```ts
+ * objectBinding([
+ *   "onClick",
+ *   bindingElement("isDisabled", {
+ *     propertyName: "disabled",
+ *     initializer: $(false),
+ *   }),
+ *   restBinding("props"),
+ * ]) // { onClick, disabled: isDisabled = false, ...props }
+ * ```
+ */
+export const objectBinding = (
+  elements: (string | ts.BindingElement)[],
+): ts.ObjectBindingPattern =>
+  ts.factory.createObjectBindingPattern(
+    elements.map((element) =>
+      typeof element === "string" ? bindingElement(element) : element,
+    ),
+  );
+
+/**
+ * Array destructuring pattern; `undefined` leaves a hole
+ * @example
+ * ```ts
+ * arrayBinding(["state", "setState"]) // [state, setState]
+ * arrayBinding([undefined, "second"]) // [, second]
+ * ```
+ */
+export const arrayBinding = (
+  elements: (string | ts.ArrayBindingElement | undefined)[],
+): ts.ArrayBindingPattern =>
+  ts.factory.createArrayBindingPattern(
+    elements.map((element) => {
+      if (element === undefined) {
+        return ts.factory.createOmittedExpression();
+      }
+      return typeof element === "string" ? bindingElement(element) : element;
+    }),
+  );
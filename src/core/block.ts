@@ -1,8 +1,15 @@
 import ts from "typescript";
+import { parseStatements } from "../helpers/parse";
 
-export const block = (stmts: (ts.Statement | ts.Expression)[]): ts.Block => {
-  const statements = stmts.map((stmt) =>
-    ts.isStatement(stmt) ? stmt : ts.factory.createExpressionStatement(stmt),
+export const block = (
+  stmts: (ts.Statement | ts.Expression | string)[],
+): ts.Block => {
+  const statements = stmts.flatMap((stmt) =>
+    typeof stmt === "string"
+      ? parseStatements(stmt)
+      : ts.isStatement(stmt)
+        ? stmt
+        : ts.factory.createExpressionStatement(stmt),
   );
   return ts.factory.createBlock(statements, true);
 };
@@ -1,6 +1,13 @@
 import ts from "typescript";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
-import { $private, $protected, $public } from "./modifier";
+import {
+  $override,
+  $private,
+  $protected,
+  $public,
+  $readonly,
+  withModifier,
+} from "./modifier";
 import { param } from "./params";
 
 class CtorBuilder implements BuildableAST {
@@ -34,7 +41,7 @@ class CtorBuilder implements BuildableAST {
   $private() {
     this.#decl = ts.factory.updateConstructorDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $private()],
+      withModifier(this.#decl.modifiers, $private()),
       this.#decl.parameters,
       this.#decl.body,
     );
@@ -44,7 +51,7 @@ class CtorBuilder implements BuildableAST {
   $protected() {
     this.#decl = ts.factory.updateConstructorDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $protected()],
+      withModifier(this.#decl.modifiers, $protected()),
       this.#decl.parameters,
       this.#decl.body,
     );
@@ -54,7 +61,7 @@ class CtorBuilder implements BuildableAST {
   $public() {
     this.#decl = ts.factory.updateConstructorDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $public()],
+      withModifier(this.#decl.modifiers, $public()),
       this.#decl.parameters,
       this.#decl.body,
     );
@@ -64,48 +71,68 @@ class CtorBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updateConstructorDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.parameters,
       this.#decl.body,
     );
     return this;
   }
 
-  // Add parameter
+  /**
+   * Add a parameter; `visibility`, `readonly` and `override` turn it into a
+   * parameter property
+   * @example
+   * ```ts
+   * ctor([], block([])).addArg({
+   *   name: "http",
+   *   type: $ref("HttpClient"),
+   *   visibility: "private",
+   *   readonly: true,
+   * }); // constructor(private readonly http: HttpClient) {}
+   * ```
+   */
   addArg(arg: {
-    name: string;
+    name: string | ts.BindingName;
     type?: ts.TypeNode;
     optional?: boolean;
     modifiers?: ts.ModifierLike[];
+    visibility?: "public" | "private" | "protected";
+    readonly?: boolean;
+    override?: boolean;
     dotDotDot?: boolean;
     initializer?: ts.Expression;
   }) {
-    const p = param(arg.name, arg.type, arg.optional, arg.initializer);
-
-    // Apply modifiers (filter out decorators)
-    if (arg.modifiers) {
-      arg.modifiers.forEach((mod) => {
-        if (ts.isModifier(mod)) {
-          p.$mod(mod);
-        }
-      });
+    let modifiers: ts.ModifierLike[] = [];
+    for (const mod of arg.modifiers ?? []) {
+      modifiers = withModifier(modifiers, mod);
     }
-
-    let paramDecl = p.get();
-
-    // Handle dotDotDot (rest parameters)
-    if (arg.dotDotDot) {
-      paramDecl = ts.factory.updateParameterDeclaration(
-        paramDecl,
-        paramDecl.modifiers,
-        ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
-        paramDecl.name,
-        paramDecl.questionToken,
-        paramDecl.type,
-        paramDecl.initializer,
-      );
+    if (arg.visibility === "public") {
+      modifiers = withModifier(modifiers, $public());
+    } else if (arg.visibility === "private") {
+      modifiers = withModifier(modifiers, $private());
+    } else if (arg.visibility === "protected") {
+      modifiers = withModifier(modifiers, $protected());
+    }
+    if (arg.override) {
+      modifiers = withModifier(modifiers, $override());
+    }
+    if (arg.readonly) {
+      modifiers = withModifier(modifiers, $readonly());
     }
 
+    const p = param(arg.name, arg.type, arg.optional, arg.initializer).get();
+    const paramDecl = ts.factory.updateParameterDeclaration(
+      p,
+      modifiers.length > 0 ? modifiers : undefined,
+      arg.dotDotDot
+        ? ts.factory.createToken(ts.SyntaxKind.DotDotDotToken)
+        : undefined,
+      p.name,
+      p.questionToken,
+      p.type,
+      p.initializer,
+    );
+
     this.#decl = ts.factory.updateConstructorDeclaration(
       this.#decl,
       this.#decl.modifiers,
@@ -115,6 +142,15 @@ class CtorBuilder implements BuildableAST {
     return this;
   }
 
+  /**
+   * Get the parameters that are declared as parameter properties
+   */
+  getParamProperties(): ts.ParameterDeclaration[] {
+    return this.#decl.parameters.filter((p) =>
+      ts.isParameterPropertyDeclaration(p, this.#decl),
+    );
+  }
+
   get(): ts.ConstructorDeclaration {
     return this.#decl;
   }
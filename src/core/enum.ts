@@ -0,0 +1,560 @@
+import ts from "typescript";
+import type { CommentContent, TriviaOptions } from "../helpers/trivia";
+import { addComments } from "../helpers/trivia";
+import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { $const, $declare, $export, withModifier } from "./modifier";
+
+/**
+ * Value accepted for an enum member initializer
+ */
+export type EnumMemberValue = string | number | ts.Expression;
+
+/**
+ * Create the property name for an enum member, falling back to a string
+ * literal for names that are not valid identifiers (e.g. "in-progress")
+ */
+function createMemberName(name: string): ts.PropertyName {
+  const isIdentifier =
+    name.length > 0 &&
+    ts.isIdentifierStart(name.charCodeAt(0), ts.ScriptTarget.Latest) &&
+    [...name.slice(1)].every((char) =>
+      ts.isIdentifierPart(char.charCodeAt(0), ts.ScriptTarget.Latest),
+    );
+
+  return isIdentifier
+    ? ts.factory.createIdentifier(name)
+    : ts.factory.createStringLiteral(name);
+}
+
+/**
+ * Create the initializer expression for an enum member value
+ */
+function createMemberInitializer(
+  value: EnumMemberValue | undefined,
+): ts.Expression | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === "string") {
+    return ts.factory.createStringLiteral(value);
+  }
+  if (typeof value === "number") {
+    return value < 0
+      ? ts.factory.createPrefixUnaryExpression(
+          ts.SyntaxKind.MinusToken,
+          ts.factory.createNumericLiteral(-value),
+        )
+      : ts.factory.createNumericLiteral(value);
+  }
+  return value;
+}
+
+/**
+ * Get the name of an enum member as a string
+ */
+function getMemberName(member: ts.EnumMember): string {
+  if (
+    ts.isIdentifier(member.name) ||
+    ts.isStringLiteral(member.name) ||
+    ts.isNumericLiteral(member.name)
+  ) {
+    return member.name.text;
+  }
+  return member.name.getText();
+}
+
+/**
+ * Evaluate a constant enum initializer the way TypeScript does: literals,
+ * operators and references to earlier members
+ * @param initializer The initializer
+ * @param enumName Name of the enum, for `Enum.MEMBER` references
+ * @param values Values of the earlier members by name
+ * @returns The value, or undefined when it depends on anything else, such
+ * as another enum or a call
+ */
+function evaluateInitializer(
+  initializer: ts.Expression,
+  enumName: string,
+  values: ReadonlyMap<string, number | string>,
+): number | string | undefined {
+  const evaluate = (node: ts.Expression): number | string | undefined => {
+    if (ts.isNumericLiteral(node)) {
+      return Number(node.text);
+    }
+    if (ts.isStringLiteralLike(node)) {
+      return node.text;
+    }
+    if (ts.isParenthesizedExpression(node)) {
+      return evaluate(node.expression);
+    }
+    if (ts.isIdentifier(node)) {
+      return values.get(node.text);
+    }
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === enumName
+    ) {
+      return values.get(node.name.text);
+    }
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operand = evaluate(node.operand);
+      if (typeof operand !== "number") return undefined;
+      switch (node.operator) {
+        case ts.SyntaxKind.PlusToken:
+          return operand;
+        case ts.SyntaxKind.MinusToken:
+          return -operand;
+        case ts.SyntaxKind.TildeToken:
+          return ~operand;
+      }
+      return undefined;
+    }
+    if (ts.isBinaryExpression(node)) {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      if (left === undefined || right === undefined) return undefined;
+      if (typeof left === "string" || typeof right === "string") {
+        return node.operatorToken.kind === ts.SyntaxKind.PlusToken
+          ? `${left}${right}`
+          : undefined;
+      }
+      switch (node.operatorToken.kind) {
+        case ts.SyntaxKind.PlusToken:
+          return left + right;
+        case ts.SyntaxKind.MinusToken:
+          return left - right;
+        case ts.SyntaxKind.AsteriskToken:
+          return left * right;
+        case ts.SyntaxKind.SlashToken:
+          return left / right;
+        case ts.SyntaxKind.PercentToken:
+          return left % right;
+        case ts.SyntaxKind.AsteriskAsteriskToken:
+          return left ** right;
+        case ts.SyntaxKind.LessThanLessThanToken:
+          return left << right;
+        case ts.SyntaxKind.GreaterThanGreaterThanToken:
+          return left >> right;
+        case ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken:
+          return left >>> right;
+        case ts.SyntaxKind.AmpersandToken:
+          return left & right;
+        case ts.SyntaxKind.BarToken:
+          return left | right;
+        case ts.SyntaxKind.CaretToken:
+          return left ^ right;
+      }
+    }
+    return undefined;
+  };
+  return evaluate(initializer);
+}
+
+/**
+ * Create an enum member
+ * @param name The member name
+ * @param value Optional initializer (number, string or expression)
+ * @example
+ * ```ts
+ * enumMember("PENDING");        // PENDING
+ * enumMember("ACTIVE", 1);      // ACTIVE = 1
+ * enumMember("DONE", "done");   // DONE = "done"
+ * ```
+ */
+export const enumMember = (
+  name: string,
+  value?: EnumMemberValue,
+): ts.EnumMember =>
+  ts.factory.createEnumMember(
+    createMemberName(name),
+    createMemberInitializer(value),
+  );
+
+class EnumBuilder implements BuildableAST {
+  #decl: ts.EnumDeclaration;
+
+  constructor(
+    optionsOrFrom:
+      | {
+          name: string;
+          members?: (string | ts.EnumMember)[];
+          mods?: ts.ModifierLike[];
+        }
+      | ts.EnumDeclaration,
+  ) {
+    if ("kind" in optionsOrFrom && "pos" in optionsOrFrom) {
+      // Adopting existing AST node - preserves trivia
+      this.#decl = optionsOrFrom;
+    } else {
+      // Creating new node from options
+      this.#decl = ts.factory.createEnumDeclaration(
+        optionsOrFrom.mods,
+        ts.factory.createIdentifier(optionsOrFrom.name),
+        (optionsOrFrom.members ?? []).map((member) =>
+          typeof member === "string" ? enumMember(member) : member,
+        ),
+      );
+    }
+  }
+
+  // Fluent modifier methods
+  $export() {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $export()),
+      this.#decl.name,
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  $const() {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $const()),
+      this.#decl.name,
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  $declare() {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
+      this.#decl.name,
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  $mod(mod: ts.Modifier) {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, mod),
+      this.#decl.name,
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  rename(newName: string) {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      ts.factory.createIdentifier(newName),
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  /**
+   * Get the enum name as a string
+   */
+  getEnumName(): string {
+    return this.#decl.name.text;
+  }
+
+  // ========== Member Methods ==========
+
+  /**
+   * Add a member to the end of the enum
+   * @example
+   * ```ts
+   * enum_("Status")
+   *   .addMember("PENDING")          // auto-numbered
+   *   .addMember("ACTIVE", 5)        // explicit number
+   *   .addMember("DONE", "done");    // string initializer
+   * ```
+   */
+  addMember(nameOrMember: string | ts.EnumMember, value?: EnumMemberValue) {
+    const member =
+      typeof nameOrMember === "string"
+        ? enumMember(nameOrMember, value)
+        : nameOrMember;
+
+    this.updateMembers([...this.#decl.members, member]);
+    return this;
+  }
+
+  /**
+   * Add multiple members to the end of the enum
+   */
+  addMembers(members: (string | ts.EnumMember)[]) {
+    for (const member of members) {
+      this.addMember(member);
+    }
+    return this;
+  }
+
+  /**
+   * Insert a member at a specific position
+   * @param index Position to insert the member at
+   * @param name The member name
+   * @param value Optional initializer
+   */
+  insertMember(index: number, name: string, value?: EnumMemberValue) {
+    const members = [...this.#decl.members];
+    members.splice(index, 0, enumMember(name, value));
+
+    this.updateMembers(members);
+    return this;
+  }
+
+  /**
+   * Remove a member by name
+   */
+  removeMember(name: string) {
+    this.updateMembers(
+      this.#decl.members.filter((member) => getMemberName(member) !== name),
+    );
+    return this;
+  }
+
+  /**
+   * Rename a member while keeping its initializer and trivia
+   */
+  renameMember(oldName: string, newName: string) {
+    this.updateMembers(
+      this.#decl.members.map((member) =>
+        getMemberName(member) === oldName
+          ? ts.factory.updateEnumMember(
+              member,
+              createMemberName(newName),
+              member.initializer,
+            )
+          : member,
+      ),
+    );
+    return this;
+  }
+
+  /**
+   * Set or clear the initializer of a member
+   * @param name The member name
+   * @param value The new initializer, or undefined to fall back to auto-numbering
+   */
+  setMemberValue(name: string, value: EnumMemberValue | undefined) {
+    this.updateMembers(
+      this.#decl.members.map((member) =>
+        getMemberName(member) === name
+          ? ts.factory.updateEnumMember(
+              member,
+              member.name,
+              createMemberInitializer(value),
+            )
+          : member,
+      ),
+    );
+    return this;
+  }
+
+  /**
+   * Move a member to a new position
+   *
+   * Reordering changes the value of auto-numbered members; call
+   * `numberMembers()` first to keep their current values.
+   */
+  moveMember(name: string, toIndex: number) {
+    const members = [...this.#decl.members];
+    const fromIndex = members.findIndex(
+      (member) => getMemberName(member) === name,
+    );
+
+    if (fromIndex === -1) {
+      return this;
+    }
+
+    const [member] = members.splice(fromIndex, 1);
+    members.splice(toIndex, 0, member!);
+
+    this.updateMembers(members);
+    return this;
+  }
+
+  /**
+   * Sort members using a compare function on their names (alphabetical by default)
+   */
+  sortMembers(
+    compareFn: (a: string, b: string) => number = (a, b) => a.localeCompare(b),
+  ) {
+    this.updateMembers(
+      [...this.#decl.members].sort((a, b) =>
+        compareFn(getMemberName(a), getMemberName(b)),
+      ),
+    );
+    return this;
+  }
+
+  /**
+   * Give every auto-numbered member an explicit numeric initializer,
+   * following the same rules TypeScript uses for implicit values
+   *
+   * Members after an initializer that can't be evaluated here, such as a
+   * reference to another enum, keep their implicit values.
+   * @param start The value for the first member if it has no initializer
+   * @throws Error when a member follows a string member without an
+   * initializer, which TypeScript rejects too
+   */
+  numberMembers(start = 0) {
+    const enumName = this.#decl.name.text;
+    const values = new Map<string, number | string>();
+    let previous: number | string | undefined = start - 1;
+
+    this.updateMembers(
+      this.#decl.members.map((member) => {
+        const name = getMemberName(member);
+        if (member.initializer) {
+          previous = evaluateInitializer(member.initializer, enumName, values);
+          if (previous !== undefined) values.set(name, previous);
+          return member;
+        }
+
+        if (typeof previous === "string") {
+          throw new Error(
+            `Enum member "${name}" must have an initializer because the ` +
+              "previous member is a string",
+          );
+        }
+        if (previous === undefined) {
+          return member;
+        }
+
+        previous++;
+        values.set(name, previous);
+        return ts.factory.updateEnumMember(
+          member,
+          member.name,
+          createMemberInitializer(previous),
+        );
+      }),
+    );
+    return this;
+  }
+
+  /**
+   * Give every member without an initializer a string initializer
+   * @param toValue Maps the member name to its value (defaults to the name itself)
+   * @example
+   * ```ts
+   * enum_("Status", ["PENDING", "ACTIVE"]).stringMembers((name) => name.toLowerCase());
+   * // enum Status { PENDING = "pending", ACTIVE = "active" }
+   * ```
+   */
+  stringMembers(toValue: (name: string) => string = (name) => name) {
+    this.updateMembers(
+      this.#decl.members.map((member) =>
+        member.initializer
+          ? member
+          : ts.factory.updateEnumMember(
+              member,
+              member.name,
+              ts.factory.createStringLiteral(toValue(getMemberName(member))),
+            ),
+      ),
+    );
+    return this;
+  }
+
+  /**
+   * Check if the enum has a member with the given name
+   */
+  hasMember(name: string): boolean {
+    return this.#decl.members.some((member) => getMemberName(member) === name);
+  }
+
+  /**
+   * Get a member by name
+   */
+  getMember(name: string): ts.EnumMember | undefined {
+    return this.#decl.members.find((member) => getMemberName(member) === name);
+  }
+
+  /**
+   * Get the names of all members in declaration order
+   */
+  getMemberNames(): string[] {
+    return this.#decl.members.map(getMemberName);
+  }
+
+  private updateMembers(members: readonly ts.EnumMember[]) {
+    this.#decl = ts.factory.updateEnumDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      members,
+    );
+  }
+
+  // ========== Comment Methods ==========
+
+  /**
+   * Add leading comment(s) to the enum declaration
+   * @param comment Comment content to add
+   * @returns The enum builder for chaining
+   */
+  addLeadingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { leading: [comment] });
+    return this;
+  }
+
+  /**
+   * Add trailing comment(s) to the enum declaration
+   * @param comment Comment content to add
+   * @returns The enum builder for chaining
+   */
+  addTrailingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { trailing: [comment] });
+    return this;
+  }
+
+  /**
+   * Add multiple comments to the enum declaration
+   * @param options Trivia options with leading and/or trailing comments
+   * @returns The enum builder for chaining
+   */
+  addComments(options: TriviaOptions): this {
+    this.#decl = addComments(this.#decl, options);
+    return this;
+  }
+
+  get(): ts.EnumDeclaration {
+    return this.#decl;
+  }
+}
+
+/**
+ * Create an enum declaration
+ * @param name The enum name
+ * @param members Optional members, either names or nodes created with `enumMember()`
+ * @param mods Optional modifiers
+ * @example
+ * ```ts
+ * // Chainable
+ * enum_("Status").$export().addMember("PENDING").addMember("ACTIVE", 1);
+ *
+ * // Declarative
+ * enum_("Status", ["PENDING", enumMember("ACTIVE", 1)], [$export()]);
+ *
+ * // Adopt existing (preserves trivia)
+ * file.updateEnum("Status", (decl) => enum_(decl).addMember("ARCHIVED").get());
+ * ```
+ */
+export function enum_(
+  name: string,
+  members?: (string | ts.EnumMember)[],
+  mods?: ts.ModifierLike[],
+): EnumBuilder & ts.EnumDeclaration;
+export function enum_(existingEnum: ts.EnumDeclaration): EnumBuilder & ts.EnumDeclaration;
+export function enum_(
+  nameOrEnum: string | ts.EnumDeclaration,
+  members: (string | ts.EnumMember)[] = [],
+  mods?: ts.ModifierLike[],
+) {
+  if (typeof nameOrEnum === "string") {
+    return buildFluentApi(EnumBuilder, { name: nameOrEnum, members, mods });
+  } else {
+    return buildFluentApi(EnumBuilder, nameOrEnum);
+  }
+}
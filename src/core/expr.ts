@@ -1,27 +1,416 @@
 import ts from "typescript";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import type { ParseOptions } from "../helpers/parse";
+import { type TemplateHole, type TemplateTag, quoteExpression } from "./quote";
 
 // Simple expression helpers
-export const expr = (name: string): ts.Identifier =>
-  ts.factory.createIdentifier(name);
+/**
+ * An identifier, or, used as a template tag, any expression
+ * @example
+ * ```ts
+ * expr("value");                            // value
+ * expr`${call("load", [])} ?? ${fallback}`; // load() ?? fallback
+ * expr({ scriptKind: ts.ScriptKind.TSX })`<App />`;
+ * ```
+ */
+export function expr(name: string): ts.Identifier;
+export function expr(
+  strings: TemplateStringsArray,
+  ...holes: TemplateHole[]
+): ts.Expression;
+export function expr(options: ParseOptions): TemplateTag<ts.Expression>;
+export function expr(
+  nameOrStrings: string | TemplateStringsArray | ParseOptions,
+  ...holes: TemplateHole[]
+): ts.Expression | TemplateTag<ts.Expression> {
+  if (typeof nameOrStrings === "string") {
+    return ts.factory.createIdentifier(nameOrStrings);
+  }
+  return Array.isArray(nameOrStrings)
+    ? quoteExpression(nameOrStrings as TemplateStringsArray, ...holes)
+    : quoteExpression(nameOrStrings as ParseOptions);
+}
+
+// Resolve a string to an identifier, pass expressions through
+const toExpression = (target: string | ts.Expression): ts.Expression =>
+  typeof target === "string" ? expr(target) : target;
 
 export const propAccess = (
-  expr: string | ts.Expression,
+  target: string | ts.Expression,
   name: string,
-): ts.PropertyAccessExpression => {
-  const expression = typeof expr === "string" ? expr(expr) : expr;
-  return ts.factory.createPropertyAccessExpression(expression, name);
-};
+): ts.PropertyAccessExpression =>
+  ts.factory.createPropertyAccessExpression(toExpression(target), name);
 
 export const newExpr = (
   expression: string | ts.Expression,
   args: ts.Expression[] = [],
   typeArgs?: ts.TypeNode[],
-): ts.NewExpression => {
-  const expr = typeof expression === "string" ? expr(expression) : expression;
-  return ts.factory.createNewExpression(expr, typeArgs, args);
+): ts.NewExpression =>
+  ts.factory.createNewExpression(toExpression(expression), typeArgs, args);
+
+// Element access: target[index]
+export const elemAccess = (
+  target: string | ts.Expression,
+  index: ts.Expression,
+): ts.ElementAccessExpression =>
+  ts.factory.createElementAccessExpression(toExpression(target), index);
+
+// Optional property access: target?.name
+export const optPropAccess = (
+  target: string | ts.Expression,
+  name: string,
+): ts.PropertyAccessChain =>
+  ts.factory.createPropertyAccessChain(
+    toExpression(target),
+    ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+    name,
+  );
+
+// Optional element access: target?.[index]
+export const optElemAccess = (
+  target: string | ts.Expression,
+  index: ts.Expression,
+): ts.ElementAccessChain =>
+  ts.factory.createElementAccessChain(
+    toExpression(target),
+    ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+    index,
+  );
+
+// Optional call: fn?.(args)
+export const optCall = (
+  fn: string | ts.Expression,
+  args: ts.Expression[] = [],
+): ts.CallChain =>
+  ts.factory.createCallChain(
+    toExpression(fn),
+    ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+    undefined,
+    args,
+  );
+
+const binaryOperators = {
+  // Arithmetic
+  "+": ts.SyntaxKind.PlusToken,
+  "-": ts.SyntaxKind.MinusToken,
+  "*": ts.SyntaxKind.AsteriskToken,
+  "/": ts.SyntaxKind.SlashToken,
+  "%": ts.SyntaxKind.PercentToken,
+  "**": ts.SyntaxKind.AsteriskAsteriskToken,
+  // Comparison
+  "==": ts.SyntaxKind.EqualsEqualsToken,
+  "!=": ts.SyntaxKind.ExclamationEqualsToken,
+  "===": ts.SyntaxKind.EqualsEqualsEqualsToken,
+  "!==": ts.SyntaxKind.ExclamationEqualsEqualsToken,
+  "<": ts.SyntaxKind.LessThanToken,
+  "<=": ts.SyntaxKind.LessThanEqualsToken,
+  ">": ts.SyntaxKind.GreaterThanToken,
+  ">=": ts.SyntaxKind.GreaterThanEqualsToken,
+  in: ts.SyntaxKind.InKeyword,
+  instanceof: ts.SyntaxKind.InstanceOfKeyword,
+  // Logical
+  "&&": ts.SyntaxKind.AmpersandAmpersandToken,
+  "||": ts.SyntaxKind.BarBarToken,
+  "??": ts.SyntaxKind.QuestionQuestionToken,
+  // Bitwise
+  "&": ts.SyntaxKind.AmpersandToken,
+  "|": ts.SyntaxKind.BarToken,
+  "^": ts.SyntaxKind.CaretToken,
+  "<<": ts.SyntaxKind.LessThanLessThanToken,
+  ">>": ts.SyntaxKind.GreaterThanGreaterThanToken,
+  ">>>": ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken,
+  // Assignment
+  "=": ts.SyntaxKind.EqualsToken,
+  "+=": ts.SyntaxKind.PlusEqualsToken,
+  "-=": ts.SyntaxKind.MinusEqualsToken,
+  "*=": ts.SyntaxKind.AsteriskEqualsToken,
+  "/=": ts.SyntaxKind.SlashEqualsToken,
+  "%=": ts.SyntaxKind.PercentEqualsToken,
+  "**=": ts.SyntaxKind.AsteriskAsteriskEqualsToken,
+  "&=": ts.SyntaxKind.AmpersandEqualsToken,
+  "|=": ts.SyntaxKind.BarEqualsToken,
+  "^=": ts.SyntaxKind.CaretEqualsToken,
+  "<<=": ts.SyntaxKind.LessThanLessThanEqualsToken,
+  ">>=": ts.SyntaxKind.GreaterThanGreaterThanEqualsToken,
+  ">>>=": ts.SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken,
+  "&&=": ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  "||=": ts.SyntaxKind.BarBarEqualsToken,
+  "??=": ts.SyntaxKind.QuestionQuestionEqualsToken,
+  // Comma
+  ",": ts.SyntaxKind.CommaToken,
+} as const satisfies Record<string, ts.BinaryOperator>;
+
+export type BinaryOperator = keyof typeof binaryOperators;
+
+const prefixOperators = {
+  "!": ts.SyntaxKind.ExclamationToken,
+  "-": ts.SyntaxKind.MinusToken,
+  "+": ts.SyntaxKind.PlusToken,
+  "~": ts.SyntaxKind.TildeToken,
+  "++": ts.SyntaxKind.PlusPlusToken,
+  "--": ts.SyntaxKind.MinusMinusToken,
+} as const satisfies Record<string, ts.PrefixUnaryOperator>;
+
+export type PrefixOperator = keyof typeof prefixOperators;
+
+const postfixOperators = {
+  "++": ts.SyntaxKind.PlusPlusToken,
+  "--": ts.SyntaxKind.MinusMinusToken,
+} as const satisfies Record<string, ts.PostfixUnaryOperator>;
+
+export type PostfixOperator = keyof typeof postfixOperators;
+
+/**
+ * Binary expression; operands are parenthesized as needed
+ * @example
+ * ```ts
+ * binary(id("a"), "??", $(0))      // a ?? 0
+ * binary(id("cache"), "||=", obj()) // cache ||= {}
+ * ```
+ */
+export const binary = (
+  left: ts.Expression,
+  operator: BinaryOperator | ts.BinaryOperator,
+  right: ts.Expression,
+): ts.BinaryExpression =>
+  ts.factory.createBinaryExpression(
+    left,
+    typeof operator === "string" ? binaryOperators[operator] : operator,
+    right,
+  );
+
+// Prefix unary expression: !x, -x, ++x
+export const prefix = (
+  operator: PrefixOperator | ts.PrefixUnaryOperator,
+  operand: ts.Expression,
+): ts.PrefixUnaryExpression =>
+  ts.factory.createPrefixUnaryExpression(
+    typeof operator === "string" ? prefixOperators[operator] : operator,
+    operand,
+  );
+
+// Postfix unary expression: x++, x--
+export const postfix = (
+  operand: ts.Expression,
+  operator: PostfixOperator | ts.PostfixUnaryOperator,
+): ts.PostfixUnaryExpression =>
+  ts.factory.createPostfixUnaryExpression(
+    operand,
+    typeof operator === "string" ? postfixOperators[operator] : operator,
+  );
+
+// Logical not: !x
+export const not = (operand: ts.Expression): ts.PrefixUnaryExpression =>
+  prefix("!", operand);
+
+// Conditional (ternary) expression: condition ? whenTrue : whenFalse
+export const conditional = (
+  condition: ts.Expression,
+  whenTrue: ts.Expression,
+  whenFalse: ts.Expression,
+): ts.ConditionalExpression =>
+  ts.factory.createConditionalExpression(
+    condition,
+    ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+    whenTrue,
+    ts.factory.createToken(ts.SyntaxKind.ColonToken),
+    whenFalse,
+  );
+
+/**
+ * Template literal from alternating text and expression parts
+ * @example
+ * ```ts
+ * template("Hello, ", id("name"), "!") // `Hello, ${name}!`
+ * ```
+ */
+export const template = (
+  ...parts: (string | ts.Expression)[]
+): ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral => {
+  let head = "";
+  let index = 0;
+  while (index < parts.length && typeof parts[index] === "string") {
+    head += parts[index] as string;
+    index++;
+  }
+
+  if (index === parts.length) {
+    return ts.factory.createNoSubstitutionTemplateLiteral(head);
+  }
+
+  const spans: ts.TemplateSpan[] = [];
+  while (index < parts.length) {
+    const expression = parts[index] as ts.Expression;
+    index++;
+
+    let text = "";
+    while (index < parts.length && typeof parts[index] === "string") {
+      text += parts[index] as string;
+      index++;
+    }
+
+    spans.push(
+      ts.factory.createTemplateSpan(
+        expression,
+        index < parts.length
+          ? ts.factory.createTemplateMiddle(text)
+          : ts.factory.createTemplateTail(text),
+      ),
+    );
+  }
+
+  return ts.factory.createTemplateExpression(
+    ts.factory.createTemplateHead(head),
+    spans,
+  );
 };
 
+// Tagged template: tag`text ${value}`
+export const taggedTemplate = (
+  tag: string | ts.Expression,
+  ...parts: (string | ts.Expression)[]
+): ts.TaggedTemplateExpression =>
+  ts.factory.createTaggedTemplateExpression(
+    toExpression(tag),
+    undefined,
+    template(...parts),
+  );
+
+// await expression
+export const await_ = (expression: ts.Expression): ts.AwaitExpression =>
+  ts.factory.createAwaitExpression(expression);
+
+// yield expression; `delegate` produces yield*, which needs an expression
+export const yield_ = (
+  expression?: ts.Expression,
+  delegate = false,
+): ts.YieldExpression => {
+  if (!delegate) {
+    return ts.factory.createYieldExpression(undefined, expression);
+  }
+  if (!expression) {
+    throw new TypeError("yield* needs an expression to delegate to");
+  }
+  return ts.factory.createYieldExpression(
+    ts.factory.createToken(ts.SyntaxKind.AsteriskToken),
+    expression,
+  );
+};
+
+// typeof expression
+export const typeof_ = (expression: ts.Expression): ts.TypeOfExpression =>
+  ts.factory.createTypeOfExpression(expression);
+
+// delete expression
+export const delete_ = (expression: ts.Expression): ts.DeleteExpression =>
+  ts.factory.createDeleteExpression(expression);
+
+// void expression
+export const void_ = (expression: ts.Expression): ts.VoidExpression =>
+  ts.factory.createVoidExpression(expression);
+
+// Type assertion: expression as Type
+export const as_ = (
+  expression: ts.Expression,
+  type: ts.TypeNode,
+): ts.AsExpression => ts.factory.createAsExpression(expression, type);
+
+// Const assertion: expression as const
+export const asConst = (expression: ts.Expression): ts.AsExpression =>
+  as_(expression, ts.factory.createTypeReferenceNode("const"));
+
+// Satisfies expression: expression satisfies Type
+export const satisfies_ = (
+  expression: ts.Expression,
+  type: ts.TypeNode,
+): ts.SatisfiesExpression =>
+  ts.factory.createSatisfiesExpression(expression, type);
+
+// Non-null assertion: expression!
+export const nonNull = (expression: ts.Expression): ts.NonNullExpression =>
+  ts.factory.createNonNullExpression(expression);
+
+// Spread element: ...expression
+export const spread = (expression: ts.Expression): ts.SpreadElement =>
+  ts.factory.createSpreadElement(expression);
+
+// Array literal: [a, b, ...c]
+export const arr = (
+  elements: ts.Expression[] = [],
+  multiLine = false,
+): ts.ArrayLiteralExpression =>
+  ts.factory.createArrayLiteralExpression(elements, multiLine);
+
+// Expression Chain Builder
+class ChainBuilder implements BuildableAST {
+  #expr: ts.Expression;
+
+  constructor({ target }: { target: ts.Expression }) {
+    this.#expr = target;
+  }
+
+  // Once a chain is optional, later links must continue the chain: a?.b.c
+  private get inChain(): boolean {
+    return ts.isOptionalChain(this.#expr);
+  }
+
+  prop(name: string) {
+    this.#expr = this.inChain
+      ? ts.factory.createPropertyAccessChain(this.#expr, undefined, name)
+      : ts.factory.createPropertyAccessExpression(this.#expr, name);
+    return this;
+  }
+
+  optProp(name: string) {
+    this.#expr = optPropAccess(this.#expr, name);
+    return this;
+  }
+
+  elem(index: ts.Expression) {
+    this.#expr = this.inChain
+      ? ts.factory.createElementAccessChain(this.#expr, undefined, index)
+      : ts.factory.createElementAccessExpression(this.#expr, index);
+    return this;
+  }
+
+  optElem(index: ts.Expression) {
+    this.#expr = optElemAccess(this.#expr, index);
+    return this;
+  }
+
+  call(args: ts.Expression[] = [], typeArgs?: ts.TypeNode[]) {
+    this.#expr = this.inChain
+      ? ts.factory.createCallChain(this.#expr, undefined, typeArgs, args)
+      : ts.factory.createCallExpression(this.#expr, typeArgs, args);
+    return this;
+  }
+
+  optCall(args: ts.Expression[] = []) {
+    this.#expr = optCall(this.#expr, args);
+    return this;
+  }
+
+  nonNull() {
+    this.#expr = nonNull(this.#expr);
+    return this;
+  }
+
+  get(): ts.Expression {
+    return this.#expr;
+  }
+}
+
+/**
+ * Start a member/call chain on an expression
+ * @example
+ * ```ts
+ * chain("user").optProp("profile").prop("name").call() // user?.profile.name()
+ * chain(this_()).prop("items").elem($(0)).nonNull()    // this.items[0]!
+ * ```
+ */
+export const chain = (target: string | ts.Expression) =>
+  buildFluentApi(ChainBuilder, { target: toExpression(target) });
+
 // Object Expression Builder
 class ObjectExpressionBuilder implements BuildableAST {
   #expr: ts.ObjectLiteralExpression;
@@ -1,31 +1,23 @@
 import ts from "typescript";
 import { type DecoratorFilterOptions, findDecorators } from "../helpers/finder";
+import { getOverloadSignatures } from "../helpers/node";
+import {
+  type BlockInput,
+  type TypeInput,
+  toBlockNode,
+  toTypeNode,
+} from "../helpers/parse";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
 import { fromDecorator } from "./decorator";
-import { $async, $export } from "./modifier";
+import { $async, $declare, $export, withModifier } from "./modifier";
 
 // Function Declaration Builder
 class FunctionBuilder implements BuildableAST {
   #decl: ts.FunctionDeclaration;
+  #overloads: ts.FunctionDeclaration[] = [];
 
-  constructor({
-    name,
-    params,
-    body,
-    mods,
-    typeParams,
-    returnType,
-  }: {
-    name: string;
-    params?: ts.ParameterDeclaration[];
-    body?: ts.Block;
-    mods?: ts.ModifierLike[];
-    typeParams?: ts.TypeParameterDeclaration[];
-    returnType?: ts.TypeNode;
-  });
-  constructor(from: ts.FunctionDeclaration);
   constructor(
     optionsOrFrom:
       | {
@@ -36,11 +28,16 @@ class FunctionBuilder implements BuildableAST {
           typeParams?: ts.TypeParameterDeclaration[];
           returnType?: ts.TypeNode;
         }
-      | ts.FunctionDeclaration
+      | {
+          func: ts.FunctionDeclaration;
+          overloads?: ts.FunctionDeclaration[];
+        }
   ) {
-    if ("kind" in optionsOrFrom && ts.isFunctionDeclaration(optionsOrFrom)) {
+    if ("func" in optionsOrFrom) {
       // Adopting existing FunctionDeclaration
-      this.#decl = optionsOrFrom;
+      this.#decl = optionsOrFrom.func;
+      this.#overloads =
+        optionsOrFrom.overloads ?? getOverloadSignatures(this.#decl);
     } else {
       // Creating new FunctionDeclaration from options
       const options = optionsOrFrom as {
@@ -71,7 +68,7 @@ class FunctionBuilder implements BuildableAST {
   $export() {
     this.#decl = ts.factory.updateFunctionDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $export()],
+      withModifier(this.#decl.modifiers, $export()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.typeParameters,
@@ -85,7 +82,7 @@ class FunctionBuilder implements BuildableAST {
   $async() {
     this.#decl = ts.factory.updateFunctionDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $async()],
+      withModifier(this.#decl.modifiers, $async()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.typeParameters,
@@ -96,7 +93,22 @@ class FunctionBuilder implements BuildableAST {
     return this;
   }
 
-  body(body: ts.Block) {
+  // Ambient declaration: declare function name(): Type;
+  $declare() {
+    this.#decl = ts.factory.updateFunctionDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
+      this.#decl.asteriskToken,
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.parameters,
+      this.#decl.type,
+      undefined, // ambient functions have no body
+    );
+    return this;
+  }
+
+  body(body: BlockInput) {
     this.#decl = ts.factory.updateFunctionDeclaration(
       this.#decl,
       this.#decl.modifiers,
@@ -105,12 +117,12 @@ class FunctionBuilder implements BuildableAST {
       this.#decl.typeParameters,
       this.#decl.parameters,
       this.#decl.type,
-      body,
+      toBlockNode(body),
     );
     return this;
   }
 
-  returnType(type: ts.TypeNode) {
+  returnType(type: TypeInput) {
     this.#decl = ts.factory.updateFunctionDeclaration(
       this.#decl,
       this.#decl.modifiers,
@@ -118,12 +130,77 @@ class FunctionBuilder implements BuildableAST {
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.parameters,
-      type,
+      toTypeNode(type),
       this.#decl.body,
     );
     return this;
   }
 
+  // ========== Overload Methods ==========
+
+  /**
+   * Add an overload signature. Overloads are emitted in the order they were
+   * added, ahead of the implementation, and share its name and modifiers.
+   * `get()` is only the implementation; pass the builder itself or
+   * `getAll()` to keep the overloads.
+   * @example
+   * ```ts
+   * const parse = func("parse", [param("input", $any()).get()], body)
+   *   .$export()
+   *   .overload([param("input", $string()).get()], $ref("Ast"))
+   *   .overload([param("input", $ref("Buffer")).get()], $ref("Ast"));
+   * file.addStatement(parse); // with its overloads
+   * ```
+   */
+  overload(
+    params: ts.ParameterDeclaration[],
+    returnType?: ts.TypeNode,
+    typeParams?: ts.TypeParameterDeclaration[],
+  ) {
+    this.#overloads = [
+      ...this.#overloads,
+      ts.factory.createFunctionDeclaration(
+        undefined,
+        undefined,
+        this.#decl.name,
+        typeParams,
+        params,
+        returnType,
+        undefined, // no body
+      ),
+    ];
+    return this;
+  }
+
+  /**
+   * Get the overload signatures, using the implementation's current name
+   * and modifiers (without `async`)
+   */
+  getOverloads(): ts.FunctionDeclaration[] {
+    const modifiers = this.#decl.modifiers?.filter(
+      (mod) => mod.kind !== ts.SyntaxKind.AsyncKeyword,
+    );
+    return this.#overloads.map((overload) =>
+      ts.factory.updateFunctionDeclaration(
+        overload,
+        modifiers?.length ? modifiers : undefined,
+        undefined,
+        this.#decl.name,
+        overload.typeParameters,
+        overload.parameters,
+        overload.type,
+        undefined,
+      ),
+    );
+  }
+
+  /**
+   * Get the overload signatures followed by the implementation
+   */
+  getAll(): ts.FunctionDeclaration[] {
+    return [...this.getOverloads(), this.#decl];
+  }
+
   // ========== Decorator Update Methods ==========
 
   /**
@@ -564,13 +641,13 @@ class ArrowFunctionBuilder implements BuildableAST {
     return this;
   }
 
-  returnType(type: ts.TypeNode) {
+  returnType(type: TypeInput) {
     this.#expr = ts.factory.updateArrowFunction(
       this.#expr,
       this.#expr.modifiers,
       this.#expr.typeParameters,
       this.#expr.parameters,
-      type,
+      toTypeNode(type),
       this.#expr.equalsGreaterThanToken,
       this.#expr.body,
     );
@@ -585,21 +662,54 @@ class ArrowFunctionBuilder implements BuildableAST {
 export function func(
   name: string,
   params?: ts.ParameterDeclaration[],
-  body?: ts.Block
+  body?: BlockInput
+): FunctionBuilder & ts.FunctionDeclaration;
+/**
+ * Adopt an existing function to preserve trivia, with its overload
+ * signatures
+ * @param overloads Defaults to the signatures right before the function in
+ * its parsed file
+ */
+export function func(
+  existingFunction: ts.FunctionDeclaration,
+  overloads?: ts.FunctionDeclaration[],
 ): FunctionBuilder & ts.FunctionDeclaration;
-export function func(existingFunction: ts.FunctionDeclaration): FunctionBuilder & ts.FunctionDeclaration;
 export function func(
   nameOrFunction: string | ts.FunctionDeclaration,
-  params: ts.ParameterDeclaration[] = [],
-  body?: ts.Block,
+  paramsOrOverloads?: ts.ParameterDeclaration[] | ts.FunctionDeclaration[],
+  body?: BlockInput,
 ) {
   if (typeof nameOrFunction === "string") {
-    return buildFluentApi(FunctionBuilder, { name: nameOrFunction, params, body });
+    return buildFluentApi(FunctionBuilder, {
+      name: nameOrFunction,
+      params: (paramsOrOverloads ?? []) as ts.ParameterDeclaration[],
+      body: body === undefined ? undefined : toBlockNode(body),
+    });
   } else {
-    return buildFluentApi(FunctionBuilder, nameOrFunction);
+    return buildFluentApi(FunctionBuilder, {
+      func: nameOrFunction,
+      overloads: paramsOrOverloads as ts.FunctionDeclaration[] | undefined,
+    });
   }
 }
 
+/**
+ * Create an ambient function declaration: declare function name(): Type;
+ */
+export const declareFunction = (
+  name: string,
+  params: ts.ParameterDeclaration[] = [],
+  returnType?: ts.TypeNode,
+  typeParams?: ts.TypeParameterDeclaration[],
+) =>
+  buildFluentApi(FunctionBuilder, {
+    name,
+    params,
+    returnType,
+    typeParams,
+    mods: [$declare()],
+  });
+
 export const arrow = (
   params: ts.ParameterDeclaration[] = [],
   body?: ts.ConciseBody,
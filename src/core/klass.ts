@@ -1,15 +1,82 @@
 import ts from "typescript";
 import { type DecoratorFilterOptions, findDecorators } from "../helpers/finder";
+import { getOverloadSignatures } from "../helpers/node";
 import { getClassNameSafe } from "../helpers/safeName";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
-import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import {
+  type BuildableAST,
+  buildFluentApi,
+  unwrapNodes,
+} from "../utils/buildFluentApi";
+import { getter, setter } from "./accessor";
 import { ctor as ctorBuilder } from "./ctor";
 import { fromDecorator } from "./decorator";
 import { method as methodBuilder } from "./method";
-import { $abstract, $export, $readonly } from "./modifier";
+import {
+  $abstract,
+  $declare,
+  $export,
+  $private,
+  $readonly,
+  $static,
+  withModifier,
+} from "./modifier";
 import { prop } from "./prop";
 
+// Read a class member name as text
+const getMemberNameText = (name: ts.PropertyName | undefined) => {
+  if (!name) {
+    return undefined;
+  }
+  return ts.isIdentifier(name) ||
+    ts.isPrivateIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+    ? name.text
+    : name.getText();
+};
+
+// Create a member name, turning "#name" into a private identifier
+const createMemberName = (name: string): ts.PropertyName =>
+  name.startsWith("#")
+    ? ts.factory.createPrivateIdentifier(name)
+    : ts.factory.createIdentifier(name);
+
+// Modifiers that do not carry over from a property to its accessors
+const fieldOnlyModifiers = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.ReadonlyKeyword,
+  ts.SyntaxKind.DeclareKeyword,
+  ts.SyntaxKind.AccessorKeyword,
+]);
+
+// Accessor declarations and their builders by kind
+interface AccessorKinds {
+  get: {
+    decl: ts.GetAccessorDeclaration;
+    builder: ReturnType<typeof getter>;
+  };
+  set: {
+    decl: ts.SetAccessorDeclaration;
+    builder: ReturnType<typeof setter>;
+  };
+}
+
+type AccessorKind = keyof AccessorKinds;
+type AccessorDecl<K extends AccessorKind> = AccessorKinds[K]["decl"];
+type AccessorBuilder<K extends AccessorKind> = AccessorKinds[K]["builder"];
+
+// How to find and adopt each kind of accessor
+const accessorKinds: {
+  [K in AccessorKind]: {
+    is: (member: ts.ClassElement) => member is AccessorDecl<K>;
+    adopt: (accessor: AccessorDecl<K>) => AccessorBuilder<K>;
+  };
+} = {
+  get: { is: ts.isGetAccessor, adopt: (accessor) => getter(accessor) },
+  set: { is: ts.isSetAccessor, adopt: (accessor) => setter(accessor) },
+};
+
 export class KlassBuilder implements BuildableAST {
   #decl: ts.ClassDeclaration;
 
@@ -65,7 +132,7 @@ export class KlassBuilder implements BuildableAST {
   $export() {
     this.#decl = ts.factory.updateClassDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $export()],
+      withModifier(this.#decl.modifiers, $export()),
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.heritageClauses,
@@ -77,7 +144,7 @@ export class KlassBuilder implements BuildableAST {
   $abstract() {
     this.#decl = ts.factory.updateClassDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $abstract()],
+      withModifier(this.#decl.modifiers, $abstract()),
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.heritageClauses,
@@ -89,7 +156,20 @@ export class KlassBuilder implements BuildableAST {
   $readonly() {
     this.#decl = ts.factory.updateClassDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $readonly()],
+      withModifier(this.#decl.modifiers, $readonly()),
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.heritageClauses,
+      this.#decl.members,
+    );
+    return this;
+  }
+
+  // Ambient declaration: declare class Name {}
+  $declare() {
+    this.#decl = ts.factory.updateClassDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.heritageClauses,
@@ -101,7 +181,7 @@ export class KlassBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updateClassDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.heritageClauses,
@@ -110,14 +190,17 @@ export class KlassBuilder implements BuildableAST {
     return this;
   }
 
-  addMember(member: ts.ClassElement) {
+  /**
+   * Append members; method builders add their overload signatures too
+   */
+  addMember(...members: ts.ClassElement[]) {
     this.#decl = ts.factory.updateClassDeclaration(
       this.#decl,
       this.#decl.modifiers,
       this.#decl.name,
       this.#decl.typeParameters,
       this.#decl.heritageClauses,
-      [...this.#decl.members, member],
+      [...this.#decl.members, ...members.flatMap(unwrapNodes)],
     );
     return this;
   }
@@ -146,6 +229,127 @@ export class KlassBuilder implements BuildableAST {
     return this;
   }
 
+  // ========== Class Feature Methods ==========
+
+  /**
+   * Add an ES private field; the name is prefixed with "#" if needed
+   * @example
+   * ```ts
+   * klass("Counter").addPrivateField("count", $number(), $(0)); // #count: number = 0;
+   * ```
+   */
+  addPrivateField(
+    name: string,
+    type?: ts.TypeNode,
+    initializer?: ts.Expression,
+  ) {
+    return this.addMember(
+      ts.factory.createPropertyDeclaration(
+        undefined,
+        ts.factory.createPrivateIdentifier(
+          name.startsWith("#") ? name : `#${name}`,
+        ),
+        undefined,
+        type,
+        initializer,
+      ),
+    );
+  }
+
+  /**
+   * Add a `static { }` initialization block
+   */
+  addStaticBlock(body: ts.Statement[] | ts.Block) {
+    return this.addMember(
+      ts.factory.createClassStaticBlockDeclaration(
+        Array.isArray(body) ? ts.factory.createBlock(body, true) : body,
+      ),
+    );
+  }
+
+  /**
+   * Add an index signature: `[key: string]: Type`
+   * @param keyName Name of the index parameter
+   * @param keyType Type of the index, e.g. `$string()`
+   * @param valueType Type of the values
+   * @param mods Optional modifiers such as `$static()` or `$readonly()`
+   */
+  addIndexSignature(
+    keyName: string,
+    keyType: ts.TypeNode,
+    valueType: ts.TypeNode,
+    mods?: ts.Modifier[],
+  ) {
+    return this.addMember(
+      ts.factory.createIndexSignature(
+        mods,
+        [
+          ts.factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            keyName,
+            undefined,
+            keyType,
+          ),
+        ],
+        valueType,
+      ),
+    );
+  }
+
+  /**
+   * Add a method overload signature. It is placed after the existing
+   * overloads of the method and before its implementation, whose name and
+   * modifiers it shares (see `MethodBuilder.overload`); `mods` are only
+   * used for methods without an implementation, e.g. abstract ones.
+   * @example
+   * ```ts
+   * klass(existing)
+   *   .addMethodOverload("parse", [param("input", $string()).get()], $ref("Ast"))
+   *   .addMethodOverload("parse", [param("input", $ref("Buffer")).get()], $ref("Ast"));
+   * ```
+   */
+  addMethodOverload(
+    name: string,
+    params: ts.ParameterDeclaration[],
+    returnType?: ts.TypeNode,
+    mods?: ts.ModifierLike[],
+    typeParams?: ts.TypeParameterDeclaration[],
+  ) {
+    const updated = this.updateMethod(
+      (method) => !!method.body && getMemberNameText(method.name) === name,
+      (method) => method.overload(params, returnType, typeParams),
+    );
+    if (updated) {
+      return this;
+    }
+
+    return this.addMember(
+      ts.factory.createMethodDeclaration(
+        mods,
+        undefined,
+        createMemberName(name),
+        undefined,
+        typeParams,
+        params,
+        returnType,
+        undefined, // no body
+      ),
+    );
+  }
+
+  /**
+   * Get the overload signatures (bodiless declarations) of a method
+   */
+  getMethodOverloads(name: string): ts.MethodDeclaration[] {
+    return this.#decl.members.filter(
+      (member): member is ts.MethodDeclaration =>
+        ts.isMethodDeclaration(member) &&
+        !member.body &&
+        getMemberNameText(member.name) === name,
+    );
+  }
+
   // ========== Heritage Methods ==========
 
   /**
@@ -473,28 +677,8 @@ export class KlassBuilder implements BuildableAST {
       return undefined;
     }
 
-    // Create a property builder from the existing property
-    const propertyBuilder = prop(
-      ts.isIdentifier(propertyMember.name)
-        ? propertyMember.name.text
-        : propertyMember.name!.getText(),
-      propertyMember.type,
-      !!propertyMember.questionToken,
-    );
-
-    // Apply existing modifiers
-    if (propertyMember.modifiers) {
-      propertyMember.modifiers.forEach((mod) => {
-        if (ts.isModifier(mod)) {
-          propertyBuilder.$mod(mod);
-        }
-      });
-    }
-
-    // Apply existing initializer
-    if (propertyMember.initializer) {
-      propertyBuilder.$init(propertyMember.initializer);
-    }
+    // Create a property builder from the existing property to preserve trivia
+    const propertyBuilder = prop(propertyMember);
 
     // Apply the update function
     const updatedProperty = updateFn(propertyBuilder);
@@ -529,12 +713,10 @@ export class KlassBuilder implements BuildableAST {
     propertyName: string,
     updateFn: (property: ReturnType<typeof prop>) => ReturnType<typeof prop>,
   ): ReturnType<typeof prop> | undefined {
-    return this.updateProperty((property) => {
-      if (ts.isIdentifier(property.name)) {
-        return property.name.text === propertyName;
-      }
-      return property.name?.getText() === propertyName;
-    }, updateFn);
+    return this.updateProperty(
+      (property) => getMemberNameText(property.name) === propertyName,
+      updateFn,
+    );
   }
 
   /**
@@ -587,6 +769,51 @@ export class KlassBuilder implements BuildableAST {
 
   // ========== Method Update Methods ==========
 
+  // The method an overload signature belongs to: the implementation after
+  // it, if there is one
+  private getImplementation(method: ts.MethodDeclaration) {
+    const members = this.#decl.members;
+    const name = getMemberNameText(method.name);
+    for (let index = members.indexOf(method); index < members.length; index++) {
+      const member = members[index]!;
+      if (
+        !ts.isMethodDeclaration(member) ||
+        getMemberNameText(member.name) !== name
+      ) {
+        break;
+      }
+      if (member.body) {
+        return member;
+      }
+    }
+    return method;
+  }
+
+  // Adopt a method with the overload signatures right before it
+  private adoptMethod(implementation: ts.MethodDeclaration) {
+    return methodBuilder(
+      implementation,
+      getOverloadSignatures(implementation, this.#decl.members),
+    );
+  }
+
+  // Put an updated method and its overloads in place of a method and its
+  // overload signatures
+  private replaceMethod(
+    implementation: ts.MethodDeclaration,
+    updated: ReturnType<typeof methodBuilder>,
+  ) {
+    const overloads = new Set<ts.ClassElement>(
+      getOverloadSignatures(implementation, this.#decl.members),
+    );
+    this.replaceMembers(
+      this.#decl.members.flatMap((member) => {
+        if (member === implementation) return updated.getAll();
+        return overloads.has(member) ? [] : [member];
+      }),
+    );
+  }
+
   /**
    * Update a method on the class using a callback function with a flexible find condition
    * @param findCondition Function to determine which method to update (returns true for the target method)
@@ -608,35 +835,14 @@ export class KlassBuilder implements BuildableAST {
       return undefined;
     }
 
-    // Create a method builder from the existing method
-    const methodBuilderInstance = methodBuilder(
-      ts.isIdentifier(methodMember.name)
-        ? methodMember.name.text
-        : methodMember.name!.getText(),
-      Array.from(methodMember.parameters),
-      methodMember.body!,
-      methodMember.modifiers ? Array.from(methodMember.modifiers) : undefined,
-    );
+    // Adopt the method with its overloads to preserve trivia
+    const implementation = this.getImplementation(methodMember);
 
     // Apply the update function
-    const updatedMethod = updateFn(methodBuilderInstance);
+    const updatedMethod = updateFn(this.adoptMethod(implementation));
 
-    // Update the class with the new method
-    const updatedMembers = this.#decl.members.map((member) => {
-      if (member === methodMember) {
-        return updatedMethod.get();
-      }
-      return member;
-    });
-
-    this.#decl = ts.factory.updateClassDeclaration(
-      this.#decl,
-      this.#decl.modifiers,
-      this.#decl.name,
-      this.#decl.typeParameters,
-      this.#decl.heritageClauses,
-      updatedMembers,
-    );
+    // Update the class with the new method and its overloads
+    this.replaceMethod(implementation, updatedMethod);
 
     return updatedMethod;
   }
@@ -653,12 +859,10 @@ export class KlassBuilder implements BuildableAST {
       method: ReturnType<typeof methodBuilder>,
     ) => ReturnType<typeof methodBuilder>,
   ): ReturnType<typeof methodBuilder> | undefined {
-    return this.updateMethod((method) => {
-      if (ts.isIdentifier(method.name)) {
-        return method.name.text === methodName;
-      }
-      return method.name?.getText() === methodName;
-    }, updateFn);
+    return this.updateMethod(
+      (method) => getMemberNameText(method.name) === methodName,
+      updateFn,
+    );
   }
 
   /**
@@ -682,30 +886,17 @@ export class KlassBuilder implements BuildableAST {
       return updatedMethods;
     }
 
-    // Update each found method
-    for (const foundMethod of foundMethods) {
-      // Create method builder from existing method to preserve decorators and comments
-      const methodBuilderInstance = methodBuilder(foundMethod);
-
-      const updatedMethod = updateFn(methodBuilderInstance);
+    // Update each found method once, with its overloads
+    const implementations = new Set(
+      foundMethods.map((method) => this.getImplementation(method)),
+    );
+    for (const implementation of implementations) {
+      // Adopt the existing method to preserve decorators and comments
+      const updatedMethod = updateFn(this.adoptMethod(implementation));
       updatedMethods.push(updatedMethod);
 
-      // Update the class with the new method
-      const updatedMembers = this.#decl.members.map((member) => {
-        if (member === foundMethod) {
-          return updatedMethod.get();
-        }
-        return member;
-      });
-
-      this.#decl = ts.factory.updateClassDeclaration(
-        this.#decl,
-        this.#decl.modifiers,
-        this.#decl.name,
-        this.#decl.typeParameters,
-        this.#decl.heritageClauses,
-        updatedMembers,
-      );
+      // Update the class with the new method and its overloads
+      this.replaceMethod(implementation, updatedMethod);
     }
 
     return updatedMethods;
@@ -732,20 +923,8 @@ export class KlassBuilder implements BuildableAST {
       return undefined;
     }
 
-    // Create a constructor builder from the existing constructor
-    const constructorBuilderInstance = ctorBuilder(
-      Array.from(constructorMember.parameters),
-      constructorMember.body!,
-    );
-
-    // Apply existing modifiers
-    if (constructorMember.modifiers) {
-      constructorMember.modifiers.forEach((mod) => {
-        if (ts.isModifier(mod)) {
-          constructorBuilderInstance.$mod(mod);
-        }
-      });
-    }
+    // Create a constructor builder from the existing constructor to preserve trivia
+    const constructorBuilderInstance = ctorBuilder(constructorMember);
 
     // Apply the update function
     const updatedConstructor = updateFn(constructorBuilderInstance);
@@ -770,6 +949,287 @@ export class KlassBuilder implements BuildableAST {
     return updatedConstructor;
   }
 
+  // ========== Accessor Methods ==========
+
+  /**
+   * Update a getter or setter on the class using a callback function with a flexible find condition
+   * @param kind Which accessor to update: "get" or "set"
+   * @param findCondition Function to determine which accessor to update (returns true for the target accessor)
+   * @param updateFn Function that receives the existing accessor and returns the updated one
+   * @returns The updated accessor builder or undefined if not found
+   */
+  updateAccessor<K extends AccessorKind>(
+    kind: K,
+    findCondition: (accessor: AccessorDecl<K>) => boolean,
+    updateFn: (accessor: AccessorBuilder<K>) => AccessorBuilder<K>,
+  ): AccessorBuilder<K> | undefined {
+    const { is, adopt } = accessorKinds[kind];
+
+    // Find the accessor using the condition
+    const accessorMember = this.#decl.members
+      .filter(is)
+      .find((member) => findCondition(member));
+
+    if (!accessorMember) {
+      return undefined;
+    }
+
+    // Adopt the existing accessor to preserve decorators and comments
+    const updatedAccessor = updateFn(adopt(accessorMember));
+
+    this.replaceMembers(
+      this.#decl.members.map((member) =>
+        member === accessorMember ? updatedAccessor.get() : member,
+      ),
+    );
+
+    return updatedAccessor;
+  }
+
+  /**
+   * Convenience method: Update getter or setter by name
+   * @param accessorName The name of the accessor to update
+   * @param kind Which accessor to update: "get" or "set"
+   * @param updateFn Function that receives the existing accessor and returns the updated one
+   * @returns The updated accessor builder or undefined if not found
+   */
+  updateAccessorByName<K extends AccessorKind>(
+    accessorName: string,
+    kind: K,
+    updateFn: (accessor: AccessorBuilder<K>) => AccessorBuilder<K>,
+  ): AccessorBuilder<K> | undefined {
+    return this.updateAccessor(
+      kind,
+      (accessor) => getMemberNameText(accessor.name) === accessorName,
+      updateFn,
+    );
+  }
+
+  /**
+   * Add a getter/setter pair; existing accessors with the same name are replaced in place
+   * @example
+   * ```ts
+   * klass("Counter").addAccessorPair("count", {
+   *   type: $number(),
+   *   get: block([ret(propAccess(this_(), "#count"))]),
+   *   set: block([assign(propAccess(this_(), "#count"), id("value"))]),
+   * });
+   * ```
+   */
+  addAccessorPair(
+    getAccessor: ts.GetAccessorDeclaration,
+    setAccessor: ts.SetAccessorDeclaration,
+  ): this;
+  addAccessorPair(
+    name: string,
+    options: {
+      type?: ts.TypeNode;
+      get: ts.Block;
+      set: ts.Block;
+      paramName?: string;
+      mods?: ts.ModifierLike[];
+    },
+  ): this;
+  addAccessorPair(
+    nameOrGetter: string | ts.GetAccessorDeclaration,
+    optionsOrSetter:
+      | {
+          type?: ts.TypeNode;
+          get: ts.Block;
+          set: ts.Block;
+          paramName?: string;
+          mods?: ts.ModifierLike[];
+        }
+      | ts.SetAccessorDeclaration,
+  ) {
+    let getAccessor: ts.GetAccessorDeclaration;
+    let setAccessor: ts.SetAccessorDeclaration;
+    if (typeof nameOrGetter === "string") {
+      const options = optionsOrSetter as {
+        type?: ts.TypeNode;
+        get: ts.Block;
+        set: ts.Block;
+        paramName?: string;
+        mods?: ts.ModifierLike[];
+      };
+      getAccessor = getter(
+        nameOrGetter,
+        options.get,
+        options.type,
+        options.mods,
+      ).get();
+      setAccessor = setter(
+        nameOrGetter,
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          options.paramName ?? "value",
+          undefined,
+          options.type,
+        ),
+        options.set,
+        options.mods?.filter((mod) => !ts.isDecorator(mod)),
+      ).get();
+    } else {
+      getAccessor = nameOrGetter;
+      setAccessor = optionsOrSetter as ts.SetAccessorDeclaration;
+    }
+
+    const name = getMemberNameText(getAccessor.name);
+    const isSameAccessor = (member: ts.ClassElement) =>
+      (ts.isGetAccessor(member) || ts.isSetAccessor(member)) &&
+      getMemberNameText(member.name) === name;
+
+    const index = this.#decl.members.findIndex(isSameAccessor);
+    const remaining = this.#decl.members.filter(
+      (member) => !isSameAccessor(member),
+    );
+    const insertAt = index === -1 ? remaining.length : index;
+
+    this.replaceMembers([
+      ...remaining.slice(0, insertAt),
+      getAccessor,
+      setAccessor,
+      ...remaining.slice(insertAt),
+    ]);
+    return this;
+  }
+
+  /**
+   * Replace a property with a backing field and a getter/setter pair.
+   * Decorators move to the getter; a readonly property only gets a getter.
+   * @param propertyName The name of the property to convert
+   * @param backingField Name of the generated field; "#name" creates an ES private field
+   * @returns The class builder for chaining
+   * @example
+   * ```ts
+   * // @Prop() value: string = "";
+   * klass(existing).convertPropertyToAccessors("value", "_value");
+   * // private _value: string = "";
+   * // @Prop() get value(): string { return this._value; }
+   * // set value(value: string) { this._value = value; }
+   * ```
+   */
+  convertPropertyToAccessors(
+    propertyName: string,
+    backingField = `_${propertyName}`,
+  ) {
+    const propertyMember = this.#decl.members.find(
+      (member): member is ts.PropertyDeclaration =>
+        ts.isPropertyDeclaration(member) &&
+        getMemberNameText(member.name) === propertyName,
+    );
+
+    if (!propertyMember) {
+      throw new Error(`Property "${propertyName}" not found in class`);
+    }
+
+    // The property's comments move to the getter, not its first decorator
+    const decorators = (
+      propertyMember.modifiers?.filter(ts.isDecorator) ?? []
+    ).map((decorator) =>
+      ts.setEmitFlags(decorator, ts.EmitFlags.NoLeadingComments),
+    );
+    const modifiers =
+      propertyMember.modifiers?.filter(
+        (mod): mod is ts.Modifier =>
+          ts.isModifier(mod) && !fieldOnlyModifiers.has(mod.kind),
+      ) ?? [];
+    const isReadonly = !!propertyMember.modifiers?.some(
+      (mod) => mod.kind === ts.SyntaxKind.ReadonlyKeyword,
+    );
+    const isStatic = modifiers.some(
+      (mod) => mod.kind === ts.SyntaxKind.StaticKeyword,
+    );
+
+    // Optional properties may hold undefined
+    const accessorType =
+      propertyMember.type && propertyMember.questionToken
+        ? ts.factory.createUnionTypeNode([
+            propertyMember.type,
+            ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword),
+          ])
+        : propertyMember.type;
+
+    const fieldAccess = () =>
+      ts.factory.createPropertyAccessExpression(
+        ts.factory.createThis(),
+        createMemberName(backingField) as ts.MemberName,
+      );
+
+    const backingMember = ts.factory.createPropertyDeclaration(
+      [
+        ...(backingField.startsWith("#") ? [] : [$private()]),
+        ...(isStatic ? [$static()] : []),
+      ],
+      createMemberName(backingField),
+      propertyMember.questionToken ?? propertyMember.exclamationToken,
+      propertyMember.type,
+      propertyMember.initializer,
+    );
+
+    // The getter takes the property's place and comments
+    const getAccessor = ts.setOriginalNode(
+      getter(
+        propertyName,
+        ts.factory.createBlock(
+          [ts.factory.createReturnStatement(fieldAccess())],
+          true,
+        ),
+        accessorType,
+        [...decorators, ...modifiers],
+      ).get(),
+      propertyMember,
+    );
+    ts.setCommentRange(getAccessor, ts.getCommentRange(propertyMember));
+
+    const accessors: ts.ClassElement[] = [getAccessor];
+    if (!isReadonly) {
+      accessors.push(
+        setter(
+          propertyName,
+          ts.factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            "value",
+            undefined,
+            accessorType,
+          ),
+          ts.factory.createBlock(
+            [
+              ts.factory.createExpressionStatement(
+                ts.factory.createAssignment(
+                  fieldAccess(),
+                  ts.factory.createIdentifier("value"),
+                ),
+              ),
+            ],
+            true,
+          ),
+          modifiers,
+        ).get(),
+      );
+    }
+
+    this.replaceMembers(
+      this.#decl.members.flatMap((member) =>
+        member === propertyMember ? [backingMember, ...accessors] : [member],
+      ),
+    );
+    return this;
+  }
+
+  private replaceMembers(members: readonly ts.ClassElement[]) {
+    this.#decl = ts.factory.updateClassDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.heritageClauses,
+      members,
+    );
+  }
+
   // ========== Comment Methods ==========
 
   /**
@@ -1027,12 +1487,10 @@ export class KlassBuilder implements BuildableAST {
     propertyName: string,
     updateFn: (property: ReturnType<typeof prop>) => Promise<ReturnType<typeof prop>>,
   ): Promise<ReturnType<typeof prop> | undefined> {
-    return await this.updatePropertyAsync((property) => {
-      if (ts.isIdentifier(property.name)) {
-        return property.name.text === propertyName;
-      }
-      return property.name?.getText() === propertyName;
-    }, updateFn);
+    return await this.updatePropertyAsync(
+      (property) => getMemberNameText(property.name) === propertyName,
+      updateFn,
+    );
   }
 
   /**
@@ -1056,28 +1514,14 @@ export class KlassBuilder implements BuildableAST {
       return undefined;
     }
 
-    // Create a method builder from the existing method to preserve trivia
-    const methodBuilderInstance = methodBuilder(methodMember);
+    // Adopt the method with its overloads to preserve trivia
+    const implementation = this.getImplementation(methodMember);
 
     // Apply the async update function
-    const updatedMethod = await updateFn(methodBuilderInstance);
-
-    // Update the class with the new method
-    const updatedMembers = this.#decl.members.map((member) => {
-      if (member === methodMember) {
-        return updatedMethod.get();
-      }
-      return member;
-    });
+    const updatedMethod = await updateFn(this.adoptMethod(implementation));
 
-    this.#decl = ts.factory.updateClassDeclaration(
-      this.#decl,
-      this.#decl.modifiers,
-      this.#decl.name,
-      this.#decl.typeParameters,
-      this.#decl.heritageClauses,
-      updatedMembers,
-    );
+    // Update the class with the new method and its overloads
+    this.replaceMethod(implementation, updatedMethod);
 
     return updatedMethod;
   }
@@ -1094,12 +1538,10 @@ export class KlassBuilder implements BuildableAST {
       method: ReturnType<typeof methodBuilder>,
     ) => Promise<ReturnType<typeof methodBuilder>>,
   ): Promise<ReturnType<typeof methodBuilder> | undefined> {
-    return await this.updateMethodAsync((method) => {
-      if (ts.isIdentifier(method.name)) {
-        return method.name.text === methodName;
-      }
-      return method.name?.getText() === methodName;
-    }, updateFn);
+    return await this.updateMethodAsync(
+      (method) => getMemberNameText(method.name) === methodName,
+      updateFn,
+    );
   }
 
   /**
@@ -1121,20 +1563,8 @@ export class KlassBuilder implements BuildableAST {
       return undefined;
     }
 
-    // Create a constructor builder from the existing constructor
-    const constructorBuilderInstance = ctorBuilder(
-      Array.from(constructorMember.parameters),
-      constructorMember.body!,
-    );
-
-    // Apply existing modifiers
-    if (constructorMember.modifiers) {
-      constructorMember.modifiers.forEach((mod) => {
-        if (ts.isModifier(mod)) {
-          constructorBuilderInstance.$mod(mod);
-        }
-      });
-    }
+    // Create a constructor builder from the existing constructor to preserve trivia
+    const constructorBuilderInstance = ctorBuilder(constructorMember);
 
     // Apply the async update function
     const updatedConstructor = await updateFn(constructorBuilderInstance);
@@ -1183,28 +1613,16 @@ export class KlassBuilder implements BuildableAST {
       return updatedMethods;
     }
 
-    // Update each found method asynchronously
-    for (const foundMethod of foundMethods) {
-      const methodBuilderInstance = methodBuilder(foundMethod);
-      const updatedMethod = await updateFn(methodBuilderInstance);
+    // Update each found method once, with its overloads
+    const implementations = new Set(
+      foundMethods.map((method) => this.getImplementation(method)),
+    );
+    for (const implementation of implementations) {
+      const updatedMethod = await updateFn(this.adoptMethod(implementation));
       updatedMethods.push(updatedMethod);
 
-      // Update the class with the new method
-      const updatedMembers = this.#decl.members.map((member) => {
-        if (member === foundMethod) {
-          return updatedMethod.get();
-        }
-        return member;
-      });
-
-      this.#decl = ts.factory.updateClassDeclaration(
-        this.#decl,
-        this.#decl.modifiers,
-        this.#decl.name,
-        this.#decl.typeParameters,
-        this.#decl.heritageClauses,
-        updatedMembers,
-      );
+      // Update the class with the new method and its overloads
+      this.replaceMethod(implementation, updatedMethod);
     }
 
     return updatedMethods;
@@ -1261,6 +1679,35 @@ export class KlassBuilder implements BuildableAST {
     return updatedProperties;
   }
 
+  /**
+   * Async version of updateAccessorByName - allows async callback functions
+   */
+  async updateAccessorByNameAsync<K extends AccessorKind>(
+    accessorName: string,
+    kind: K,
+    updateFn: (accessor: AccessorBuilder<K>) => Promise<AccessorBuilder<K>>,
+  ): Promise<AccessorBuilder<K> | undefined> {
+    const { is, adopt } = accessorKinds[kind];
+    const accessorMember = this.#decl.members
+      .filter(is)
+      .find((member) => getMemberNameText(member.name) === accessorName);
+
+    if (!accessorMember) {
+      return undefined;
+    }
+
+    // Apply the update function asynchronously
+    const updatedAccessor = await updateFn(adopt(accessorMember));
+
+    this.replaceMembers(
+      this.#decl.members.map((member) =>
+        member === accessorMember ? updatedAccessor.get() : member,
+      ),
+    );
+
+    return updatedAccessor;
+  }
+
   get(): ts.ClassDeclaration {
     return this.#decl;
   }
@@ -1297,3 +1744,9 @@ export function klass(
     return buildFluentApi(KlassBuilder, nameOrExisting);
   }
 }
+
+/**
+ * Create an ambient class declaration: declare class Name {}
+ */
+export const declareClass = (name: string, members: ts.ClassElement[] = []) =>
+  klass(name, members, [$declare()]);
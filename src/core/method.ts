@@ -1,31 +1,31 @@
 import ts from "typescript";
 import { type DecoratorFilterOptions, findDecorators } from "../helpers/finder";
+import { getOverloadSignatures } from "../helpers/node";
+import {
+  type BlockInput,
+  type TypeInput,
+  toBlockNode,
+  toTypeNode,
+} from "../helpers/parse";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
 import { fromDecorator } from "./decorator";
-import { $async, $private, $protected, $public, $static } from "./modifier";
+import {
+  $async,
+  $override,
+  $private,
+  $protected,
+  $public,
+  $static,
+  withModifier,
+} from "./modifier";
 import { param } from "./params";
 
 class MethodBuilder implements BuildableAST {
   #decl: ts.MethodDeclaration;
+  #overloads: ts.MethodDeclaration[] = [];
 
-  constructor({
-    name,
-    args,
-    body,
-    mods,
-    typeParams,
-    returnType,
-  }: {
-    name: string;
-    args: ts.ParameterDeclaration[];
-    body: ts.Block;
-    mods?: ts.ModifierLike[];
-    typeParams?: ts.TypeParameterDeclaration[];
-    returnType?: ts.TypeNode;
-  });
-  constructor(from: ts.MethodDeclaration);
   constructor(
     optionsOrFrom:
       | {
@@ -36,17 +36,24 @@ class MethodBuilder implements BuildableAST {
           typeParams?: ts.TypeParameterDeclaration[];
           returnType?: ts.TypeNode;
         }
-      | ts.MethodDeclaration
+      | {
+          method: ts.MethodDeclaration;
+          overloads?: ts.MethodDeclaration[];
+        }
   ) {
-    if ("kind" in optionsOrFrom && "pos" in optionsOrFrom) {
+    if ("method" in optionsOrFrom) {
       // Adopting existing AST node - preserves trivia
-      this.#decl = optionsOrFrom;
+      this.#decl = optionsOrFrom.method;
+      this.#overloads =
+        optionsOrFrom.overloads ?? getOverloadSignatures(this.#decl);
     } else {
       // Creating new node from options
       this.#decl = ts.factory.createMethodDeclaration(
         optionsOrFrom.mods,
         undefined,
-        ts.factory.createIdentifier(optionsOrFrom.name),
+        optionsOrFrom.name.startsWith("#")
+          ? ts.factory.createPrivateIdentifier(optionsOrFrom.name)
+          : ts.factory.createIdentifier(optionsOrFrom.name),
         undefined,
         optionsOrFrom.typeParams,
         optionsOrFrom.args,
@@ -60,7 +67,7 @@ class MethodBuilder implements BuildableAST {
   $private() {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $private()],
+      withModifier(this.#decl.modifiers, $private()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -75,7 +82,7 @@ class MethodBuilder implements BuildableAST {
   $protected() {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $protected()],
+      withModifier(this.#decl.modifiers, $protected()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -90,7 +97,7 @@ class MethodBuilder implements BuildableAST {
   $public() {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $public()],
+      withModifier(this.#decl.modifiers, $public()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -105,7 +112,7 @@ class MethodBuilder implements BuildableAST {
   $static() {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $static()],
+      withModifier(this.#decl.modifiers, $static()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -120,7 +127,22 @@ class MethodBuilder implements BuildableAST {
   $async() {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $async()],
+      withModifier(this.#decl.modifiers, $async()),
+      this.#decl.asteriskToken,
+      this.#decl.name,
+      this.#decl.questionToken,
+      this.#decl.typeParameters,
+      this.#decl.parameters,
+      this.#decl.type,
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  $override() {
+    this.#decl = ts.factory.updateMethodDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $override()),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -135,7 +157,7 @@ class MethodBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.asteriskToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -148,7 +170,7 @@ class MethodBuilder implements BuildableAST {
   }
 
   // Add parameter
-  addParam(name: string, type?: ts.TypeNode) {
+  addParam(name: string, type?: TypeInput) {
     const newParam = param(name, type).get();
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
@@ -165,7 +187,7 @@ class MethodBuilder implements BuildableAST {
   }
 
   // Set return type
-  $returnType(type: ts.TypeNode) {
+  $returnType(type: TypeInput) {
     this.#decl = ts.factory.updateMethodDeclaration(
       this.#decl,
       this.#decl.modifiers,
@@ -174,12 +196,100 @@ class MethodBuilder implements BuildableAST {
       this.#decl.questionToken,
       this.#decl.typeParameters,
       this.#decl.parameters,
-      type,
+      toTypeNode(type),
       this.#decl.body,
     );
     return this;
   }
 
+  /**
+   * Replace the body; code is parsed as its statements
+   * @example
+   * ```ts
+   * method("load", [], "return this.cache.get(id) ?? null;");
+   * method("load", [], block([])).$body("return null;");
+   * ```
+   */
+  $body(body: BlockInput) {
+    this.#decl = ts.factory.updateMethodDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.asteriskToken,
+      this.#decl.name,
+      this.#decl.questionToken,
+      this.#decl.typeParameters,
+      this.#decl.parameters,
+      this.#decl.type,
+      toBlockNode(body),
+    );
+    return this;
+  }
+
+  // ========== Overload Methods ==========
+
+  /**
+   * Add an overload signature. Overloads are emitted in the order they were
+   * added, ahead of the implementation, and share its name and modifiers.
+   * `get()` is only the implementation; pass the builder itself or
+   * `getAll()` to keep the overloads.
+   * @example
+   * ```ts
+   * const parse = method("parse", [param("input", $any()).get()], body)
+   *   .overload([param("input", $string()).get()], $ref("Ast"));
+   * klass("Parser").addMember(parse); // with its overloads
+   * ```
+   */
+  overload(
+    params: ts.ParameterDeclaration[],
+    returnType?: ts.TypeNode,
+    typeParams?: ts.TypeParameterDeclaration[],
+  ) {
+    this.#overloads = [
+      ...this.#overloads,
+      ts.factory.createMethodDeclaration(
+        undefined,
+        undefined,
+        this.#decl.name,
+        undefined,
+        typeParams,
+        params,
+        returnType,
+        undefined, // no body
+      ),
+    ];
+    return this;
+  }
+
+  /**
+   * Get the overload signatures, using the implementation's current name
+   * and modifiers (without decorators and `async`)
+   */
+  getOverloads(): ts.MethodDeclaration[] {
+    const modifiers = this.#decl.modifiers?.filter(
+      (mod) => !ts.isDecorator(mod) && mod.kind !== ts.SyntaxKind.AsyncKeyword,
+    );
+    return this.#overloads.map((overload) =>
+      ts.factory.updateMethodDeclaration(
+        overload,
+        modifiers?.length ? modifiers : undefined,
+        undefined,
+        this.#decl.name,
+        this.#decl.questionToken,
+        overload.typeParameters,
+        overload.parameters,
+        overload.type,
+        undefined,
+      ),
+    );
+  }
+
+  /**
+   * Get the overload signatures followed by the implementation
+   */
+  getAll(): ts.MethodDeclaration[] {
+    return [...this.getOverloads(), this.#decl];
+  }
+
   // ========== Decorator Update Methods ==========
 
   /**
@@ -555,22 +665,38 @@ class MethodBuilder implements BuildableAST {
 export function method(
   name: string,
   args: ts.ParameterDeclaration[],
-  body: ts.Block,
+  body: BlockInput,
   mods?: ts.ModifierLike[]
 ): MethodBuilder & ts.MethodDeclaration;
-export function method(existingMethod: ts.MethodDeclaration): MethodBuilder & ts.MethodDeclaration;
+/**
+ * Adopt an existing method to preserve trivia, with its overload signatures
+ * @param overloads Defaults to the signatures right before the method in
+ * its parsed class
+ */
+export function method(
+  existingMethod: ts.MethodDeclaration,
+  overloads?: ts.MethodDeclaration[],
+): MethodBuilder & ts.MethodDeclaration;
 export function method(
   nameOrMethod: string | ts.MethodDeclaration,
-  args?: ts.ParameterDeclaration[],
-  body?: ts.Block,
+  argsOrOverloads?: ts.ParameterDeclaration[] | ts.MethodDeclaration[],
+  body?: BlockInput,
   mods?: ts.ModifierLike[],
 ) {
   if (typeof nameOrMethod === "string") {
-    if (!args || !body) {
+    if (!argsOrOverloads || body === undefined) {
       throw new Error("args and body are required when creating a new method");
     }
-    return buildFluentApi(MethodBuilder, { name: nameOrMethod, args, body, mods });
+    return buildFluentApi(MethodBuilder, {
+      name: nameOrMethod,
+      args: argsOrOverloads as ts.ParameterDeclaration[],
+      body: toBlockNode(body),
+      mods,
+    });
   } else {
-    return buildFluentApi(MethodBuilder, nameOrMethod);
+    return buildFluentApi(MethodBuilder, {
+      method: nameOrMethod,
+      overloads: argsOrOverloads as ts.MethodDeclaration[] | undefined,
+    });
   }
 }
@@ -23,3 +23,66 @@ export const $public = () =>
 
 export const $static = () =>
   ts.factory.createModifier(ts.SyntaxKind.StaticKeyword);
+
+export const $const = () =>
+  ts.factory.createModifier(ts.SyntaxKind.ConstKeyword);
+
+export const $declare = () =>
+  ts.factory.createModifier(ts.SyntaxKind.DeclareKeyword);
+
+export const $override = () =>
+  ts.factory.createModifier(ts.SyntaxKind.OverrideKeyword);
+
+export const $accessor = () =>
+  ts.factory.createModifier(ts.SyntaxKind.AccessorKeyword);
+
+// Position of a modifier in the order TypeScript requires,
+// e.g. `@dec export declare private static override readonly`
+const modifierRank = (modifier: ts.ModifierLike): number => {
+  switch (modifier.kind) {
+    case ts.SyntaxKind.Decorator:
+      return 0;
+    case ts.SyntaxKind.ExportKeyword:
+      return 1;
+    case ts.SyntaxKind.DefaultKeyword:
+      return 2;
+    case ts.SyntaxKind.DeclareKeyword:
+      return 3;
+    case ts.SyntaxKind.PublicKeyword:
+    case ts.SyntaxKind.PrivateKeyword:
+    case ts.SyntaxKind.ProtectedKeyword:
+      return 4;
+    case ts.SyntaxKind.StaticKeyword:
+    case ts.SyntaxKind.AbstractKeyword:
+      return 5;
+    case ts.SyntaxKind.OverrideKeyword:
+      return 6;
+    default:
+      return 7;
+  }
+};
+
+/**
+ * Insert a modifier at the position TypeScript requires, so that e.g.
+ * adding `override` after `readonly` still prints `override readonly`.
+ * Modifiers already present are not duplicated.
+ */
+export const withModifier = (
+  modifiers: readonly ts.ModifierLike[] | undefined,
+  modifier: ts.ModifierLike,
+): ts.ModifierLike[] => {
+  const existing = [...(modifiers || [])];
+  if (
+    !ts.isDecorator(modifier) &&
+    existing.some((mod) => mod.kind === modifier.kind)
+  ) {
+    return existing;
+  }
+
+  const rank = modifierRank(modifier);
+  const index = existing.findIndex((mod) => modifierRank(mod) > rank);
+  if (index === -1) {
+    return [...existing, modifier];
+  }
+  return [...existing.slice(0, index), modifier, ...existing.slice(index)];
+};
@@ -2,7 +2,7 @@ import ts from "typescript";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
-import { $export } from "./modifier";
+import { $declare, $export, withModifier } from "./modifier";
 
 class NamespaceBuilder implements BuildableAST {
   #decl: ts.ModuleDeclaration;
@@ -13,7 +13,7 @@ class NamespaceBuilder implements BuildableAST {
     mods,
     isNamespace,
   }: {
-    name: string;
+    name: string | ts.ModuleName;
     statements?: ts.Statement[];
     mods?: ts.ModifierLike[];
     isNamespace?: boolean;
@@ -21,7 +21,7 @@ class NamespaceBuilder implements BuildableAST {
     // Create namespace using ModuleDeclaration with namespace flag
     this.#decl = ts.factory.createModuleDeclaration(
       mods,
-      ts.factory.createIdentifier(name),
+      typeof name === "string" ? ts.factory.createIdentifier(name) : name,
       ts.factory.createModuleBlock(statements ?? []),
       isNamespace !== false ? ts.NodeFlags.Namespace : ts.NodeFlags.None,
     );
@@ -31,7 +31,17 @@ class NamespaceBuilder implements BuildableAST {
   $export() {
     this.#decl = ts.factory.updateModuleDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $export()],
+      withModifier(this.#decl.modifiers, $export()),
+      this.#decl.name,
+      this.#decl.body,
+    );
+    return this;
+  }
+
+  $declare() {
+    this.#decl = ts.factory.updateModuleDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
       this.#decl.name,
       this.#decl.body,
     );
@@ -41,7 +51,7 @@ class NamespaceBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updateModuleDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.name,
       this.#decl.body,
     );
@@ -148,3 +158,19 @@ export const module = (
     mods,
     isNamespace: false,
   });
+
+/**
+ * Create an ambient module declaration: declare module "name" { ... }
+ * @param name The module specifier, e.g. "*.svg" or "my-lib"
+ * @param statements Optional statements to include in the module
+ */
+export const declareModule = (
+  name: string,
+  statements: ts.Statement[] = [],
+) =>
+  buildFluentApi(NamespaceBuilder, {
+    name: ts.factory.createStringLiteral(name),
+    statements,
+    mods: [$declare()],
+    isNamespace: false,
+  });
@@ -1,8 +1,16 @@
 import ts from "typescript";
 import { type DecoratorFilterOptions, findDecorators } from "../helpers/finder";
+import { type TypeInput, toTypeNode } from "../helpers/parse";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import type { BindingTarget } from "./binding";
 import { fromDecorator } from "./decorator";
-import { $private, $protected, $public, $readonly } from "./modifier";
+import {
+  $private,
+  $protected,
+  $public,
+  $readonly,
+  withModifier,
+} from "./modifier";
 
 class ParamsBuilder implements BuildableAST {
   #decl: ts.ParameterDeclaration;
@@ -13,7 +21,7 @@ class ParamsBuilder implements BuildableAST {
     optional,
     initializer,
   }: {
-    name: string;
+    name: BindingTarget;
     type?: ts.TypeNode;
     optional?: boolean;
     initializer?: ts.Expression;
@@ -34,7 +42,7 @@ class ParamsBuilder implements BuildableAST {
   $readonly() {
     this.#decl = ts.factory.updateParameterDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $readonly()],
+      withModifier(this.#decl.modifiers, $readonly()),
       this.#decl.dotDotDotToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -47,7 +55,7 @@ class ParamsBuilder implements BuildableAST {
   $private() {
     this.#decl = ts.factory.updateParameterDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $private()],
+      withModifier(this.#decl.modifiers, $private()),
       this.#decl.dotDotDotToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -60,7 +68,7 @@ class ParamsBuilder implements BuildableAST {
   $protected() {
     this.#decl = ts.factory.updateParameterDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $protected()],
+      withModifier(this.#decl.modifiers, $protected()),
       this.#decl.dotDotDotToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -73,7 +81,7 @@ class ParamsBuilder implements BuildableAST {
   $public() {
     this.#decl = ts.factory.updateParameterDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $public()],
+      withModifier(this.#decl.modifiers, $public()),
       this.#decl.dotDotDotToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -86,7 +94,7 @@ class ParamsBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updateParameterDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.dotDotDotToken,
       this.#decl.name,
       this.#decl.questionToken,
@@ -474,7 +482,7 @@ class ParamsBuilder implements BuildableAST {
 }
 
 interface ParamOptions {
-  type?: ts.TypeNode;
+  type?: TypeInput;
   optional?: boolean;
   initializer?: ts.Expression;
 }
@@ -495,13 +503,16 @@ interface ParamOptions {
  *
  * // Only setting initializer
  * param('myParam', { initializer: defaultValue });
+ *
+ * // Destructured parameter
+ * param(objectBinding(['id', 'name']), { type: $ref('User') });
  * ```
  */
-export function param(name: string, type?: ts.TypeNode, optional?: boolean, initializer?: ts.Expression): ParamsBuilder & ts.ParameterDeclaration;
-export function param(name: string, options?: ParamOptions): ParamsBuilder & ts.ParameterDeclaration;
+export function param(name: BindingTarget, type?: TypeInput, optional?: boolean, initializer?: ts.Expression): ParamsBuilder & ts.ParameterDeclaration;
+export function param(name: BindingTarget, options?: ParamOptions): ParamsBuilder & ts.ParameterDeclaration;
 export function param(
-  name: string,
-  typeOrOptions?: ts.TypeNode | ParamOptions,
+  name: BindingTarget,
+  typeOrOptions?: TypeInput | ParamOptions,
   optional?: boolean,
   initializer?: ts.Expression,
 ): ParamsBuilder & ts.ParameterDeclaration {
@@ -510,7 +521,7 @@ export function param(
     const options = typeOrOptions as ParamOptions;
     return buildFluentApi(ParamsBuilder, {
       name,
-      type: options.type,
+      type: options.type === undefined ? undefined : toTypeNode(options.type),
       optional: options.optional,
       initializer: options.initializer
     });
@@ -519,7 +530,10 @@ export function param(
   // Handle positional arguments style
   return buildFluentApi(ParamsBuilder, {
     name,
-    type: typeOrOptions as ts.TypeNode | undefined,
+    type:
+      typeOrOptions === undefined
+        ? undefined
+        : toTypeNode(typeOrOptions as TypeInput),
     optional,
     initializer
   });
@@ -1,16 +1,21 @@
 import ts from "typescript";
 import { type DecoratorFilterOptions, findDecorators } from "../helpers/finder";
+import { type TypeInput, toTypeNode } from "../helpers/parse";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
 import { fromDecorator } from "./decorator";
 import {
+  $accessor,
+  $declare,
   $export,
+  $override,
   $private,
   $protected,
   $public,
   $readonly,
   $static,
+  withModifier,
 } from "./modifier";
 
 class PropBuilder implements BuildableAST {
@@ -40,7 +45,9 @@ class PropBuilder implements BuildableAST {
       const options = optionsOrFrom as { name: string; type?: ts.TypeNode; optional?: boolean };
       this.#decl = ts.factory.createPropertyDeclaration(
         undefined,
-        options.name,
+        options.name.startsWith("#")
+          ? ts.factory.createPrivateIdentifier(options.name)
+          : options.name,
         options.optional
           ? ts.factory.createToken(ts.SyntaxKind.QuestionToken)
           : undefined,
@@ -54,9 +61,9 @@ class PropBuilder implements BuildableAST {
   $export() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $export()],
+      withModifier(this.#decl.modifiers, $export()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -66,9 +73,9 @@ class PropBuilder implements BuildableAST {
   $readonly() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $readonly()],
+      withModifier(this.#decl.modifiers, $readonly()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -78,9 +85,9 @@ class PropBuilder implements BuildableAST {
   $static() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $static()],
+      withModifier(this.#decl.modifiers, $static()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -90,9 +97,9 @@ class PropBuilder implements BuildableAST {
   $private() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $private()],
+      withModifier(this.#decl.modifiers, $private()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -102,9 +109,9 @@ class PropBuilder implements BuildableAST {
   $protected() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $protected()],
+      withModifier(this.#decl.modifiers, $protected()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -114,9 +121,9 @@ class PropBuilder implements BuildableAST {
   $public() {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), $public()],
+      withModifier(this.#decl.modifiers, $public()),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -126,9 +133,60 @@ class PropBuilder implements BuildableAST {
   $mod(mod: ts.Modifier) {
     this.#decl = ts.factory.updatePropertyDeclaration(
       this.#decl,
-      [...(this.#decl.modifiers || []), mod],
+      withModifier(this.#decl.modifiers, mod),
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
+      this.#decl.type,
+      this.#decl.initializer,
+    );
+    return this;
+  }
+
+  $override() {
+    this.#decl = ts.factory.updatePropertyDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $override()),
+      this.#decl.name,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
+      this.#decl.type,
+      this.#decl.initializer,
+    );
+    return this;
+  }
+
+  // declare field: no runtime initialization
+  $declare() {
+    this.#decl = ts.factory.updatePropertyDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
+      this.#decl.name,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
+      this.#decl.type,
+      this.#decl.initializer,
+    );
+    return this;
+  }
+
+  // Auto-accessor field: accessor name = value
+  $accessor() {
+    this.#decl = ts.factory.updatePropertyDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $accessor()),
+      this.#decl.name,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
+      this.#decl.type,
+      this.#decl.initializer,
+    );
+    return this;
+  }
+
+  // Set definite assignment assertion: name!: Type
+  $definite() {
+    this.#decl = ts.factory.updatePropertyDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      ts.factory.createToken(ts.SyntaxKind.ExclamationToken),
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -154,7 +212,7 @@ class PropBuilder implements BuildableAST {
       this.#decl,
       this.#decl.modifiers,
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       initializer,
     );
@@ -206,7 +264,7 @@ class PropBuilder implements BuildableAST {
       this.#decl,
       updatedModifiers,
       this.#decl.name,
-      this.#decl.questionToken,
+      this.#decl.questionToken ?? this.#decl.exclamationToken,
       this.#decl.type,
       this.#decl.initializer,
     );
@@ -252,7 +310,7 @@ class PropBuilder implements BuildableAST {
         this.#decl,
         updatedModifiers,
         this.#decl.name,
-        this.#decl.questionToken,
+        this.#decl.questionToken ?? this.#decl.exclamationToken,
         this.#decl.type,
         this.#decl.initializer,
       );
@@ -400,7 +458,7 @@ class PropBuilder implements BuildableAST {
         this.#decl,
         updatedModifiers,
         this.#decl.name,
-        this.#decl.questionToken,
+        this.#decl.questionToken ?? this.#decl.exclamationToken,
         this.#decl.type,
         this.#decl.initializer,
       );
@@ -427,15 +485,19 @@ class PropBuilder implements BuildableAST {
   }
 }
 
-export function prop(name: string, type?: ts.TypeNode, optional?: boolean): PropBuilder & ts.PropertyDeclaration;
+export function prop(name: string, type?: TypeInput, optional?: boolean): PropBuilder & ts.PropertyDeclaration;
 export function prop(existingProperty: ts.PropertyDeclaration): PropBuilder & ts.PropertyDeclaration;
 export function prop(
   nameOrProperty: string | ts.PropertyDeclaration,
-  type?: ts.TypeNode,
+  type?: TypeInput,
   optional?: boolean
 ) {
   if (typeof nameOrProperty === "string") {
-    return buildFluentApi(PropBuilder, { name: nameOrProperty, type, optional });
+    return buildFluentApi(PropBuilder, {
+      name: nameOrProperty,
+      type: type === undefined ? undefined : toTypeNode(type),
+      optional,
+    });
   } else {
     return buildFluentApi(PropBuilder, nameOrProperty);
   }
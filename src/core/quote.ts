@@ -0,0 +1,377 @@
+import ts from "typescript";
+import {
+  type ParseOptions,
+  type SnippetKind,
+  parseSnippet,
+} from "../helpers/parse";
+import type { BuildableAST } from "../utils/buildFluentApi";
+
+/**
+ * A value interpolated into a code template
+ *
+ * Strings, numbers and booleans are spliced in as source text. Nodes and
+ * builders are spliced in as AST, so they keep their structure (and get
+ * parentheses where needed); lists splice several nodes into a list
+ * position such as statements, arguments, parameters or members.
+ */
+export type TemplateHole =
+  | string
+  | number
+  | boolean
+  | bigint
+  | ts.Node
+  | BuildableAST
+  | readonly (ts.Node | BuildableAST)[];
+
+const PLACEHOLDER = /^__hole(\d+)__$/;
+const placeholder = (index: number) => `__hole${index}__`;
+
+// Unwrap a builder to its node
+const toNode = (value: ts.Node | BuildableAST): ts.Node => {
+  if (typeof (value as BuildableAST).get !== "function") {
+    return value as ts.Node;
+  }
+  const node = (value as BuildableAST).get();
+  if (!("kind" in node) || ts.isSourceFile(node)) {
+    throw new TypeError("Only nodes can be interpolated into code templates");
+  }
+  return node;
+};
+
+// Index of the hole an identifier stands for
+const getHoleIndex = (node: ts.Node | undefined): number | undefined => {
+  const match =
+    node && ts.isIdentifier(node) ? PLACEHOLDER.exec(node.text) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+// Whether a node is an element of one of its parent's lists
+const isListElement = (node: ts.Node): boolean =>
+  !!node.parent &&
+  !!ts.forEachChild(
+    node.parent,
+    () => undefined,
+    (nodes) => nodes.includes(node) || undefined,
+  );
+
+// Expressions that never need parentheses around them
+const isPrimary = (node: ts.Expression): boolean =>
+  ts.isIdentifier(node) ||
+  ts.isPrivateIdentifier(node) ||
+  ts.isLiteralExpression(node) ||
+  ts.isTemplateExpression(node) ||
+  ts.isCallExpression(node) ||
+  ts.isNewExpression(node) ||
+  ts.isPropertyAccessExpression(node) ||
+  ts.isElementAccessExpression(node) ||
+  ts.isNonNullExpression(node) ||
+  ts.isParenthesizedExpression(node) ||
+  ts.isObjectLiteralExpression(node) ||
+  ts.isArrayLiteralExpression(node) ||
+  node.kind === ts.SyntaxKind.ThisKeyword ||
+  node.kind === ts.SyntaxKind.SuperKeyword ||
+  node.kind === ts.SyntaxKind.TrueKeyword ||
+  node.kind === ts.SyntaxKind.FalseKeyword ||
+  node.kind === ts.SyntaxKind.NullKeyword;
+
+// Whether any expression fits where a placeholder is, without parentheses
+const acceptsAnyExpression = (hole: ts.Node): boolean => {
+  const { parent } = hole;
+  return (
+    ts.isVariableDeclaration(parent) ||
+    ts.isPropertyAssignment(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isParameter(parent) ||
+    ts.isParenthesizedExpression(parent) ||
+    ts.isArrayLiteralExpression(parent) ||
+    ts.isTemplateSpan(parent) ||
+    ts.isReturnStatement(parent) ||
+    ts.isThrowStatement(parent) ||
+    ts.isIfStatement(parent) ||
+    ts.isWhileStatement(parent) ||
+    ts.isDoStatement(parent) ||
+    ts.isSwitchStatement(parent) ||
+    ts.isCaseClause(parent) ||
+    ts.isComputedPropertyName(parent) ||
+    ts.isExportAssignment(parent) ||
+    (ts.isElementAccessExpression(parent) &&
+      parent.argumentExpression === hole) ||
+    ts.isSpreadElement(parent) ||
+    ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) &&
+      parent.expression !== hole)
+  );
+};
+
+// Whether a placeholder stands for a name rather than an expression
+const isNamePosition = (hole: ts.Node): boolean => {
+  const { parent } = hole;
+  return (
+    (parent as { name?: ts.Node }).name === hole ||
+    ts.isQualifiedName(parent) ||
+    ts.isTypeReferenceNode(parent) ||
+    ts.isLabeledStatement(parent) ||
+    ts.isBreakOrContinueStatement(parent)
+  );
+};
+
+// Declarations whose name alone is a placeholder, e.g. `__hole0__;` in a
+// class body, which the hole's member or parameter replaces
+const isBareDeclaration = (node: ts.Node): boolean => {
+  if (
+    ts.isPropertyDeclaration(node) ||
+    ts.isPropertySignature(node) ||
+    ts.isParameter(node)
+  ) {
+    return (
+      !node.modifiers?.length &&
+      !node.questionToken &&
+      !node.type &&
+      !(node as { initializer?: ts.Node }).initializer &&
+      !(node as { dotDotDotToken?: ts.Node }).dotDotDotToken
+    );
+  }
+  return ts.isShorthandPropertyAssignment(node);
+};
+
+const describe = (node: ts.Node) => ts.SyntaxKind[node.kind];
+
+/**
+ * Parse a template and splice its holes in as AST
+ * @param kind What the template's code is parsed as
+ * @param strings The literal parts of the template
+ * @param holes The interpolated values
+ * @param options Parse options
+ */
+export function quote(
+  kind: SnippetKind,
+  strings: TemplateStringsArray,
+  holes: TemplateHole[],
+  options?: ParseOptions,
+): ts.Node[] {
+  // Nodes of each hole; strings are part of the text instead
+  const values = new Map<number, ts.Node[]>();
+  let text = strings[0]!;
+  holes.forEach((hole, index) => {
+    if (
+      typeof hole === "string" ||
+      typeof hole === "number" ||
+      typeof hole === "boolean" ||
+      typeof hole === "bigint"
+    ) {
+      text += typeof hole === "bigint" ? `${hole}n` : String(hole);
+    } else if (hole === null || hole === undefined) {
+      throw new TypeError(`Template hole ${index} is ${hole}`);
+    } else {
+      values.set(
+        index,
+        Array.isArray(hole)
+          ? hole.map(toNode)
+          : [toNode(hole as ts.Node | BuildableAST)],
+      );
+      text += placeholder(index);
+    }
+    text += strings[index + 1]!;
+  });
+
+  const nodes = parseSnippet(kind, text, options);
+  if (values.size === 0) {
+    return nodes;
+  }
+
+  const used = new Set<number>();
+  const splice = (node: ts.Node): ts.Node | ts.Node[] | undefined => {
+    // Statements, members and parameters that are a hole on their own
+    const wrapped = ts.isExpressionStatement(node)
+      ? node.expression
+      : isBareDeclaration(node)
+        ? (node as ts.NamedDeclaration).name
+        : ts.isTypeReferenceNode(node) && !node.typeArguments
+          ? node.typeName
+          : ts.isIdentifier(node)
+            ? node
+            : undefined;
+    const index = getHoleIndex(wrapped);
+    const replacements = index === undefined ? undefined : values.get(index);
+    if (index === undefined || !replacements) {
+      return undefined;
+    }
+
+    const converted = replacements.map((value) => {
+      if (ts.isExpressionStatement(node)) {
+        return ts.isExpression(value)
+          ? ts.factory.createExpressionStatement(value)
+          : value;
+      }
+      if (ts.isTypeReferenceNode(node) && ts.isEntityName(value)) {
+        return ts.factory.createTypeReferenceNode(value);
+      }
+      if (
+        ts.isIdentifier(node) &&
+        ts.isExpression(value) &&
+        !ts.isIdentifier(value) &&
+        !isPrimary(value) &&
+        !acceptsAnyExpression(node)
+      ) {
+        return ts.factory.createParenthesizedExpression(value);
+      }
+      return value;
+    });
+
+    const fits = (value: ts.Node) => {
+      if (ts.isExpressionStatement(node)) return ts.isStatement(value);
+      if (ts.isTypeReferenceNode(node)) return ts.isTypeNode(value);
+      if (ts.isIdentifier(node)) {
+        return isNamePosition(node)
+          ? ts.isIdentifier(value)
+          : ts.isExpression(value);
+      }
+      if (ts.isParameter(node)) return ts.isParameter(value);
+      if (ts.isPropertySignature(node)) return ts.isTypeElement(value);
+      if (ts.isShorthandPropertyAssignment(node)) {
+        return ts.isObjectLiteralElementLike(value);
+      }
+      return ts.isClassElement(value);
+    };
+    const misfit = converted.find((value) => !fits(value));
+    if (misfit) {
+      // A name hole may still be filled by the identifier inside
+      if (!ts.isIdentifier(node) && replacements.length === 1) {
+        return undefined;
+      }
+      throw new TypeError(
+        `Template hole ${index} can't be a ${describe(misfit)} ` +
+          `in a ${describe(node.parent ?? node)}`,
+      );
+    }
+    if (converted.length !== 1 && !isListElement(node)) {
+      throw new TypeError(
+        `Template hole ${index} is a list, but is not in a list position`,
+      );
+    }
+
+    used.add(index);
+    return converted.length === 1 ? converted[0] : converted;
+  };
+
+  const transformer: ts.TransformerFactory<ts.Node> = (context) => {
+    const visit = (node: ts.Node): ts.VisitResult<ts.Node> =>
+      splice(node) ?? ts.visitEachChild(node, visit, context);
+    return (root) => ts.visitNode(root, visit)!;
+  };
+
+  const result = nodes.flatMap((node) => {
+    const spliced = splice(node);
+    if (spliced) {
+      return Array.isArray(spliced) ? spliced : [spliced];
+    }
+    // Transforming clears the emit nodes of the snippet, and with them
+    // the comments kept from it
+    const comments = ts.getSyntheticLeadingComments(node);
+    const transformed = ts.transform(node, [transformer]).transformed[0]!;
+    return [ts.setSyntheticLeadingComments(transformed, comments)];
+  });
+
+  for (const index of values.keys()) {
+    if (!used.has(index)) {
+      throw new TypeError(
+        `Template hole ${index} is not in a position that takes a node; ` +
+          "interpolate a string instead",
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * A template tag; called with parse options instead, it returns a tag that
+ * parses with them
+ */
+export interface TemplateTag<T> {
+  (strings: TemplateStringsArray, ...holes: TemplateHole[]): T;
+  (options: ParseOptions): TemplateTag<T>;
+}
+
+// A template tag that also takes parse options
+const createTemplateTag = <T>(
+  build: (
+    strings: TemplateStringsArray,
+    holes: TemplateHole[],
+    options: ParseOptions | undefined,
+  ) => T,
+  options?: ParseOptions,
+): TemplateTag<T> =>
+  ((
+    stringsOrOptions: TemplateStringsArray | ParseOptions,
+    ...holes: TemplateHole[]
+  ) =>
+    Array.isArray(stringsOrOptions)
+      ? build(stringsOrOptions as TemplateStringsArray, holes, options)
+      : createTemplateTag(build, {
+          ...options,
+          ...(stringsOrOptions as ParseOptions),
+        })) as TemplateTag<T>;
+
+/**
+ * Statements from a code template
+ * @example
+ * ```ts
+ * const body = stmts`
+ *   const user = await ${call("load", [id("id")])};
+ *   ${logStatement}
+ *   return ${userExpr};
+ * `;
+ * const tsx = stmts({ scriptKind: ts.ScriptKind.TSX });
+ * tsx`render(<App user={${userExpr}} />);`;
+ * ```
+ * @throws ParseError with a code frame when the code has syntax errors
+ */
+export const stmts: TemplateTag<ts.Statement[]> = createTemplateTag(
+  (strings, holes, options) =>
+    quote("statements", strings, holes, options) as ts.Statement[],
+);
+
+/**
+ * A type from a code template
+ * @example
+ * ```ts
+ * type`Record<string, ${$ref("User")}[]>`
+ * ```
+ * @throws ParseError with a code frame when the code has syntax errors
+ */
+export const type: TemplateTag<ts.TypeNode> = createTemplateTag(
+  (strings, holes, options) =>
+    quote("type", strings, holes, options)[0] as ts.TypeNode,
+);
+
+/**
+ * A class member from a code template
+ * @example
+ * ```ts
+ * klass("User").addMember(member`
+ *   get name(): string {
+ *     return ${binary(first, "+", last)};
+ *   }
+ * `);
+ * ```
+ * @throws ParseError with a code frame when the code has syntax errors;
+ * TypeError when it doesn't hold exactly one member
+ */
+export const member: TemplateTag<ts.ClassElement> = createTemplateTag(
+  (strings, holes, options) => {
+    const members = quote("classMember", strings, holes, options);
+    if (members.length !== 1) {
+      throw new TypeError(
+        `Expected exactly one class member, got ${members.length}`,
+      );
+    }
+    return members[0] as ts.ClassElement;
+  },
+);
+
+/**
+ * An expression from a code template; used by the tagged form of `expr`
+ */
+export const quoteExpression: TemplateTag<ts.Expression> = createTemplateTag(
+  (strings, holes, options) =>
+    quote("expression", strings, holes, options)[0] as ts.Expression,
+);
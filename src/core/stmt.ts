@@ -1,5 +1,69 @@
 import ts from "typescript";
+import {
+  type ExpressionInput,
+  parseStatements,
+  toExpressionNode,
+} from "../helpers/parse";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { block } from "./block";
+
+/**
+ * Anything accepted where a statement body is expected: a statement, an
+ * expression (wrapped in an expression statement), code to parse as
+ * statements, or a list of these
+ */
+export type StatementInput =
+  | ts.Statement
+  | ts.Expression
+  | string
+  | (ts.Statement | ts.Expression | string)[];
+
+// Coerce a statement, expression or code to statements
+const toStatementList = (
+  input: ts.Statement | ts.Expression | string,
+): ts.Statement[] =>
+  typeof input === "string"
+    ? parseStatements(input)
+    : [
+        ts.isStatement(input)
+          ? input
+          : ts.factory.createExpressionStatement(input),
+      ];
+
+// Coerce a body to one statement, wrapping lists in a block
+const toBody = (input: StatementInput): ts.Statement => {
+  const statements = toStatements(input);
+  return !Array.isArray(input) && statements.length === 1
+    ? statements[0]!
+    : block(statements);
+};
+
+// Coerce a body to a block
+const toBlock = (input: StatementInput): ts.Block => {
+  if (Array.isArray(input) || typeof input === "string") {
+    return block(toStatements(input));
+  }
+  return ts.isBlock(input) ? input : block([input]);
+};
+
+// Coerce a body to a flat statement list (used for case clauses)
+const toStatements = (input: StatementInput): ts.Statement[] =>
+  Array.isArray(input)
+    ? input.flatMap(toStatementList)
+    : toStatementList(input);
+
+// Coerce a loop variable name or binding pattern to a `const` declaration list
+const toForInitializer = (
+  initializer: string | ts.BindingPattern | ts.ForInitializer,
+): ts.ForInitializer =>
+  typeof initializer === "string" ||
+  ts.isObjectBindingPattern(initializer) ||
+  ts.isArrayBindingPattern(initializer)
+    ? ts.factory.createVariableDeclarationList(
+        [ts.factory.createVariableDeclaration(initializer)],
+        ts.NodeFlags.Const,
+      )
+    : initializer;
 
 // If Statement Builder
 class IfBuilder implements BuildableAST {
@@ -11,32 +75,32 @@ class IfBuilder implements BuildableAST {
     elseStatement,
   }: {
     condition: ts.Expression;
-    thenStatement?: ts.Statement;
-    elseStatement?: ts.Statement;
+    thenStatement?: StatementInput;
+    elseStatement?: StatementInput;
   }) {
     this.#stmt = ts.factory.createIfStatement(
       condition,
-      thenStatement ?? ts.factory.createBlock([]),
-      elseStatement,
+      thenStatement ? toBody(thenStatement) : ts.factory.createBlock([]),
+      elseStatement ? toBody(elseStatement) : undefined,
     );
   }
 
-  thenClause(statement: ts.Statement) {
+  thenClause(statement: StatementInput) {
     this.#stmt = ts.factory.updateIfStatement(
       this.#stmt,
       this.#stmt.expression,
-      statement,
+      toBody(statement),
       this.#stmt.elseStatement,
     );
     return this;
   }
 
-  elseClause(statement: ts.Statement) {
+  elseClause(statement: StatementInput) {
     this.#stmt = ts.factory.updateIfStatement(
       this.#stmt,
       this.#stmt.expression,
       this.#stmt.thenStatement,
-      statement,
+      toBody(statement),
     );
     return this;
   }
@@ -52,10 +116,15 @@ export const exprStmt = (expression: ts.Expression): ts.ExpressionStatement =>
 
 // Simplified if statement API
 export const if_ = (
-  condition: ts.Expression,
-  thenStatement?: ts.Statement,
-  elseStatement?: ts.Statement,
-) => buildFluentApi(IfBuilder, { condition, thenStatement, elseStatement });
+  condition: ExpressionInput,
+  thenStatement?: StatementInput,
+  elseStatement?: StatementInput,
+) =>
+  buildFluentApi(IfBuilder, {
+    condition: toExpressionNode(condition),
+    thenStatement,
+    elseStatement,
+  });
 
 // While Statement Builder
 class WhileStatementBuilder implements BuildableAST {
@@ -66,19 +135,19 @@ class WhileStatementBuilder implements BuildableAST {
     statement,
   }: {
     condition: ts.Expression;
-    statement?: ts.Statement;
+    statement?: StatementInput;
   }) {
     this.#stmt = ts.factory.createWhileStatement(
       condition,
-      statement ?? ts.factory.createBlock([]),
+      statement ? toBody(statement) : ts.factory.createBlock([]),
     );
   }
 
-  body(statement: ts.Statement) {
+  body(statement: StatementInput) {
     this.#stmt = ts.factory.updateWhileStatement(
       this.#stmt,
       this.#stmt.expression,
-      statement,
+      toBody(statement),
     );
     return this;
   }
@@ -101,23 +170,23 @@ class ForStatementBuilder implements BuildableAST {
     initializer?: ts.ForInitializer;
     condition?: ts.Expression;
     incrementor?: ts.Expression;
-    statement?: ts.Statement;
+    statement?: StatementInput;
   }) {
     this.#stmt = ts.factory.createForStatement(
       initializer,
       condition,
       incrementor,
-      statement ?? ts.factory.createBlock([]),
+      statement ? toBody(statement) : ts.factory.createBlock([]),
     );
   }
 
-  body(statement: ts.Statement) {
+  body(statement: StatementInput) {
     this.#stmt = ts.factory.updateForStatement(
       this.#stmt,
       this.#stmt.initializer,
       this.#stmt.condition,
       this.#stmt.incrementor,
-      statement,
+      toBody(statement),
     );
     return this;
   }
@@ -127,12 +196,323 @@ class ForStatementBuilder implements BuildableAST {
   }
 }
 
-export const while_ = (condition: ts.Expression) =>
-  buildFluentApi(WhileStatementBuilder, { condition });
+export const while_ = (condition: ExpressionInput) =>
+  buildFluentApi(WhileStatementBuilder, {
+    condition: toExpressionNode(condition),
+  });
 
 export const for_ = (
   initializer?: ts.ForInitializer,
-  condition?: ts.Expression,
-  incrementor?: ts.Expression,
+  condition?: ExpressionInput,
+  incrementor?: ExpressionInput,
+) =>
+  buildFluentApi(ForStatementBuilder, {
+    initializer,
+    condition:
+      condition === undefined ? undefined : toExpressionNode(condition),
+    incrementor:
+      incrementor === undefined ? undefined : toExpressionNode(incrementor),
+  });
+
+// Do-While Statement Builder
+class DoWhileStatementBuilder implements BuildableAST {
+  #stmt: ts.DoStatement;
+
+  constructor({
+    condition,
+    statement,
+  }: {
+    condition: ts.Expression;
+    statement?: StatementInput;
+  }) {
+    this.#stmt = ts.factory.createDoStatement(
+      statement ? toBody(statement) : ts.factory.createBlock([]),
+      condition,
+    );
+  }
+
+  body(statement: StatementInput) {
+    this.#stmt = ts.factory.updateDoStatement(
+      this.#stmt,
+      toBody(statement),
+      this.#stmt.expression,
+    );
+    return this;
+  }
+
+  get(): ts.DoStatement {
+    return this.#stmt;
+  }
+}
+
+// For-Of Statement Builder
+class ForOfStatementBuilder implements BuildableAST {
+  #stmt: ts.ForOfStatement;
+
+  constructor({
+    initializer,
+    expression,
+    statement,
+  }: {
+    initializer: ts.ForInitializer;
+    expression: ts.Expression;
+    statement?: StatementInput;
+  }) {
+    this.#stmt = ts.factory.createForOfStatement(
+      undefined, // awaitModifier
+      initializer,
+      expression,
+      statement ? toBody(statement) : ts.factory.createBlock([]),
+    );
+  }
+
+  // for await (... of ...)
+  $await() {
+    this.#stmt = ts.factory.updateForOfStatement(
+      this.#stmt,
+      ts.factory.createToken(ts.SyntaxKind.AwaitKeyword),
+      this.#stmt.initializer,
+      this.#stmt.expression,
+      this.#stmt.statement,
+    );
+    return this;
+  }
+
+  body(statement: StatementInput) {
+    this.#stmt = ts.factory.updateForOfStatement(
+      this.#stmt,
+      this.#stmt.awaitModifier,
+      this.#stmt.initializer,
+      this.#stmt.expression,
+      toBody(statement),
+    );
+    return this;
+  }
+
+  get(): ts.ForOfStatement {
+    return this.#stmt;
+  }
+}
+
+// For-In Statement Builder
+class ForInStatementBuilder implements BuildableAST {
+  #stmt: ts.ForInStatement;
+
+  constructor({
+    initializer,
+    expression,
+    statement,
+  }: {
+    initializer: ts.ForInitializer;
+    expression: ts.Expression;
+    statement?: StatementInput;
+  }) {
+    this.#stmt = ts.factory.createForInStatement(
+      initializer,
+      expression,
+      statement ? toBody(statement) : ts.factory.createBlock([]),
+    );
+  }
+
+  body(statement: StatementInput) {
+    this.#stmt = ts.factory.updateForInStatement(
+      this.#stmt,
+      this.#stmt.initializer,
+      this.#stmt.expression,
+      toBody(statement),
+    );
+    return this;
+  }
+
+  get(): ts.ForInStatement {
+    return this.#stmt;
+  }
+}
+
+export const doWhile_ = (
+  condition: ExpressionInput,
+  statement?: StatementInput,
+) =>
+  buildFluentApi(DoWhileStatementBuilder, {
+    condition: toExpressionNode(condition),
+    statement,
+  });
+
+/**
+ * Create a for-of loop; a string or binding pattern initializer becomes a
+ * `const` binding
+ * @example
+ * ```ts
+ * forOf_("item", id("items")).body([call("use", [id("item")])]);
+ * forOf_("chunk", id("stream")).$await(); // for await (const chunk of stream)
+ * forOf_(arrayBinding(["key", "value"]), call("Object.entries", [id("o")]));
+ * ```
+ */
+export const forOf_ = (
+  initializer: string | ts.BindingPattern | ts.ForInitializer,
+  expression: ExpressionInput,
+  statement?: StatementInput,
+) =>
+  buildFluentApi(ForOfStatementBuilder, {
+    initializer: toForInitializer(initializer),
+    expression: toExpressionNode(expression),
+    statement,
+  });
+
+/**
+ * Create a for-in loop; a string or binding pattern initializer becomes a
+ * `const` binding
+ */
+export const forIn_ = (
+  initializer: string | ts.BindingPattern | ts.ForInitializer,
+  expression: ExpressionInput,
+  statement?: StatementInput,
 ) =>
-  buildFluentApi(ForStatementBuilder, { initializer, condition, incrementor });
+  buildFluentApi(ForInStatementBuilder, {
+    initializer: toForInitializer(initializer),
+    expression: toExpressionNode(expression),
+    statement,
+  });
+
+// Switch Statement Builder
+class SwitchStatementBuilder implements BuildableAST {
+  #stmt: ts.SwitchStatement;
+
+  constructor({ expression }: { expression: ts.Expression }) {
+    this.#stmt = ts.factory.createSwitchStatement(
+      expression,
+      ts.factory.createCaseBlock([]),
+    );
+  }
+
+  /**
+   * Add a case clause; omit the body to fall through to the next clause
+   */
+  case(expression: ExpressionInput, statements: StatementInput = []) {
+    return this.addClause(
+      ts.factory.createCaseClause(
+        toExpressionNode(expression),
+        toStatements(statements),
+      ),
+    );
+  }
+
+  /**
+   * Add the default clause
+   */
+  default(statements: StatementInput = []) {
+    return this.addClause(
+      ts.factory.createDefaultClause(toStatements(statements)),
+    );
+  }
+
+  addClause(clause: ts.CaseOrDefaultClause) {
+    this.#stmt = ts.factory.updateSwitchStatement(
+      this.#stmt,
+      this.#stmt.expression,
+      ts.factory.updateCaseBlock(this.#stmt.caseBlock, [
+        ...this.#stmt.caseBlock.clauses,
+        clause,
+      ]),
+    );
+    return this;
+  }
+
+  get(): ts.SwitchStatement {
+    return this.#stmt;
+  }
+}
+
+/**
+ * Create a switch statement
+ * @example
+ * ```ts
+ * switch_(id("status"))
+ *   .case($("pending"), [ret($("waiting"))])
+ *   .case($("active"))                 // falls through
+ *   .case($("running"), [ret($("running"))])
+ *   .case("Status.Done", "return 'done';")
+ *   .default([throw_(newExpr("Error"))]);
+ * ```
+ */
+export const switch_ = (expression: ExpressionInput) =>
+  buildFluentApi(SwitchStatementBuilder, {
+    expression: toExpressionNode(expression),
+  });
+
+// Try Statement Builder
+class TryStatementBuilder implements BuildableAST {
+  #stmt: ts.TryStatement;
+
+  constructor({ tryBlock }: { tryBlock: StatementInput }) {
+    this.#stmt = ts.factory.createTryStatement(
+      toBlock(tryBlock),
+      undefined,
+      undefined,
+    );
+  }
+
+  /**
+   * Add the catch clause; pass `undefined` as variable for `catch { }`
+   */
+  catch_(variable: string | undefined, statements: StatementInput = []) {
+    this.#stmt = ts.factory.updateTryStatement(
+      this.#stmt,
+      this.#stmt.tryBlock,
+      ts.factory.createCatchClause(variable, toBlock(statements)),
+      this.#stmt.finallyBlock,
+    );
+    return this;
+  }
+
+  finally_(statements: StatementInput) {
+    this.#stmt = ts.factory.updateTryStatement(
+      this.#stmt,
+      this.#stmt.tryBlock,
+      this.#stmt.catchClause,
+      toBlock(statements),
+    );
+    return this;
+  }
+
+  /**
+   * @throws Error when neither `catch_` nor `finally_` was called
+   */
+  get(): ts.TryStatement {
+    if (!this.#stmt.catchClause && !this.#stmt.finallyBlock) {
+      throw new Error("try statement needs a catch or finally clause");
+    }
+    return this.#stmt;
+  }
+}
+
+/**
+ * Create a try statement
+ * @example
+ * ```ts
+ * try_([call("riskyOperation", [])])
+ *   .catch_("error", [call("report", [id("error")])])
+ *   .finally_([call("cleanup", [])]);
+ * ```
+ */
+export const try_ = (tryBlock: StatementInput) =>
+  buildFluentApi(TryStatementBuilder, { tryBlock });
+
+// Throw statement
+export const throw_ = (expression: ExpressionInput): ts.ThrowStatement =>
+  ts.factory.createThrowStatement(toExpressionNode(expression));
+
+// Break statement, optionally targeting a label
+export const break_ = (label?: string): ts.BreakStatement =>
+  ts.factory.createBreakStatement(label);
+
+// Continue statement, optionally targeting a label
+export const continue_ = (label?: string): ts.ContinueStatement =>
+  ts.factory.createContinueStatement(label);
+
+// Labeled statement: label: statement
+export const label_ = (
+  label: string,
+  statement: StatementInput,
+): ts.LabeledStatement =>
+  ts.factory.createLabeledStatement(label, toBody(statement));
@@ -5,18 +5,54 @@ export const this_ = (): ts.ThisExpression => ts.factory.createThis();
 
 export const super_ = (): ts.SuperExpression => ts.factory.createSuper();
 
+export const null_ = (): ts.NullLiteral => ts.factory.createNull();
+
+// import.meta
+export const importMeta = (): ts.MetaProperty =>
+  ts.factory.createMetaProperty(
+    ts.SyntaxKind.ImportKeyword,
+    ts.factory.createIdentifier("meta"),
+  );
+
 // Literals
-export const $ = (value: string | number | boolean): ts.Expression => {
+export const $ = (
+  value: string | number | bigint | boolean,
+): ts.Expression => {
   if (typeof value === "string") {
     return ts.factory.createStringLiteral(value);
   } else if (typeof value === "number") {
-    return ts.factory.createNumericLiteral(value);
+    return value < 0
+      ? ts.factory.createPrefixUnaryExpression(
+          ts.SyntaxKind.MinusToken,
+          ts.factory.createNumericLiteral(-value),
+        )
+      : ts.factory.createNumericLiteral(value);
+  } else if (typeof value === "bigint") {
+    return bigint(value);
   } else if (typeof value === "boolean") {
     return value ? ts.factory.createTrue() : ts.factory.createFalse();
   }
   throw new Error(`Unsupported literal type: ${typeof value}`);
 };
 
+// BigInt literal: 10n
+export const bigint = (value: bigint | string): ts.BigIntLiteral =>
+  ts.factory.createBigIntLiteral(
+    typeof value === "string" && value.endsWith("n") ? value : `${value}n`,
+  );
+
+// Regular expression literal: /pattern/flags; flags add to a RegExp's own
+export const regex = (
+  pattern: string | RegExp,
+  flags = "",
+): ts.RegularExpressionLiteral => {
+  const regExp =
+    pattern instanceof RegExp
+      ? new RegExp(pattern, [...new Set(pattern.flags + flags)].join(""))
+      : new RegExp(pattern, flags);
+  return ts.factory.createRegularExpressionLiteral(regExp.toString());
+};
+
 // Call expression
 export const call = (
   fn: string | ts.Expression,
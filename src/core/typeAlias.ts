@@ -0,0 +1,219 @@
+import ts from "typescript";
+import type { CommentContent, TriviaOptions } from "../helpers/trivia";
+import { addComments } from "../helpers/trivia";
+import { typeParam } from "../types";
+import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { $declare, $export, withModifier } from "./modifier";
+
+class TypeAliasBuilder implements BuildableAST {
+  #decl: ts.TypeAliasDeclaration;
+
+  constructor(
+    optionsOrFrom:
+      | {
+          name: string;
+          type: ts.TypeNode;
+          typeParams?: ts.TypeParameterDeclaration[];
+          mods?: ts.ModifierLike[];
+        }
+      | ts.TypeAliasDeclaration,
+  ) {
+    if ("kind" in optionsOrFrom && "pos" in optionsOrFrom) {
+      // Adopting existing AST node - preserves trivia
+      this.#decl = optionsOrFrom;
+    } else {
+      // Creating new node from options
+      this.#decl = ts.factory.createTypeAliasDeclaration(
+        optionsOrFrom.mods,
+        ts.factory.createIdentifier(optionsOrFrom.name),
+        optionsOrFrom.typeParams,
+        optionsOrFrom.type,
+      );
+    }
+  }
+
+  // Fluent modifier methods
+  $export() {
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $export()),
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  $declare() {
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, $declare()),
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  $mod(mod: ts.Modifier) {
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      withModifier(this.#decl.modifiers, mod),
+      this.#decl.name,
+      this.#decl.typeParameters,
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  rename(newName: string) {
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      ts.factory.createIdentifier(newName),
+      this.#decl.typeParameters,
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  /**
+   * Replace the aliased type
+   */
+  setType(type: ts.TypeNode) {
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      this.#decl.typeParameters,
+      type,
+    );
+    return this;
+  }
+
+  /**
+   * Add a type parameter to the alias
+   * @example
+   * ```ts
+   * typeAlias("Dict", mappedType("K", $ref("Keys"), $ref("V")))
+   *   .addTypeParam("Keys", $ref("PropertyKey"))   // Keys extends PropertyKey
+   *   .addTypeParam("V", undefined, $unknown());   // V = unknown
+   * ```
+   */
+  addTypeParam(
+    nameOrParam: string | ts.TypeParameterDeclaration,
+    constraint?: ts.TypeNode,
+    defaultType?: ts.TypeNode,
+  ) {
+    const param =
+      typeof nameOrParam === "string"
+        ? typeParam(nameOrParam, constraint, defaultType)
+        : nameOrParam;
+
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      [...(this.#decl.typeParameters || []), param],
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  /**
+   * Remove a type parameter by name
+   */
+  removeTypeParam(name: string) {
+    const remaining = this.#decl.typeParameters?.filter(
+      (param) => param.name.text !== name,
+    );
+
+    this.#decl = ts.factory.updateTypeAliasDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.name,
+      remaining && remaining.length > 0 ? remaining : undefined,
+      this.#decl.type,
+    );
+    return this;
+  }
+
+  // ========== Comment Methods ==========
+
+  /**
+   * Add leading comment(s) to the type alias declaration
+   * @param comment Comment content to add
+   * @returns The type alias builder for chaining
+   */
+  addLeadingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { leading: [comment] });
+    return this;
+  }
+
+  /**
+   * Add trailing comment(s) to the type alias declaration
+   * @param comment Comment content to add
+   * @returns The type alias builder for chaining
+   */
+  addTrailingComment(comment: CommentContent): this {
+    this.#decl = addComments(this.#decl, { trailing: [comment] });
+    return this;
+  }
+
+  /**
+   * Add multiple comments to the type alias declaration
+   * @param options Trivia options with leading and/or trailing comments
+   * @returns The type alias builder for chaining
+   */
+  addComments(options: TriviaOptions): this {
+    this.#decl = addComments(this.#decl, options);
+    return this;
+  }
+
+  get(): ts.TypeAliasDeclaration {
+    return this.#decl;
+  }
+}
+
+/**
+ * Create a type alias declaration
+ * @param name The alias name
+ * @param type The aliased type
+ * @param typeParams Optional type parameters (see `typeParam()`)
+ * @param mods Optional modifiers
+ * @example
+ * ```ts
+ * // type Maybe<T> = T | null
+ * typeAlias("Maybe", union($ref("T"), $null()), [typeParam("T")]).$export();
+ *
+ * // Adopt existing (preserves trivia)
+ * file.updateTypeAlias("Maybe", (decl) => typeAlias(decl).rename("Optional").get());
+ * ```
+ */
+export function typeAlias(
+  name: string,
+  type: ts.TypeNode,
+  typeParams?: ts.TypeParameterDeclaration[],
+  mods?: ts.ModifierLike[],
+): TypeAliasBuilder & ts.TypeAliasDeclaration;
+export function typeAlias(existingAlias: ts.TypeAliasDeclaration): TypeAliasBuilder & ts.TypeAliasDeclaration;
+export function typeAlias(
+  nameOrAlias: string | ts.TypeAliasDeclaration,
+  type?: ts.TypeNode,
+  typeParams?: ts.TypeParameterDeclaration[],
+  mods?: ts.ModifierLike[],
+) {
+  if (typeof nameOrAlias === "string") {
+    if (!type) {
+      throw new Error("type is required when creating a new type alias");
+    }
+    return buildFluentApi(TypeAliasBuilder, {
+      name: nameOrAlias,
+      type,
+      typeParams,
+      mods,
+    });
+  } else {
+    return buildFluentApi(TypeAliasBuilder, nameOrAlias);
+  }
+}
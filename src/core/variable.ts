@@ -2,7 +2,8 @@ import ts from "typescript";
 import type { CommentContent, TriviaOptions } from "../helpers/trivia";
 import { addComments } from "../helpers/trivia";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
-import { $export } from "./modifier";
+import type { BindingTarget } from "./binding";
+import { $declare, $export, withModifier } from "./modifier";
 
 // Variable Declaration Builder
 class VariableDeclarationBuilder implements BuildableAST {
@@ -15,7 +16,7 @@ class VariableDeclarationBuilder implements BuildableAST {
     type,
     mods,
   }: {
-    name: string;
+    name: BindingTarget;
     initializer?: ts.Expression;
     kind: ts.NodeFlags;
     type?: ts.TypeNode;
@@ -37,7 +38,17 @@ class VariableDeclarationBuilder implements BuildableAST {
   $export() {
     this.#stmt = ts.factory.updateVariableStatement(
       this.#stmt,
-      [...(this.#stmt.modifiers || []), $export()],
+      withModifier(this.#stmt.modifiers, $export()),
+      this.#stmt.declarationList,
+    );
+    return this;
+  }
+
+  // Ambient declaration: declare const name: Type;
+  $declare() {
+    this.#stmt = ts.factory.updateVariableStatement(
+      this.#stmt,
+      withModifier(this.#stmt.modifiers, $declare()),
       this.#stmt.declarationList,
     );
     return this;
@@ -124,23 +135,45 @@ class VariableDeclarationBuilder implements BuildableAST {
   }
 }
 
-export const const_ = (name: string, initializer?: ts.Expression) =>
+/**
+ * Create a const declaration; pass a binding pattern to destructure
+ * @example
+ * ```ts
+ * const_(arrayBinding(["count", "setCount"]), call("useState", [$(0)]));
+ * ```
+ */
+export const const_ = (
+  name: BindingTarget,
+  initializer?: ts.Expression,
+) =>
   buildFluentApi(VariableDeclarationBuilder, {
     name,
     initializer,
     kind: ts.NodeFlags.Const,
   });
 
-export const let_ = (name: string, initializer?: ts.Expression) =>
+export const let_ = (
+  name: BindingTarget,
+  initializer?: ts.Expression,
+) =>
   buildFluentApi(VariableDeclarationBuilder, {
     name,
     initializer,
     kind: ts.NodeFlags.Let,
   });
 
-export const var_ = (name: string, initializer?: ts.Expression) =>
+export const var_ = (
+  name: BindingTarget,
+  initializer?: ts.Expression,
+) =>
   buildFluentApi(VariableDeclarationBuilder, {
     name,
     initializer,
     kind: ts.NodeFlags.None,
   });
+
+/**
+ * Create an ambient constant: declare const name: Type;
+ */
+export const declareConst = (name: BindingTarget, type: ts.TypeNode) =>
+  const_(name).$declare().$type(type);
@@ -19,3 +19,91 @@ export function nodeToString(node: ts.Node | undefined, sourceFile: ts.SourceFil
   // For anything else, just return its source representation
   return node.getText(sourceFile);
 }
+
+type OverloadableDeclaration = ts.FunctionDeclaration | ts.MethodDeclaration;
+
+// Name of a function or method as text, if it is a plain name
+const getDeclarationName = (node: OverloadableDeclaration) =>
+  node.name &&
+  (ts.isIdentifier(node.name) ||
+    ts.isPrivateIdentifier(node.name) ||
+    ts.isStringLiteral(node.name) ||
+    ts.isNumericLiteral(node.name))
+    ? node.name.text
+    : undefined;
+
+// Statements or members the declaration is in, as its parent has them
+const getSiblings = (node: ts.Node): readonly ts.Node[] => {
+  const parent = node.parent as ts.Node | undefined;
+  if (!parent) return [];
+  if (ts.isClassLike(parent)) return parent.members;
+  if (
+    ts.isSourceFile(parent) ||
+    ts.isModuleBlock(parent) ||
+    ts.isBlock(parent)
+  ) {
+    return parent.statements;
+  }
+  return [];
+};
+
+/**
+ * Get the overload signatures declared right before a function or method
+ * @param declaration The implementation
+ * @param siblings The statements or members around it; defaults to those
+ * of its parent, which are only up to date for parsed code
+ * @example
+ * ```ts
+ * // function parse(input: string): Ast;
+ * // function parse(input: Buffer): Ast;
+ * // function parse(input: string | Buffer): Ast { ... }
+ * getOverloadSignatures(parseImplementation); // the two signatures
+ * ```
+ */
+export function getOverloadSignatures<T extends OverloadableDeclaration>(
+  declaration: T,
+  siblings: readonly ts.Node[] = getSiblings(declaration),
+): T[] {
+  const name = getDeclarationName(declaration);
+  const overloads: T[] = [];
+  if (name === undefined) return overloads;
+
+  for (let index = siblings.indexOf(declaration) - 1; index >= 0; index--) {
+    const sibling = siblings[index]! as T;
+    if (
+      sibling.kind !== declaration.kind ||
+      sibling.body ||
+      getDeclarationName(sibling) !== name
+    ) {
+      break;
+    }
+    overloads.unshift(sibling);
+  }
+  return overloads;
+}
+
+// Whether a string literal is written, or flagged to print, with single quotes
+const isSingleQuoted = (literal: ts.StringLiteral): boolean => {
+  const { singleQuote } = literal as { singleQuote?: boolean };
+  if (singleQuote !== undefined || literal.pos < 0) return !!singleQuote;
+  const sourceFile = literal.getSourceFile() as ts.SourceFile | undefined;
+  return sourceFile?.text[literal.getStart(sourceFile)] === "'";
+};
+
+/**
+ * Create a string literal quoted like an existing one, e.g. to change the
+ * path of an import without changing its quotes
+ * @example
+ * ```ts
+ * // import { b } from './b';
+ * withStringLiteralText(importDecl.moduleSpecifier, "./lib/b"); // './lib/b'
+ * ```
+ */
+export function withStringLiteralText(
+  literal: ts.StringLiteralLike,
+  text: string,
+): ts.StringLiteralLike {
+  return ts.isNoSubstitutionTemplateLiteral(literal)
+    ? ts.factory.createNoSubstitutionTemplateLiteral(text)
+    : ts.factory.createStringLiteral(text, isSingleQuoted(literal));
+}
@@ -0,0 +1,336 @@
+import { codeFrameColumns } from "@babel/code-frame";
+import ts from "typescript";
+import { type ParseDiagnostic, ParseError } from "../modules/errors";
+
+/**
+ * What a code snippet is parsed as
+ */
+export type SnippetKind =
+  | "statements"
+  | "expression"
+  | "type"
+  | "classMember"
+  | "typeElement";
+
+/**
+ * Options for parsing code snippets
+ */
+export interface ParseOptions {
+  /**
+   * What the snippet is written in; `ts.ScriptKind.TSX` allows JSX, but
+   * reads `<T>value` as an element rather than a type assertion.
+   * Defaults to `ts.ScriptKind.TS`
+   */
+  scriptKind?: ts.ScriptKind;
+}
+
+/**
+ * Script kind to parse snippets for a file in: TSX for files that allow
+ * JSX (`.tsx`, `.jsx`), TS otherwise
+ */
+export const getSnippetScriptKind = (
+  sourceFile: ts.SourceFile,
+): ts.ScriptKind =>
+  sourceFile.languageVariant === ts.LanguageVariant.JSX
+    ? ts.ScriptKind.TSX
+    : ts.ScriptKind.TS;
+
+// Code around a snippet that makes it a complete file
+const WRAPPERS: Record<SnippetKind, { prefix: string; suffix: string }> = {
+  statements: { prefix: "", suffix: "" },
+  expression: { prefix: "(", suffix: "\n);" },
+  type: { prefix: "type __Snippet = ", suffix: "\n;" },
+  classMember: { prefix: "class __Snippet {\n", suffix: "\n}" },
+  typeElement: { prefix: "interface __Snippet {\n", suffix: "\n}" },
+};
+
+const DESCRIPTIONS: Record<SnippetKind, string> = {
+  statements: "statements",
+  expression: "an expression",
+  type: "a type",
+  classMember: "class members",
+  typeElement: "interface members",
+};
+
+// Parse errors of a file; not part of the public TypeScript types
+const getParseDiagnostics = (sourceFile: ts.SourceFile) =>
+  (sourceFile as { parseDiagnostics?: ts.DiagnosticWithLocation[] })
+    .parseDiagnostics ?? [];
+
+/**
+ * Turn parsed nodes into synthesized ones, so they print from their own
+ * properties rather than from the text of whatever file they end up in
+ */
+function detach(node: ts.Node, text: string): void {
+  // Synthesized string literals print with double quotes unless flagged
+  if (ts.isStringLiteral(node) && text[node.getStart()] === "'") {
+    (node as { singleQuote?: boolean }).singleQuote = true;
+  }
+  ts.setTextRange(node, { pos: -1, end: -1 });
+  ts.forEachChild(node, (child) => detach(child, text));
+}
+
+/**
+ * Keep the comments in front of a node as synthetic comments
+ */
+function keepLeadingComments(node: ts.Node, text: string): void {
+  for (const range of ts.getLeadingCommentRanges(text, node.pos) ?? []) {
+    const comment = text.slice(range.pos, range.end);
+    ts.addSyntheticLeadingComment(
+      node,
+      range.kind,
+      range.kind === ts.SyntaxKind.MultiLineCommentTrivia
+        ? comment.slice(2, -2)
+        : comment.slice(2),
+      range.hasTrailingNewLine,
+    );
+  }
+}
+
+/**
+ * Create the error for a snippet with syntax errors
+ */
+function createParseError(
+  kind: SnippetKind,
+  text: string,
+  diagnostics: ParseDiagnostic[],
+): ParseError {
+  const first = diagnostics[0];
+  if (!first) {
+    return new ParseError(
+      `Expected ${DESCRIPTIONS[kind]}`,
+      text,
+      diagnostics,
+      "",
+    );
+  }
+
+  const codeFrame = codeFrameColumns(
+    text,
+    { start: { line: first.line, column: first.column } },
+    { highlightCode: false, message: first.message },
+  );
+  return new ParseError(
+    `Unable to parse ${DESCRIPTIONS[kind]}: ${first.message} ` +
+      `(${first.line}:${first.column})`,
+    text,
+    diagnostics,
+    codeFrame,
+  );
+}
+
+/**
+ * Parse a code snippet into synthesized nodes
+ * @param kind What the snippet contains
+ * @param text The snippet
+ * @param options Parse options
+ * @returns The statements, the expression, the type or the members
+ * @throws ParseError with line, column and a code frame of the snippet
+ */
+export function parseSnippet(
+  kind: SnippetKind,
+  text: string,
+  options: ParseOptions = {},
+): ts.Node[] {
+  const { prefix, suffix } = WRAPPERS[kind];
+  const fullText = prefix + text + suffix;
+  const scriptKind = options.scriptKind ?? ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(
+    scriptKind === ts.ScriptKind.TSX ? "snippet.tsx" : "snippet.ts",
+    fullText,
+    ts.ScriptTarget.Latest,
+    true, // setParentNodes
+    scriptKind,
+  );
+
+  const diagnostics = getParseDiagnostics(sourceFile).map(
+    (diagnostic): ParseDiagnostic => {
+      const start = Math.min(
+        Math.max(diagnostic.start - prefix.length, 0),
+        text.length,
+      );
+      const length = Math.min(diagnostic.length, text.length - start);
+      const before = text.slice(0, start).split("\n");
+      return {
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+        code: diagnostic.code,
+        start,
+        length,
+        line: before.length,
+        column: before[before.length - 1]!.length + 1,
+      };
+    },
+  );
+  if (diagnostics.length > 0) {
+    throw createParseError(kind, text, diagnostics);
+  }
+
+  const nodes = getSnippetNodes(kind, sourceFile);
+  if (!nodes) {
+    throw createParseError(kind, text, diagnostics);
+  }
+  for (const node of nodes) {
+    keepLeadingComments(node, fullText);
+    detach(node, fullText);
+  }
+  return nodes;
+}
+
+// The nodes a snippet stands for, or undefined if it escaped its wrapper
+function getSnippetNodes(
+  kind: SnippetKind,
+  sourceFile: ts.SourceFile,
+): ts.Node[] | undefined {
+  const { statements } = sourceFile;
+  if (kind === "statements") {
+    return [...statements];
+  }
+
+  const [statement] = statements;
+  if (statements.length !== 1 || !statement) {
+    return undefined;
+  }
+  switch (kind) {
+    case "expression":
+      return ts.isExpressionStatement(statement) &&
+        ts.isParenthesizedExpression(statement.expression)
+        ? [statement.expression.expression]
+        : undefined;
+    case "type":
+      return ts.isTypeAliasDeclaration(statement)
+        ? [statement.type]
+        : undefined;
+    case "classMember":
+      return ts.isClassDeclaration(statement)
+        ? [...statement.members]
+        : undefined;
+    case "typeElement":
+      return ts.isInterfaceDeclaration(statement)
+        ? [...statement.members]
+        : undefined;
+  }
+}
+
+/**
+ * Parse statements
+ * @example
+ * ```ts
+ * parseStatements("const a = 1;\nexport { a };"); // two statements
+ * parseStatements("render(<App />);", { scriptKind: ts.ScriptKind.TSX });
+ * ```
+ * @throws ParseError with line, column and a code frame
+ */
+export const parseStatements = (
+  code: string,
+  options?: ParseOptions,
+): ts.Statement[] =>
+  parseSnippet("statements", code, options) as ts.Statement[];
+
+/**
+ * Parse an expression
+ * @example
+ * ```ts
+ * parseExpression("user?.name ?? 'anonymous'");
+ * ```
+ * @throws ParseError with line, column and a code frame
+ */
+export const parseExpression = (
+  code: string,
+  options?: ParseOptions,
+): ts.Expression =>
+  parseSnippet("expression", code, options)[0] as ts.Expression;
+
+/**
+ * Parse a type
+ * @example
+ * ```ts
+ * parseType("Record<string, User[]>");
+ * ```
+ * @throws ParseError with line, column and a code frame
+ */
+export const parseType = (
+  code: string,
+  options?: ParseOptions,
+): ts.TypeNode => parseSnippet("type", code, options)[0] as ts.TypeNode;
+
+// The one member of a snippet
+const parseMember = (
+  kind: SnippetKind,
+  code: string,
+  options?: ParseOptions,
+): ts.Node => {
+  const members = parseSnippet(kind, code, options);
+  if (members.length !== 1) {
+    const owner = kind === "classMember" ? "class" : "interface";
+    throw new ParseError(
+      `Expected exactly one ${owner} member, got ${members.length}`,
+      code,
+      [],
+      "",
+    );
+  }
+  return members[0]!;
+};
+
+/**
+ * Parse a single class member
+ * @example
+ * ```ts
+ * parseClassMember("private readonly cache = new Map<string, User>();");
+ * ```
+ * @throws ParseError with line, column and a code frame
+ */
+export const parseClassMember = (
+  code: string,
+  options?: ParseOptions,
+): ts.ClassElement =>
+  parseMember("classMember", code, options) as ts.ClassElement;
+
+/**
+ * Parse a single interface member
+ * @example
+ * ```ts
+ * parseTypeElement("readonly id: string;");
+ * ```
+ * @throws ParseError with line, column and a code frame
+ */
+export const parseTypeElement = (
+  code: string,
+  options?: ParseOptions,
+): ts.TypeElement =>
+  parseMember("typeElement", code, options) as ts.TypeElement;
+
+/**
+ * An expression, or code to parse as one
+ */
+export type ExpressionInput = ts.Expression | string;
+
+/**
+ * A type, or code to parse as one
+ */
+export type TypeInput = ts.TypeNode | string;
+
+/**
+ * Parse an expression given as code, pass nodes through
+ */
+export const toExpressionNode = (input: ExpressionInput): ts.Expression =>
+  typeof input === "string" ? parseExpression(input) : input;
+
+/**
+ * Parse a type given as code, pass nodes through
+ */
+export const toTypeNode = (input: TypeInput): ts.TypeNode =>
+  typeof input === "string" ? parseType(input) : input;
+
+/**
+ * A block, or code to parse as its statements
+ */
+export type BlockInput = ts.Block | string;
+
+/**
+ * Parse a block body given as code, pass blocks through
+ */
+export const toBlockNode = (input: BlockInput): ts.Block =>
+  typeof input === "string"
+    ? ts.factory.createBlock(parseStatements(input), true)
+    : input;
@@ -0,0 +1,646 @@
+import ts from "typescript";
+import { extractDecoratorInfo } from "../core/decorator";
+import { SelectorError } from "../modules/errors";
+import type { SourceFile } from "../modules/file";
+import type { SourceFileRegistry } from "../modules/registry";
+import { getImportModule } from "./moduleResolver";
+
+/**
+ * A node matched by `query`
+ */
+export interface QueryMatch<T extends ts.Node = ts.Node> {
+  node: T;
+  /** Nodes captured with `@name` along the selector */
+  captures: Record<string, ts.Node>;
+  /** The file the node belongs to */
+  sourceFile: ts.SourceFile;
+  /** Registry path of the file, or its file name */
+  fileName: string;
+}
+
+/**
+ * What `query` searches: a source file, a file builder or every file of a
+ * registry
+ */
+export type QueryTarget = ts.SourceFile | SourceFile | SourceFileRegistry;
+
+type Combinator = " " | ">" | "+" | "~";
+type AttributeOperator = "=" | "!=" | "^=" | "$=" | "*=" | "~=";
+
+interface AttributePredicate {
+  name: string;
+  operator?: AttributeOperator;
+  value?: string | RegExp;
+}
+
+type PseudoClass =
+  | { name: "has"; selectors: ComplexSelector[] }
+  | { name: "not" | "is"; selectors: ComplexSelector[] };
+
+interface CompoundSelector {
+  /** Undefined for `*` */
+  kind?: ts.SyntaxKind;
+  attributes: AttributePredicate[];
+  pseudos: PseudoClass[];
+  capture?: string;
+  /** Matches exactly this node; the subject of a `:has` */
+  anchor?: boolean;
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  /** Combinator between each compound and the next */
+  combinators: Combinator[];
+}
+
+// Syntax kinds by name, without the First*/Last* range markers
+const SYNTAX_KINDS = new Map<string, ts.SyntaxKind>();
+const KIND_NAMES = new Map<ts.SyntaxKind, string>();
+for (const [name, value] of Object.entries(ts.SyntaxKind)) {
+  if (typeof value !== "number" || /^(First|Last)/.test(name)) continue;
+  SYNTAX_KINDS.set(name, value);
+  if (!KIND_NAMES.has(value)) KIND_NAMES.set(value, name);
+}
+
+/**
+ * Recursive-descent parser for selectors
+ */
+class SelectorParser {
+  #selector: string;
+  #position = 0;
+
+  constructor(selector: string) {
+    this.#selector = selector;
+  }
+
+  parse(): ComplexSelector[] {
+    const selectors = this.parseList(false);
+    this.skipWhitespace();
+    if (this.#position < this.#selector.length) {
+      this.fail(`Unexpected "${this.peek()}"`);
+    }
+    return selectors;
+  }
+
+  private fail(message: string): never {
+    throw new SelectorError(message, this.#selector, this.#position);
+  }
+
+  private peek(): string {
+    return this.#selector[this.#position] ?? "";
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.#position;
+    while (/\s/.test(this.peek())) this.#position++;
+    return this.#position > start;
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.#position;
+    while (this.peek() && pattern.test(this.peek())) {
+      this.#position++;
+    }
+    return this.#selector.slice(start, this.#position);
+  }
+
+  // Comma-separated selectors; relative ones (in `:has`) may start with a
+  // combinator
+  private parseList(relative: boolean): ComplexSelector[] {
+    const selectors = [this.parseComplex(relative)];
+    this.skipWhitespace();
+    while (this.peek() === ",") {
+      this.#position++;
+      selectors.push(this.parseComplex(relative));
+      this.skipWhitespace();
+    }
+    return selectors;
+  }
+
+  private parseComplex(relative: boolean): ComplexSelector {
+    const selector: ComplexSelector = { compounds: [], combinators: [] };
+    this.skipWhitespace();
+
+    if (relative) {
+      const combinator = /[>+~]/.test(this.peek()) ? this.peek() : " ";
+      if (combinator !== " ") this.#position++;
+      selector.compounds.push({ attributes: [], pseudos: [], anchor: true });
+      selector.combinators.push(combinator as Combinator);
+      this.skipWhitespace();
+    }
+
+    selector.compounds.push(this.parseCompound());
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const next = this.peek();
+      if (next === "" || next === "," || next === ")") break;
+
+      let combinator: Combinator = " ";
+      if (/[>+~]/.test(next)) {
+        combinator = next as Combinator;
+        this.#position++;
+        this.skipWhitespace();
+      } else if (!hadWhitespace) {
+        this.fail(`Unexpected "${next}"`);
+      }
+      selector.combinators.push(combinator);
+      selector.compounds.push(this.parseCompound());
+    }
+    return selector;
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { attributes: [], pseudos: [] };
+    const start = this.#position;
+
+    if (this.peek() === "*") {
+      this.#position++;
+    } else {
+      const name = this.readWhile(/\w/);
+      if (name) {
+        const kind = SYNTAX_KINDS.get(name);
+        if (kind === undefined) {
+          this.#position = start;
+          this.fail(`Unknown node type "${name}"`);
+        }
+        compound.kind = kind;
+      }
+    }
+
+    for (;;) {
+      const next = this.peek();
+      if (next === "[") {
+        compound.attributes.push(this.parseAttribute());
+      } else if (next === ":") {
+        compound.pseudos.push(this.parsePseudo());
+      } else if (next === "@") {
+        this.#position++;
+        compound.capture = this.readWhile(/\w/);
+        if (!compound.capture) this.fail("Expected a capture name");
+      } else {
+        break;
+      }
+    }
+
+    if (this.#position === start) {
+      const next = this.peek();
+      this.fail(next ? `Unexpected "${next}"` : "Expected a selector");
+    }
+    return compound;
+  }
+
+  private parseAttribute(): AttributePredicate {
+    this.#position++; // [
+    this.skipWhitespace();
+    const name = this.readWhile(/[\w.$-]/);
+    if (!name) this.fail("Expected an attribute name");
+    this.skipWhitespace();
+
+    const attribute: AttributePredicate = { name };
+    const operator = this.readWhile(/[=!^$*~]/);
+    if (operator) {
+      if (!["=", "!=", "^=", "$=", "*=", "~="].includes(operator)) {
+        this.fail(`Unknown operator "${operator}"`);
+      }
+      attribute.operator = operator as AttributeOperator;
+      this.skipWhitespace();
+      attribute.value = this.parseValue();
+      this.skipWhitespace();
+    }
+
+    if (this.peek() !== "]") this.fail('Expected "]"');
+    this.#position++;
+    return attribute;
+  }
+
+  private parseValue(): string | RegExp {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      this.#position++;
+      let value = "";
+      while (this.peek() !== quote) {
+        if (!this.peek()) this.fail("Unterminated string");
+        if (this.peek() === "\\") this.#position++;
+        value += this.peek();
+        this.#position++;
+      }
+      this.#position++;
+      return value;
+    }
+
+    if (quote === "/") {
+      this.#position++;
+      let source = "";
+      while (this.peek() !== "/") {
+        if (!this.peek()) this.fail("Unterminated regular expression");
+        if (this.peek() === "\\") {
+          source += this.peek();
+          this.#position++;
+        }
+        source += this.peek();
+        this.#position++;
+      }
+      this.#position++;
+      return new RegExp(source, this.readWhile(/[a-z]/));
+    }
+
+    const value = this.readWhile(/[^\]\s]/);
+    if (!value) this.fail("Expected a value");
+    return value;
+  }
+
+  private parsePseudo(): PseudoClass {
+    this.#position++; // :
+    const name = this.readWhile(/[\w-]/);
+    if (name !== "has" && name !== "not" && name !== "is") {
+      this.fail(`Unknown pseudo-class ":${name}"`);
+    }
+    if (this.peek() !== "(") this.fail('Expected "("');
+    this.#position++;
+    const selectors = this.parseList(name === "has");
+    if (this.peek() !== ")") this.fail('Expected ")"');
+    this.#position++;
+    return { name, selectors };
+  }
+}
+
+const selectorCache = new Map<string, ComplexSelector[]>();
+
+const parseSelector = (selector: string): ComplexSelector[] => {
+  let parsed = selectorCache.get(selector);
+  if (!parsed) {
+    parsed = new SelectorParser(selector).parse();
+    selectorCache.set(selector, parsed);
+  }
+  return parsed;
+};
+
+const getChildren = (node: ts.Node): ts.Node[] => {
+  const children: ts.Node[] = [];
+  ts.forEachChild(node, (child) => {
+    children.push(child);
+  });
+  return children;
+};
+
+// Dotted name of an identifier, property access or qualified name
+const getEntityText = (node: ts.Node): string | undefined => {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node.text;
+  if (node.kind === ts.SyntaxKind.ThisKeyword) return "this";
+  if (ts.isPropertyAccessExpression(node)) {
+    const left = getEntityText(node.expression);
+    return left && `${left}.${node.name.text}`;
+  }
+  if (ts.isQualifiedName(node)) {
+    const left = getEntityText(node.left);
+    return left && `${left}.${node.right.text}`;
+  }
+  return undefined;
+};
+
+const getName = (node: ts.Node): string | undefined => {
+  if (ts.isDecorator(node)) return extractDecoratorInfo(node).name;
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node.text;
+  if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+    return getEntityText(node.expression);
+  }
+  if (ts.isTypeReferenceNode(node)) return getEntityText(node.typeName);
+  if (ts.isExpressionWithTypeArguments(node)) {
+    return getEntityText(node.expression);
+  }
+  if (
+    (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+    node.moduleSpecifier &&
+    ts.isStringLiteral(node.moduleSpecifier)
+  ) {
+    return node.moduleSpecifier.text;
+  }
+
+  const name = (node as { name?: ts.Node }).name;
+  if (!name) return undefined;
+  if (ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  if (ts.isComputedPropertyName(name)) return getText(name.expression);
+  return getEntityText(name);
+};
+
+const printer = ts.createPrinter({ removeComments: true });
+
+// Source text of parsed nodes, printed text of synthesized ones
+const getText = (node: ts.Node, sourceFile?: ts.SourceFile): string => {
+  if (node.pos >= 0 && node.parent) {
+    return node.getText();
+  }
+  return printer.printNode(
+    ts.EmitHint.Unspecified,
+    node,
+    sourceFile ?? ts.createSourceFile("query.ts", "", ts.ScriptTarget.Latest),
+  );
+};
+
+const getModifierNames = (node: ts.Node): string[] =>
+  ((ts.canHaveModifiers(node) && ts.getModifiers(node)) || []).map(
+    (modifier) => ts.tokenToString(modifier.kind) ?? "",
+  );
+
+const MODIFIER_ATTRIBUTES = new Set([
+  "abstract",
+  "accessor",
+  "async",
+  "const",
+  "declare",
+  "default",
+  "export",
+  "override",
+  "private",
+  "protected",
+  "public",
+  "readonly",
+  "static",
+]);
+
+/**
+ * Value of an attribute of a node
+ */
+function getAttribute(
+  node: ts.Node,
+  name: string,
+  sourceFile: ts.SourceFile,
+): unknown {
+  if (MODIFIER_ATTRIBUTES.has(name)) {
+    return getModifierNames(node).includes(name);
+  }
+  switch (name) {
+    case "name":
+      return getName(node);
+    case "kind":
+      return KIND_NAMES.get(node.kind);
+    case "text":
+      return getText(node, sourceFile);
+    case "modifiers":
+      return getModifierNames(node).join(" ");
+    case "optional":
+      return !!(node as { questionToken?: ts.Node }).questionToken;
+    case "type": {
+      const type = (node as { type?: ts.Node }).type;
+      return type && getText(type, sourceFile);
+    }
+    case "module": {
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        return getName(node);
+      }
+      const identifier = getName(node)?.split(".")[0];
+      return identifier && getImportModule(identifier, sourceFile);
+    }
+  }
+
+  // Plain (dotted) property of the node
+  let value: unknown = node;
+  for (const key of name.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (value && typeof value === "object" && "kind" in value) {
+    return getText(value as ts.Node, sourceFile);
+  }
+  return value;
+}
+
+const matchesAttribute = (
+  actual: unknown,
+  { operator, value }: AttributePredicate,
+): boolean => {
+  if (!operator) {
+    return actual !== undefined && actual !== false && actual !== "";
+  }
+  if (actual === undefined || actual === null) {
+    return operator === "!=";
+  }
+
+  const text = String(actual);
+  if (value instanceof RegExp) {
+    return operator === "!=" ? !value.test(text) : value.test(text);
+  }
+  switch (operator) {
+    case "=":
+      return text === value;
+    case "!=":
+      return text !== value;
+    case "^=":
+      return text.startsWith(value!);
+    case "$=":
+      return text.endsWith(value!);
+    case "*=":
+      return text.includes(value!);
+    case "~=":
+      return text.split(/\s+/).includes(value!);
+  }
+};
+
+type Captures = Record<string, ts.Node>;
+
+/**
+ * Matches selectors against the nodes of one file
+ */
+class Matcher {
+  #sourceFile: ts.SourceFile;
+
+  constructor(sourceFile: ts.SourceFile) {
+    this.#sourceFile = sourceFile;
+  }
+
+  /**
+   * Match a selector whose last compound is the last node of the path
+   * (root first)
+   */
+  matchSelector(
+    selector: ComplexSelector,
+    path: ts.Node[],
+    anchor?: ts.Node,
+  ): Captures | undefined {
+    const last = selector.compounds.length - 1;
+    return this.matchFrom(selector, last, path, anchor);
+  }
+
+  private matchFrom(
+    selector: ComplexSelector,
+    index: number,
+    path: ts.Node[],
+    anchor: ts.Node | undefined,
+  ): Captures | undefined {
+    const own = this.matchCompound(selector.compounds[index]!, path, anchor);
+    if (!own || index === 0) {
+      return own;
+    }
+
+    const combinator = selector.combinators[index - 1]!;
+    const withRest = (rest: Captures | undefined) =>
+      rest && { ...rest, ...own };
+
+    if (combinator === ">") {
+      if (path.length < 2) return undefined;
+      const parentPath = path.slice(0, -1);
+      return withRest(this.matchFrom(selector, index - 1, parentPath, anchor));
+    }
+    if (combinator === " ") {
+      for (let depth = path.length - 1; depth >= 1; depth--) {
+        const rest = this.matchFrom(
+          selector,
+          index - 1,
+          path.slice(0, depth),
+          anchor,
+        );
+        if (rest) return withRest(rest);
+      }
+      return undefined;
+    }
+
+    // Sibling combinators look at earlier children of the same parent
+    const parent = path[path.length - 2];
+    if (!parent) return undefined;
+    const siblings = getChildren(parent);
+    const position = siblings.indexOf(path[path.length - 1]!);
+    const candidates =
+      combinator === "+"
+        ? siblings.slice(Math.max(position - 1, 0), position)
+        : siblings.slice(0, position).reverse();
+    for (const sibling of candidates) {
+      const rest = this.matchFrom(
+        selector,
+        index - 1,
+        [...path.slice(0, -1), sibling],
+        anchor,
+      );
+      if (rest) return withRest(rest);
+    }
+    return undefined;
+  }
+
+  private matchCompound(
+    compound: CompoundSelector,
+    path: ts.Node[],
+    anchor: ts.Node | undefined,
+  ): Captures | undefined {
+    const node = path[path.length - 1]!;
+    if (compound.anchor) {
+      return node === anchor ? {} : undefined;
+    }
+    if (compound.kind !== undefined && node.kind !== compound.kind) {
+      return undefined;
+    }
+    for (const attribute of compound.attributes) {
+      const actual = getAttribute(node, attribute.name, this.#sourceFile);
+      if (!matchesAttribute(actual, attribute)) return undefined;
+    }
+
+    let captures: Captures = {};
+    for (const pseudo of compound.pseudos) {
+      const found = this.matchPseudo(pseudo, path);
+      if (!found) return undefined;
+      captures = { ...captures, ...found };
+    }
+    if (compound.capture) {
+      captures[compound.capture] = node;
+    }
+    return captures;
+  }
+
+  private matchPseudo(
+    pseudo: PseudoClass,
+    path: ts.Node[],
+  ): Captures | undefined {
+    if (pseudo.name === "has") {
+      const subject = path[path.length - 1]!;
+      let found: Captures | undefined;
+      const visit = (node: ts.Node, nodePath: ts.Node[]): boolean => {
+        const childPath = [...nodePath, node];
+        for (const selector of pseudo.selectors) {
+          found = this.matchSelector(selector, childPath, subject);
+          if (found) return true;
+        }
+        return !!ts.forEachChild(node, (child) => visit(child, childPath));
+      };
+      ts.forEachChild(subject, (child) => visit(child, path));
+      return found;
+    }
+
+    for (const selector of pseudo.selectors) {
+      const found = this.matchSelector(selector, path);
+      if (found) {
+        return pseudo.name === "is" ? found : undefined;
+      }
+    }
+    return pseudo.name === "not" ? {} : undefined;
+  }
+}
+
+// Files to search, with the name matches report
+const getFiles = (target: QueryTarget): [string, ts.SourceFile][] => {
+  if (typeof (target as SourceFileRegistry).getAll === "function") {
+    return [...(target as SourceFileRegistry).getAll()].map(
+      ([fileName, file]) => [fileName, file.get()],
+    );
+  }
+  const sourceFile =
+    typeof (target as SourceFile).get === "function"
+      ? (target as SourceFile).get()
+      : (target as ts.SourceFile);
+  return [[sourceFile.fileName, sourceFile]];
+};
+
+/**
+ * Find nodes with a CSS-like selector
+ *
+ * - Node types are syntax kind names (`ClassDeclaration`, `Decorator`, ...)
+ *   or `*`; combinators are descendant (space), child (`>`), next sibling
+ *   (`+`) and later sibling (`~`)
+ * - `[attr]`, `[attr=value]`, `[attr!=value]`, `^=`, `$=`, `*=`, `~=` and
+ *   `[attr=/regex/i]` test `name`, `text`, `type`, `kind`, `module` (where
+ *   an identifier or decorator was imported from), `modifiers`, modifier
+ *   flags such as `static` or `readonly`, `optional`, or any (dotted)
+ *   property of the node
+ * - `:has(...)` (relative, e.g. `:has(> Decorator)`), `:not(...)` and
+ *   `:is(...)` take selector lists
+ * - `@name` after a compound captures its node
+ * @param target A source file, file builder or registry
+ * @param selector The selector
+ * @returns Matches in document order, file by file
+ * @throws SelectorError when the selector is invalid
+ * @example
+ * ```ts
+ * const inputs = query<ts.PropertyDeclaration>(
+ *   registry,
+ *   "ClassDeclaration:has(> Decorator[name=Component])@cls" +
+ *     " > PropertyDeclaration[static=false]" +
+ *     ":has(> Decorator[name=Input][module=@angular/core])",
+ * );
+ * for (const { node, captures, fileName } of inputs) {
+ *   const owner = captures.cls as ts.ClassDeclaration;
+ *   console.log(fileName, owner.name?.text, node.name.getText());
+ * }
+ * ```
+ */
+export function query<T extends ts.Node = ts.Node>(
+  target: QueryTarget,
+  selector: string,
+): QueryMatch<T>[] {
+  const selectors = parseSelector(selector);
+  const matches: QueryMatch<T>[] = [];
+
+  for (const [fileName, sourceFile] of getFiles(target)) {
+    const matcher = new Matcher(sourceFile);
+    const visit = (node: ts.Node, path: ts.Node[]) => {
+      const nodePath = [...path, node];
+      for (const complex of selectors) {
+        const captures = matcher.matchSelector(complex, nodePath);
+        if (captures) {
+          matches.push({ node: node as T, captures, sourceFile, fileName });
+          break;
+        }
+      }
+      ts.forEachChild(node, (child) => visit(child, nodePath));
+    };
+    ts.forEachChild(sourceFile, (child) => visit(child, [sourceFile]));
+  }
+
+  return matches;
+}
@@ -0,0 +1,255 @@
+import * as path from "node:path";
+import ts from "typescript";
+import { type HighlightOptions, highlightRange } from "../helpers/highlight";
+import type { ProgramBuilder } from "./program";
+
+export type DiagnosticCategoryName =
+  | "error"
+  | "warning"
+  | "suggestion"
+  | "message";
+
+/**
+ * A TypeScript diagnostic mapped back to the file and node it belongs to
+ */
+export interface SourceDiagnostic {
+  /** Absolute path of the file, as seen by the program */
+  fileName: string;
+  message: string;
+  /** TypeScript error code, e.g. 2339 */
+  code: number;
+  category: DiagnosticCategoryName;
+  kind: "syntactic" | "semantic";
+  /** Offset into the printed file; undefined for file-level diagnostics */
+  start?: number;
+  length?: number;
+  /** 1-based line */
+  line?: number;
+  /** 1-based column */
+  column?: number;
+  /**
+   * Innermost node covering the diagnostic, in the FileBuilder's own AST
+   * when checked through a file or registry. Where the printed code has
+   * nodes the AST lacks, like parentheses added by the printer, it is the
+   * nearest enclosing node both have
+   */
+  node?: ts.Node;
+  /** Code frame pointing at the diagnostic, empty for file-level ones */
+  codeFrame: string;
+  /** The original TypeScript diagnostic */
+  diagnostic: ts.Diagnostic;
+}
+
+export interface DiagnosticsOptions {
+  /**
+   * Program to check against; defaults to the check program of the
+   * file's registry. It is refreshed first so it sees the latest edits
+   */
+  program?: ProgramBuilder;
+  /** Include syntactic diagnostics (default: true) */
+  syntactic?: boolean;
+  /** Include semantic diagnostics (default: true) */
+  semantic?: boolean;
+  /** Options for the code frames */
+  highlight?: Omit<HighlightOptions, "message">;
+}
+
+// Children of a node in source order, with lists flattened
+const getChildren = (node: ts.Node): ts.Node[] => {
+  const children: ts.Node[] = [];
+  ts.forEachChild(
+    node,
+    (child) => {
+      children.push(child);
+    },
+    (list) => {
+      children.push(...list);
+    },
+  );
+  return children;
+};
+
+// A node of a path from the root, and where it is among its siblings
+interface PathStep {
+  node: ts.Node;
+  index: number;
+  siblings: number;
+}
+
+/**
+ * Find the nodes containing a text range, outermost first
+ */
+function findCoveringPath(
+  sourceFile: ts.SourceFile,
+  start: number,
+  end: number,
+): PathStep[] {
+  const path: PathStep[] = [];
+  let children = getChildren(sourceFile);
+  for (;;) {
+    const index = children.findIndex(
+      (child) => child.getStart(sourceFile) <= start && end <= child.getEnd(),
+    );
+    const node = children[index];
+    if (!node) {
+      return path;
+    }
+    path.push({ node, index, siblings: children.length });
+    children = getChildren(node);
+  }
+}
+
+/**
+ * Follow a path into another AST of the same code, e.g. from a reparsed
+ * copy of a file into the AST it was printed from
+ * @returns The node at the end of the path, or the last node both ASTs
+ * share where they differ
+ */
+function followPath(path: PathStep[], root: ts.Node): ts.Node | undefined {
+  let found: ts.Node | undefined;
+  let parent = root;
+  for (const { node, index, siblings } of path) {
+    const children = getChildren(parent);
+    const child = children[index];
+    if (!child || child.kind !== node.kind || children.length !== siblings) {
+      break;
+    }
+    found = parent = child;
+  }
+  return found;
+}
+
+const toSourceDiagnostic = (
+  diagnostic: ts.Diagnostic,
+  kind: SourceDiagnostic["kind"],
+  sourceFile: ts.SourceFile,
+  options: DiagnosticsOptions,
+  target: ts.SourceFile = sourceFile,
+): SourceDiagnostic => {
+  const result: SourceDiagnostic = {
+    fileName: sourceFile.fileName,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    code: diagnostic.code,
+    category: ts.DiagnosticCategory[
+      diagnostic.category
+    ].toLowerCase() as DiagnosticCategoryName,
+    kind,
+    codeFrame: "",
+    diagnostic,
+  };
+
+  if (diagnostic.start === undefined) {
+    return result;
+  }
+
+  const start = diagnostic.start;
+  const end = start + (diagnostic.length ?? 0);
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+
+  result.start = start;
+  result.length = diagnostic.length;
+  result.line = line + 1;
+  result.column = character + 1;
+  const path = findCoveringPath(sourceFile, start, end);
+  result.node =
+    target === sourceFile
+      ? path[path.length - 1]?.node
+      : followPath(path, target);
+  result.codeFrame = highlightRange(sourceFile, start, end, options.highlight);
+  return result;
+};
+
+/**
+ * Run syntactic and semantic checks on files of a program
+ * @param program The program to check; it is not refreshed
+ * @param fileNames Files to check, relative to the program's current
+ * directory or absolute
+ * @param options Which checks to run and how to render code frames
+ * @param targets ASTs to point diagnostic nodes into, by file name, e.g.
+ * the FileBuilders' ASTs the program's files were printed from; other
+ * files point into the program's copy
+ * @returns The diagnostics of all files, in file order
+ */
+export function getDiagnostics(
+  program: ProgramBuilder,
+  fileNames: string[],
+  options: DiagnosticsOptions = {},
+  targets: ReadonlyMap<string, ts.SourceFile> = new Map(),
+): SourceDiagnostic[] {
+  const tsProgram = program.get();
+  const currentDirectory = tsProgram.getCurrentDirectory();
+  const diagnostics: SourceDiagnostic[] = [];
+
+  for (const fileName of fileNames) {
+    const sourceFile = tsProgram.getSourceFile(
+      path.resolve(currentDirectory, fileName),
+    );
+    if (!sourceFile) {
+      throw new Error(`File is not part of the program: ${fileName}`);
+    }
+
+    if (options.syntactic ?? true) {
+      const syntactic = tsProgram.getSyntacticDiagnostics(sourceFile);
+      for (const diagnostic of syntactic) {
+        diagnostics.push(
+          toSourceDiagnostic(
+            diagnostic,
+            "syntactic",
+            sourceFile,
+            options,
+            targets.get(fileName),
+          ),
+        );
+      }
+    }
+    if (options.semantic ?? true) {
+      const semantic = tsProgram.getSemanticDiagnostics(sourceFile);
+      for (const diagnostic of semantic) {
+        diagnostics.push(
+          toSourceDiagnostic(
+            diagnostic,
+            "semantic",
+            sourceFile,
+            options,
+            targets.get(fileName),
+          ),
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Render diagnostics the way `tsc --pretty` does, with code frames
+ * @example
+ * ```ts
+ * const diagnostics = registry.getDiagnostics();
+ * if (diagnostics.length > 0) {
+ *   console.error(formatDiagnostics(diagnostics));
+ * }
+ * ```
+ */
+export function formatDiagnostics(
+  diagnostics: SourceDiagnostic[],
+  currentDirectory = process.cwd(),
+): string {
+  return diagnostics
+    .map((diagnostic) => {
+      const fileName =
+        path.relative(currentDirectory, diagnostic.fileName) ||
+        diagnostic.fileName;
+      const location =
+        diagnostic.line === undefined
+          ? fileName
+          : `${fileName}:${diagnostic.line}:${diagnostic.column}`;
+      const header =
+        `${location} - ${diagnostic.category} TS${diagnostic.code}: ` +
+        diagnostic.message;
+      return diagnostic.codeFrame
+        ? `${header}\n\n${diagnostic.codeFrame}\n`
+        : `${header}\n`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,343 @@
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import { createUnifiedDiff } from "../utils/diff";
+import { EmitError } from "./errors";
+import type { SourceFile } from "./file";
+import { type Formatter, biomeFormatter } from "./format";
+import { type FileSystem, NodeFileSystem } from "./fs";
+import type { PrintOptions } from "./print";
+
+/**
+ * What happened (or would happen, in a dry run) to a file on disk
+ */
+export type EmitFileStatus =
+  | "created"
+  | "modified"
+  | "unchanged"
+  | "deleted"
+  | "skipped";
+
+/**
+ * An existing file on disk whose content differs from the generated one
+ */
+export interface EmitConflict {
+  /** Path the file is written to */
+  outputPath: string;
+  /** Content currently on disk */
+  existing: string;
+  /** Newly generated content */
+  generated: string;
+}
+
+export type EmitConflictResolution = "overwrite" | "skip";
+
+export interface EmitOptions {
+  /**
+   * Directory to write to; registry paths are placed relative to `rootDir`.
+   * Files are written to their registry paths when omitted
+   */
+  outDir?: string;
+  /** Base directory of the registry paths when using `outDir` */
+  rootDir?: string;
+  /** Compute the report and diffs without touching the disk */
+  dryRun?: boolean;
+  /**
+   * Fail when the output on disk is stale; implies `dryRun`.
+   * Meant for CI: `await registry.emit({ check: true })`
+   */
+  check?: boolean;
+  /**
+   * Format output with Biome (`true` uses the current directory as the
+   * Biome project directory) or with any other formatter
+   */
+  format?: boolean | { projectDir: string } | Formatter;
+  /** Layout options for printing the files */
+  print?: PrintOptions;
+  /** Patch the files' original text instead of reprinting them */
+  preserveSource?: boolean;
+  /**
+   * What to do when a file on disk differs from the generated content:
+   * overwrite it (default), skip it, throw, or decide per file. Dry runs
+   * neither throw nor call back; they report such files as modified
+   */
+  onConflict?:
+    | EmitConflictResolution
+    | "error"
+    | ((
+        conflict: EmitConflict,
+      ) => EmitConflictResolution | Promise<EmitConflictResolution>);
+}
+
+export interface EmittedFile {
+  /** Registry path of the file */
+  filePath: string;
+  /** Path the file is written to */
+  outputPath: string;
+  status: EmitFileStatus;
+  /** Unified diff against the file on disk; empty when unchanged */
+  diff: string;
+}
+
+export interface EmitReport {
+  files: EmittedFile[];
+  created: string[];
+  modified: string[];
+  unchanged: string[];
+  deleted: string[];
+  skipped: string[];
+  /**
+   * True when the disk doesn't match the registry (before writing),
+   * including skipped files
+   */
+  isStale: boolean;
+  /** Whether this was a dry run, which writes nothing */
+  dryRun: boolean;
+  /** All diffs concatenated */
+  diff: string;
+}
+
+/**
+ * Print, compare and write a set of source files
+ * @param files Registry path -> source file
+ * @param removedPaths Registry paths whose files should be deleted, e.g. the
+ * old locations of moved files
+ * @param options Emit options
+ * @param fileSystem File system to compare against and write to
+ * @returns What was (or would be) created, modified, deleted or left as is
+ */
+export async function emitFiles(
+  files: Map<string, SourceFile>,
+  removedPaths: Iterable<string>,
+  options: EmitOptions = {},
+  fileSystem: FileSystem = new NodeFileSystem(),
+): Promise<EmitReport> {
+  const dryRun = !!(options.dryRun || options.check);
+  const currentDirectory = fileSystem.getCurrentDirectory();
+  const rootDir = path.resolve(currentDirectory, options.rootDir ?? ".");
+
+  const toDiffPath = (filePath: string) =>
+    path.relative(currentDirectory, filePath).replace(/\\/g, "/") ||
+    filePath;
+
+  const toOutputPath = (filePath: string): string => {
+    const absolutePath = path.resolve(currentDirectory, filePath);
+    if (!options.outDir) {
+      return absolutePath;
+    }
+    const relativePath = path.relative(rootDir, absolutePath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      throw new EmitError(
+        `Cannot emit "${filePath}": it is outside of rootDir "${rootDir}"`,
+        [absolutePath],
+      );
+    }
+    return path.resolve(currentDirectory, options.outDir, relativePath);
+  };
+
+  const formatter =
+    typeof options.format === "function"
+      ? options.format
+      : options.format
+        ? biomeFormatter(
+            options.format === true
+              ? { projectDir: currentDirectory }
+              : options.format,
+          )
+        : undefined;
+
+  const results: EmittedFile[] = [];
+  const writes: PendingWrite[] = [];
+  const deletes: string[] = [];
+
+  for (const [filePath, sourceFile] of files) {
+    const outputPath = toOutputPath(filePath);
+    const generated = await sourceFile.print({
+      ...options.print,
+      formatter: formatter ?? options.print?.formatter,
+      preserveSource: options.preserveSource ?? options.print?.preserveSource,
+    });
+    const existing = fileSystem.readFile(outputPath);
+    const diffPath = toDiffPath(outputPath);
+
+    if (existing === generated) {
+      results.push({ filePath, outputPath, status: "unchanged", diff: "" });
+      continue;
+    }
+
+    const diff = createUnifiedDiff(
+      existing === undefined ? "/dev/null" : `a/${diffPath}`,
+      `b/${diffPath}`,
+      existing ?? "",
+      generated,
+    );
+
+    if (existing !== undefined) {
+      const onConflict = options.onConflict ?? "overwrite";
+      // Dry runs only report, so anything but a plain skip is a change
+      const resolution =
+        dryRun && onConflict !== "skip"
+          ? "overwrite"
+          : typeof onConflict === "function"
+            ? await onConflict({ outputPath, existing, generated })
+            : onConflict;
+
+      if (resolution === "error") {
+        throw new EmitError(
+          `Refusing to overwrite "${outputPath}": it differs from the ` +
+            "generated content",
+          [outputPath],
+        );
+      }
+      if (resolution === "skip") {
+        results.push({ filePath, outputPath, status: "skipped", diff });
+        continue;
+      }
+    }
+
+    writes.push({ outputPath, content: generated, existing });
+    results.push({
+      filePath,
+      outputPath,
+      status: existing === undefined ? "created" : "modified",
+      diff,
+    });
+  }
+
+  const emittedPaths = new Set(results.map((result) => result.outputPath));
+  for (const filePath of removedPaths) {
+    const outputPath = toOutputPath(filePath);
+    if (emittedPaths.has(outputPath)) continue;
+
+    const existing = fileSystem.readFile(outputPath);
+    if (existing === undefined) continue;
+
+    deletes.push(outputPath);
+    results.push({
+      filePath,
+      outputPath,
+      status: "deleted",
+      diff: createUnifiedDiff(
+        `a/${toDiffPath(outputPath)}`,
+        "/dev/null",
+        existing,
+        "",
+      ),
+    });
+  }
+
+  const byStatus = (status: EmitFileStatus) =>
+    results
+      .filter((result) => result.status === status)
+      .map((result) => result.filePath);
+
+  const skipped = byStatus("skipped");
+  const report: EmitReport = {
+    files: results,
+    created: byStatus("created"),
+    modified: byStatus("modified"),
+    unchanged: byStatus("unchanged"),
+    deleted: byStatus("deleted"),
+    skipped,
+    isStale: writes.length > 0 || deletes.length > 0 || skipped.length > 0,
+    dryRun,
+    diff: results.map((result) => result.diff).join(""),
+  };
+
+  if (options.check && report.isStale) {
+    const stale = results.filter((result) => result.status !== "unchanged");
+    throw new EmitError(
+      "Generated files are out of date:\n" +
+        stale
+          .map((result) => `  ${result.status}: ${result.outputPath}`)
+          .join("\n"),
+      stale.map((result) => result.outputPath),
+    );
+  }
+
+  if (!dryRun) {
+    commitWrites(fileSystem, writes);
+    for (const outputPath of deletes) {
+      fileSystem.deleteFile(outputPath);
+    }
+  }
+
+  return report;
+}
+
+interface PendingWrite {
+  outputPath: string;
+  content: string;
+  /** Content on disk before the write, to roll back to */
+  existing: string | undefined;
+}
+
+/**
+ * Write every file to a temp file next to its target first, then rename
+ * them all into place, so a failed write leaves no half-written output.
+ * When a rename fails, the remaining temp files are removed and the files
+ * already renamed get their previous content back
+ * @throws EmitError when a rename fails, listing any file that could not be
+ * rolled back
+ */
+function commitWrites(fileSystem: FileSystem, writes: PendingWrite[]): void {
+  const suffix = `.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  const written: string[] = [];
+
+  try {
+    for (const { outputPath, content } of writes) {
+      fileSystem.writeFile(outputPath + suffix, content);
+      written.push(outputPath + suffix);
+    }
+  } catch (error) {
+    for (const tempPath of written) {
+      try {
+        fileSystem.deleteFile(tempPath);
+      } catch {
+        // Best effort cleanup
+      }
+    }
+    throw error;
+  }
+
+  let renamed = 0;
+  try {
+    for (const { outputPath } of writes) {
+      fileSystem.rename(outputPath + suffix, outputPath);
+      renamed++;
+    }
+  } catch (error) {
+    for (const { outputPath } of writes.slice(renamed)) {
+      try {
+        fileSystem.deleteFile(outputPath + suffix);
+      } catch {
+        // Best effort cleanup
+      }
+    }
+
+    const unrestored: string[] = [];
+    for (const { outputPath, existing } of writes.slice(0, renamed)) {
+      try {
+        if (existing === undefined) {
+          fileSystem.deleteFile(outputPath);
+        } else {
+          fileSystem.writeFile(outputPath, existing);
+        }
+      } catch {
+        unrestored.push(outputPath);
+      }
+    }
+
+    const failedPath = writes[renamed]?.outputPath ?? "";
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new EmitError(
+      `Unable to write "${failedPath}": ${reason}` +
+        (unrestored.length > 0
+          ? `\nThese files were written but could not be rolled back:\n${
+              unrestored.map((outputPath) => `  ${outputPath}`).join("\n")
+            }`
+          : ""),
+      [failedPath, ...unrestored],
+      { cause: error },
+    );
+  }
+}
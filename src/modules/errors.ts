@@ -0,0 +1,137 @@
+/**
+ * A file could not be printed; non-strict printing falls back to a
+ * statement-by-statement print or a placeholder comment instead
+ */
+export class PrintError extends Error {
+  override name = "PrintError";
+
+  constructor(
+    message: string,
+    /** The file being printed */
+    readonly fileName: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * Moving a file produced a path that looks broken, e.g. with doubled
+ * segments; non-strict registries keep the file at its original path
+ */
+export class PathCorruptionError extends Error {
+  override name = "PathCorruptionError";
+
+  constructor(
+    /** The computed path */
+    readonly path: string,
+    /** The path the file had before the move */
+    readonly originalPath: string,
+  ) {
+    super(`Path corrupted, keeping original: ${path} (from ${originalPath})`);
+  }
+}
+
+/**
+ * An import of a moved file could not be rewritten; non-strict registries
+ * keep the original import
+ */
+export class ImportRewriteError extends Error {
+  override name = "ImportRewriteError";
+
+  constructor(
+    message: string,
+    /** The file containing the import */
+    readonly fileName: string,
+    /** The module specifier being rewritten, if known */
+    readonly moduleSpecifier?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * A syntax error in a code snippet, located in the snippet's own text
+ */
+export interface ParseDiagnostic {
+  message: string;
+  /** TypeScript error code, e.g. 1005 */
+  code: number;
+  /** Offset into the snippet */
+  start: number;
+  length: number;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/**
+ * Code given as a string or template could not be parsed
+ * @example
+ * ```ts
+ * try {
+ *   stmts`const x = ;`;
+ * } catch (error) {
+ *   if (error instanceof ParseError) console.error(error.codeFrame);
+ * }
+ * ```
+ */
+export class ParseError extends Error {
+  override name = "ParseError";
+
+  constructor(
+    message: string,
+    /** The text that was parsed */
+    readonly text: string,
+    /** All syntax errors, in text order */
+    readonly diagnostics: ParseDiagnostic[],
+    /** Code frame pointing at the first syntax error */
+    readonly codeFrame: string,
+  ) {
+    super(codeFrame ? `${message}\n\n${codeFrame}` : message);
+    this.line = diagnostics[0]?.line;
+    this.column = diagnostics[0]?.column;
+  }
+
+  /** 1-based line of the first syntax error */
+  readonly line: number | undefined;
+  /** 1-based column of the first syntax error */
+  readonly column: number | undefined;
+}
+
+/**
+ * A query selector could not be parsed
+ */
+export class SelectorError extends Error {
+  override name = "SelectorError";
+
+  constructor(
+    message: string,
+    /** The selector */
+    readonly selector: string,
+    /** Offset of the problem in the selector */
+    readonly position: number,
+  ) {
+    super(`${message} at ${position} in selector: ${selector}`);
+  }
+}
+
+/**
+ * Files could not be emitted: a path is outside of `rootDir`, a file on
+ * disk conflicts with `onConflict: "error"`, or the output is stale in
+ * check mode
+ */
+export class EmitError extends Error {
+  override name = "EmitError";
+
+  constructor(
+    message: string,
+    /** Output paths of the files in question */
+    readonly outputPaths: string[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
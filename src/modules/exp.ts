@@ -0,0 +1,354 @@
+import ts from "typescript";
+import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+
+/**
+ * A named export: `"a"` or `{ name: "a", alias: "b" }` for `a as b`
+ */
+export type ExportSpecifierInput = string | { name: string; alias?: string };
+
+export interface ExportOptions {
+  /** Module to re-export from; omit for a local `export { a, b }` list */
+  moduleSpecifier?: string;
+  namedExports?: ExportSpecifierInput[];
+  typeOnlyNamedExports?: ExportSpecifierInput[];
+  /** `export * as ns from "x"` */
+  namespaceExport?: string;
+  /** `export * from "x"` */
+  exportAll?: boolean;
+  /** `export type { ... }` / `export type * from "x"` */
+  isTypeOnly?: boolean;
+}
+
+// Name the export is visible as from the outside
+const getExportedName = (specifier: ExportSpecifierInput): string =>
+  typeof specifier === "string"
+    ? specifier
+    : (specifier.alias ?? specifier.name);
+
+const createExportSpecifier = (
+  specifier: ExportSpecifierInput,
+  isTypeOnly: boolean,
+): ts.ExportSpecifier => {
+  if (typeof specifier === "string" || !specifier.alias) {
+    const name = typeof specifier === "string" ? specifier : specifier.name;
+    return ts.factory.createExportSpecifier(isTypeOnly, undefined, name);
+  }
+  return ts.factory.createExportSpecifier(
+    isTypeOnly,
+    specifier.name,
+    specifier.alias,
+  );
+};
+
+const toSpecifierInput = (
+  element: ts.ExportSpecifier,
+): ExportSpecifierInput =>
+  element.propertyName
+    ? {
+        name: element.propertyName.text,
+        alias: element.name.text,
+      }
+    : element.name.text;
+
+const uniqueByExportedName = (
+  specifiers: ExportSpecifierInput[],
+): ExportSpecifierInput[] =>
+  specifiers.filter(
+    (item, index, arr) =>
+      arr.findIndex(
+        (other) => getExportedName(other) === getExportedName(item),
+      ) === index,
+  );
+
+class ExportBuilder implements BuildableAST {
+  #decl: ts.ExportDeclaration;
+
+  constructor(options: ExportOptions) {
+    this.#decl = this.createExportDeclaration(options);
+  }
+
+  private createExportDeclaration(
+    options: ExportOptions,
+  ): ts.ExportDeclaration {
+    let exportClause: ts.NamedExportBindings | undefined;
+
+    if (options.namespaceExport) {
+      // export * as ns from "x"
+      exportClause = ts.factory.createNamespaceExport(
+        ts.factory.createIdentifier(options.namespaceExport),
+      );
+    } else if (!options.exportAll) {
+      // export { a, b as c }
+      exportClause = this.createNamedExports(options);
+    }
+
+    return ts.factory.createExportDeclaration(
+      undefined, // modifiers
+      options.isTypeOnly ?? false,
+      exportClause,
+      options.moduleSpecifier !== undefined
+        ? ts.factory.createStringLiteral(options.moduleSpecifier)
+        : undefined,
+      undefined, // attributes
+    );
+  }
+
+  private createNamedExports(options: ExportOptions): ts.NamedExports {
+    const elements: ts.ExportSpecifier[] = [];
+
+    // Add regular named exports
+    for (const specifier of options.namedExports || []) {
+      elements.push(createExportSpecifier(specifier, false));
+    }
+
+    // Add type-only named exports
+    for (const specifier of options.typeOnlyNamedExports || []) {
+      elements.push(createExportSpecifier(specifier, true));
+    }
+
+    return ts.factory.createNamedExports(elements);
+  }
+
+  private updateExportClause(
+    exportClause: ts.NamedExportBindings | undefined,
+    isTypeOnly = this.#decl.isTypeOnly,
+  ) {
+    this.#decl = ts.factory.updateExportDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      isTypeOnly,
+      exportClause,
+      this.#decl.moduleSpecifier,
+      this.#decl.attributes,
+    );
+    return this;
+  }
+
+  // Mark the whole declaration as `export type`
+  $typeOnly() {
+    return this.updateExportClause(this.#decl.exportClause, true);
+  }
+
+  // Dynamic methods to modify the export
+  addNamedExport(name: string, alias?: string, isTypeOnly = false) {
+    const newSpecifier = createExportSpecifier({ name, alias }, isTypeOnly);
+    const currentClause = this.#decl.exportClause;
+
+    if (currentClause && ts.isNamedExports(currentClause)) {
+      // Add to existing named exports
+      return this.updateExportClause(
+        ts.factory.updateNamedExports(currentClause, [
+          ...currentClause.elements,
+          newSpecifier,
+        ]),
+      );
+    }
+
+    // Convert `export *` / `export * as ns` to named exports
+    return this.updateExportClause(
+      ts.factory.createNamedExports([newSpecifier]),
+    );
+  }
+
+  addTypeOnlyNamedExport(name: string, alias?: string) {
+    return this.addNamedExport(name, alias, true);
+  }
+
+  /**
+   * Remove a named export by the name it is exported as
+   */
+  removeNamedExport(exportedName: string) {
+    const currentClause = this.#decl.exportClause;
+    if (!currentClause || !ts.isNamedExports(currentClause)) return this;
+
+    return this.updateExportClause(
+      ts.factory.updateNamedExports(
+        currentClause,
+        currentClause.elements.filter(
+          (element) => element.name.text !== exportedName,
+        ),
+      ),
+    );
+  }
+
+  setNamespaceExport(name: string) {
+    return this.updateExportClause(
+      ts.factory.createNamespaceExport(ts.factory.createIdentifier(name)),
+    );
+  }
+
+  get(): ts.ExportDeclaration {
+    return this.#decl;
+  }
+}
+
+/**
+ * Create an export declaration
+ * @example
+ * ```ts
+ * exp({ moduleSpecifier: "./a", namedExports: [{ name: "a", alias: "b" }] })
+ * // export { a as b } from "./a";
+ * exp({ moduleSpecifier: "./utils", exportAll: true })
+ * // export * from "./utils";
+ * exp({ moduleSpecifier: "./utils", namespaceExport: "utils" })
+ * // export * as utils from "./utils";
+ * exp({ namedExports: ["Props"], isTypeOnly: true })
+ * // export type { Props };
+ * ```
+ */
+export const exp = (options: ExportOptions) =>
+  buildFluentApi(ExportBuilder, options);
+
+const toExportedExpression = (expr: string | ts.Expression): ts.Expression =>
+  typeof expr === "string" ? ts.factory.createIdentifier(expr) : expr;
+
+// Default export: export default expr
+export const expDefault = (
+  expr: string | ts.Expression,
+): ts.ExportAssignment =>
+  ts.factory.createExportAssignment(
+    undefined, // modifiers
+    false, // isExportEquals
+    toExportedExpression(expr),
+  );
+
+// CommonJS-style export: export = expr
+export const expEquals = (
+  expr: string | ts.Expression,
+): ts.ExportAssignment =>
+  ts.factory.createExportAssignment(
+    undefined, // modifiers
+    true, // isExportEquals
+    toExportedExpression(expr),
+  );
+
+/**
+ * Gets the module an export declaration re-exports from
+ * @param exportDecl The export declaration
+ * @returns The module specifier, or undefined for local export lists
+ */
+export function getExportModuleSpecifier(
+  exportDecl: ts.ExportDeclaration,
+): string | undefined {
+  return exportDecl.moduleSpecifier &&
+    ts.isStringLiteral(exportDecl.moduleSpecifier)
+    ? exportDecl.moduleSpecifier.text
+    : undefined;
+}
+
+/**
+ * Checks whether new export options can be merged into an existing
+ * declaration: named lists merge with named lists, `export *` with
+ * `export *` and `export * as ns` only with the same namespace name
+ * @param existing The existing export declaration
+ * @param newOptions The new export options
+ */
+export function canMergeExportDeclarations(
+  existing: ts.ExportDeclaration,
+  newOptions: ExportOptions,
+): boolean {
+  if (getExportModuleSpecifier(existing) !== newOptions.moduleSpecifier) {
+    return false;
+  }
+
+  const clause = existing.exportClause;
+  if (newOptions.namespaceExport) {
+    return (
+      !!clause &&
+      ts.isNamespaceExport(clause) &&
+      clause.name.text === newOptions.namespaceExport
+    );
+  }
+  if (newOptions.exportAll) {
+    return !clause;
+  }
+  return !!clause && ts.isNamedExports(clause);
+}
+
+/**
+ * Merges export options into an existing export declaration
+ * @param existing The existing export declaration
+ * @param newOptions The new export options to merge
+ * @returns A new merged export declaration
+ */
+export function mergeExportDeclarations(
+  existing: ts.ExportDeclaration,
+  newOptions: ExportOptions,
+): ts.ExportDeclaration {
+  const existingOptions = extractExportOptions(existing);
+
+  // The merged declaration is only type-only when both sides are;
+  // otherwise type-only specifiers are kept inline (`{ a, type B }`)
+  const isTypeOnly = !!existingOptions.isTypeOnly && !!newOptions.isTypeOnly;
+
+  const namedExports: ExportSpecifierInput[] = [];
+  const typeOnlyNamedExports: ExportSpecifierInput[] = [];
+
+  for (const options of [existingOptions, newOptions]) {
+    const demote = !isTypeOnly && !!options.isTypeOnly;
+    (demote ? typeOnlyNamedExports : namedExports).push(
+      ...(options.namedExports || []),
+    );
+    typeOnlyNamedExports.push(...(options.typeOnlyNamedExports || []));
+  }
+
+  // Remove duplicates, a regular export wins over a type-only one
+  const uniqueNamed = uniqueByExportedName(namedExports);
+  const namedNames = uniqueNamed.map(getExportedName);
+  const uniqueTypeOnly = uniqueByExportedName(typeOnlyNamedExports).filter(
+    (specifier) => !namedNames.includes(getExportedName(specifier)),
+  );
+
+  const mergedOptions: ExportOptions = {
+    moduleSpecifier: newOptions.moduleSpecifier,
+    namespaceExport: newOptions.namespaceExport,
+    exportAll: newOptions.exportAll,
+    isTypeOnly,
+    namedExports: uniqueNamed,
+    typeOnlyNamedExports: uniqueTypeOnly,
+  };
+
+  // Create new export with merged options
+  return new ExportBuilder(mergedOptions).get();
+}
+
+/**
+ * Extracts export options from an existing export declaration
+ * @param exportDecl The export declaration to extract from
+ * @returns ExportOptions representing the declaration
+ */
+export function extractExportOptions(
+  exportDecl: ts.ExportDeclaration,
+): ExportOptions {
+  const options: ExportOptions = {
+    moduleSpecifier: getExportModuleSpecifier(exportDecl),
+    isTypeOnly: exportDecl.isTypeOnly,
+  };
+
+  const clause = exportDecl.exportClause;
+  if (!clause) {
+    options.exportAll = true;
+  } else if (ts.isNamespaceExport(clause)) {
+    options.namespaceExport = clause.name.text;
+  } else {
+    const namedExports: ExportSpecifierInput[] = [];
+    const typeOnlyNamedExports: ExportSpecifierInput[] = [];
+
+    for (const element of clause.elements) {
+      if (element.isTypeOnly) {
+        typeOnlyNamedExports.push(toSpecifierInput(element));
+      } else {
+        namedExports.push(toSpecifierInput(element));
+      }
+    }
+
+    if (namedExports.length > 0) {
+      options.namedExports = namedExports;
+    }
+    if (typeOnlyNamedExports.length > 0) {
+      options.typeOnlyNamedExports = typeOnlyNamedExports;
+    }
+  }
+
+  return options;
+}
@@ -7,11 +7,75 @@ import type {
   DecoratorInfo,
   ParameterInfo,
 } from "../helpers/finder";
-import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { withStringLiteralText } from "../helpers/node";
+import {
+  type ParseOptions,
+  getSnippetScriptKind,
+  parseStatements,
+} from "../helpers/parse";
+import {
+  type BuildableAST,
+  buildFluentApi,
+  unwrapNodes,
+  wrapFluentApi,
+} from "../utils/buildFluentApi";
+import {
+  type TextEdit,
+  composeTextEdits,
+  createSourceMap,
+} from "../utils/textEdit";
+import {
+  type ExportOptions,
+  canMergeExportDeclarations,
+  exp,
+  getExportModuleSpecifier,
+  mergeExportDeclarations,
+} from "./exp";
+import {
+  type DiagnosticsOptions,
+  type SourceDiagnostic,
+  getDiagnostics,
+} from "./diagnostics";
+import { type FileSystem, NodeFileSystem } from "./fs";
+import type { ModuleReferenceKind } from "./graph";
 import { type ImportOptions, imp, mergeImportDeclarations, extractImportOptions } from "./imp";
-import { type PostprocessOptions, print } from "./print";
+import {
+  type LogLevel,
+  type LoggingOptions,
+  consoleLogger,
+} from "./logger";
+import {
+  type PrintOptions,
+  type PrintResult,
+  print,
+  printSync,
+  printWithEdits,
+  printWithEditsSync,
+} from "./print";
+import {
+  type PatternReplacement,
+  type ReplacePatternOptions,
+  needsSymbolResolver,
+  replacePattern,
+} from "./pattern";
 import { calculateNewImportPath, isRelativeImport, getImportModuleSpecifier } from "./pathUtils";
-import type { SourceFileRegistry } from "./registry";
+import { program } from "./program";
+import { SourceFileRegistry } from "./registry";
+import {
+  type AsyncTransformVisitor,
+  type TransformVisitor,
+  transformSourceFile,
+  transformSourceFileAsync,
+} from "./transform";
+
+// Parse code strings, unwrap builders with their overload signatures
+const toStatements = (
+  statement: ts.Statement | string,
+  options: ParseOptions,
+): ts.Statement[] =>
+  typeof statement === "string"
+    ? parseStatements(statement, options)
+    : unwrapNodes(statement);
 
 // Re-export SourceFileRegistry for convenience
 export { SourceFileRegistry } from "./registry";
@@ -23,7 +87,7 @@ export type SourceFile = FileBuilder & ts.SourceFile;
 /**
  * Options for creating a source file
  */
-export interface SourceFileOptions {
+export interface SourceFileOptions extends LoggingOptions {
   fileName: string;
   content: string;
   scriptTarget?: ts.ScriptTarget;
@@ -31,10 +95,19 @@ export interface SourceFileOptions {
   autoRegister?: boolean;
 }
 
+/**
+ * Options of `file(fileName, content, options)`
+ */
+export interface FileOptions extends LoggingOptions {
+  registry?: SourceFileRegistry;
+  autoRegister?: boolean;
+  scriptTarget?: ts.ScriptTarget;
+}
+
 /**
  * Options for creating a source file from an existing SourceFile
  */
-export interface SourceFileFromTsOptions {
+export interface SourceFileFromTsOptions extends LoggingOptions {
   sourceFile: ts.SourceFile;
   registry?: SourceFileRegistry;
   autoRegister?: boolean;
@@ -74,6 +147,16 @@ export class FileBuilder implements BuildableAST {
   #statements: ts.NodeArray<ts.Statement>;
   #registry?: SourceFileRegistry;
   #originalPath?: string; // Track original file path for import rewriting
+  // Text the file was parsed from; print edits are relative to it
+  #originalSourceFile: ts.SourceFile;
+  // Text that source-preserving printing patches: the original, or the
+  // type-checked copy a registry program swapped in
+  #printBase: ts.SourceFile;
+  // Edits from the original text to the print base's
+  #printBaseEdits: TextEdit[] = [];
+  // Registry to type-check the file in when it has none
+  #ownRegistry?: SourceFileRegistry;
+  #logging: LoggingOptions;
 
   constructor(options: SourceFileOptions | SourceFileFromTsOptions) {
     if ("sourceFile" in options) {
@@ -93,9 +176,15 @@ export class FileBuilder implements BuildableAST {
 
     // Get the statements from the source file
     this.#statements = this.#sourceFile.statements;
+    this.#originalSourceFile = this.#sourceFile;
+    this.#printBase = this.#sourceFile;
 
     // Store registry reference and auto-register if requested
     this.#registry = options.registry;
+    this.#logging = {
+      logger: options.logger ?? this.#registry?.getLogger(),
+      strict: options.strict ?? this.#registry?.isStrict(),
+    };
     if (options.autoRegister && this.#registry) {
       this.#registry.register(this as any, this.#originalPath);
     }
@@ -125,7 +214,7 @@ export class FileBuilder implements BuildableAST {
       // Update statements reference
       this.#statements = this.#sourceFile.statements;
     } catch (error) {
-      console.error("Error updating source file:", error);
+      this.log("warn", "Error updating source file, reparsing it", error);
       // Fallback: recreate the source file from scratch
       const content = ts.createPrinter().printFile(this.#sourceFile);
       this.#sourceFile = ts.createSourceFile(
@@ -138,75 +227,59 @@ export class FileBuilder implements BuildableAST {
     }
   }
 
-  // Methods for adding statements
-  addStatement(...statements: (ts.Statement | string)[]) {
-    // Convert strings to proper AST nodes
-    const astStatements = statements.map(stmt => {
-      if (typeof stmt === 'string') {
-        return this.createStatementFromString(stmt);
-      }
-      return stmt;
+  // Report to the file's logger
+  private log(level: LogLevel, message: string, error?: unknown): void {
+    (this.#logging.logger ?? consoleLogger())({
+      level,
+      message,
+      fileName: this.#sourceFile.fileName,
+      error: error instanceof Error ? error : undefined,
     });
+  }
 
+  // Code strings added to the file parse as TSX in .tsx and .jsx files
+  private snippetOptions(): ParseOptions {
+    return { scriptKind: getSnippetScriptKind(this.#sourceFile) };
+  }
+
+  // Methods for adding statements
+  /**
+   * Append statements; code strings are parsed and may hold several, and
+   * function builders add their overload signatures too
+   * @throws ParseError with line, column and a code frame when code
+   * doesn't parse
+   */
+  addStatement(...statements: (ts.Statement | string)[]) {
     // Create a new source file with the added statements
-    this.updateSourceFile([...this.#statements, ...astStatements]);
+    this.updateSourceFile([
+      ...this.#statements,
+      ...statements.flatMap((statement) =>
+        toStatements(statement, this.snippetOptions()),
+      ),
+    ]);
 
     return this;
   }
 
   // Method for adding statements at the beginning
+  /**
+   * Prepend statements; code strings are parsed and may hold several, and
+   * function builders add their overload signatures too
+   * @throws ParseError with line, column and a code frame when code
+   * doesn't parse
+   */
   prependStatement(...statements: (ts.Statement | string)[]) {
-    // Convert strings to proper AST nodes
-    const astStatements = statements.map(stmt => {
-      if (typeof stmt === 'string') {
-        return this.createStatementFromString(stmt);
-      }
-      return stmt;
-    });
-
     // Create a new source file with the prepended statements
-    this.updateSourceFile([...astStatements, ...this.#statements]);
+    this.updateSourceFile([
+      ...statements.flatMap((statement) =>
+        toStatements(statement, this.snippetOptions()),
+      ),
+      ...this.#statements,
+    ]);
 
     return this;
   }
 
-  /**
-   * Create a proper TypeScript AST statement from a string
-   */
-  private createStatementFromString(code: string): ts.Statement {
-    try {
-      // Create a temporary source file to parse the statement
-      const tempSourceFile = ts.createSourceFile(
-        'temp.ts',
-        code,
-        ts.ScriptTarget.Latest,
-        true
-      );
-
-      // Extract the first statement from the temporary source file
-      if (tempSourceFile.statements.length > 0) {
-        const statement = tempSourceFile.statements[0];
-
-        // Ensure the statement has proper AST structure
-        if (statement && statement.kind !== undefined) {
-          return statement;
-        }
-      }
-
-      // Fallback: create an expression statement from the string
-      // This handles simple expressions like "export const foo = 'bar';"
-      return ts.factory.createExpressionStatement(
-        ts.factory.createIdentifier('/* Failed to parse: ' + code.replace(/\*\//g, '') + ' */')
-      );
-    } catch (error) {
-      console.error('Error creating statement from string:', error);
-      // Create a comment statement as fallback
-      return ts.factory.createExpressionStatement(
-        ts.factory.createIdentifier('/* Error parsing: ' + code.replace(/\*\//g, '') + ' */')
-      );
-    }
-  }
-
   addImport(options: ImportOptions) {
     const importDecl = imp(options);
     this.addStatement(importDecl);
@@ -558,6 +631,100 @@ export class FileBuilder implements BuildableAST {
     return this;
   }
 
+  /**
+   * Rewrites every module specifier in the file: imports, `export ... from`,
+   * `import x = require()`, dynamic `import()` and `require()` calls
+   * @example
+   * ```ts
+   * file.updateModuleSpecifiers((specifier) =>
+   *   specifier.replace(/^@old\//, "@new/"),
+   * );
+   * ```
+   */
+  updateModuleSpecifiers(
+    updateFn: (moduleSpecifier: string, kind: ModuleReferenceKind) => string,
+  ) {
+    const rewrite = <T extends ts.Expression>(
+      literal: T,
+      kind: ModuleReferenceKind,
+    ): T | ts.StringLiteralLike => {
+      if (!ts.isStringLiteralLike(literal)) return literal;
+      const moduleSpecifier = updateFn(literal.text, kind);
+      return moduleSpecifier === literal.text
+        ? literal
+        : withStringLiteralText(literal, moduleSpecifier);
+    };
+
+    const visit = (node: ts.Node): ts.Node => {
+      if (ts.isImportDeclaration(node)) {
+        return ts.factory.updateImportDeclaration(
+          node,
+          node.modifiers,
+          node.importClause,
+          rewrite(node.moduleSpecifier, "import"),
+          node.attributes,
+        );
+      }
+      if (ts.isExportDeclaration(node)) {
+        return ts.factory.updateExportDeclaration(
+          node,
+          node.modifiers,
+          node.isTypeOnly,
+          node.exportClause,
+          node.moduleSpecifier && rewrite(node.moduleSpecifier, "export"),
+          node.attributes,
+        );
+      }
+      if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference)
+      ) {
+        return ts.factory.updateImportEqualsDeclaration(
+          node,
+          node.modifiers,
+          node.isTypeOnly,
+          node.name,
+          ts.factory.updateExternalModuleReference(
+            node.moduleReference,
+            rewrite(node.moduleReference.expression, "import-equals"),
+          ),
+        );
+      }
+
+      const visited = ts.visitEachChild(node, visit, undefined);
+      if (ts.isCallExpression(visited) && visited.arguments.length > 0) {
+        const [firstArg, ...restArgs] = visited.arguments;
+        const kind: ModuleReferenceKind | undefined =
+          visited.expression.kind === ts.SyntaxKind.ImportKeyword
+            ? "dynamic-import"
+            : ts.isIdentifier(visited.expression) &&
+                visited.expression.text === "require"
+              ? "require"
+              : undefined;
+        if (kind && firstArg) {
+          return ts.factory.updateCallExpression(
+            visited,
+            visited.expression,
+            visited.typeArguments,
+            [rewrite(firstArg, kind), ...restArgs],
+          );
+        }
+      }
+      return visited;
+    };
+
+    const updatedStatements = this.#statements.map(
+      (statement) => visit(statement) as ts.Statement,
+    );
+
+    // Update the source file with the modified statements
+    this.updateSourceFile(updatedStatements);
+
+    // Update statements reference
+    this.#statements = this.#sourceFile.statements;
+    return this;
+  }
+
   /**
    * Generic method to update any statement type using a filter and update function
    */
@@ -580,6 +747,75 @@ export class FileBuilder implements BuildableAST {
     return this;
   }
 
+  /**
+   * Replace code matching a pattern anywhere in the file, including
+   * nested functions, classes and namespaces
+   *
+   * `$X` matches any node, `$$$X` any number of arguments, statements,
+   * members or other list elements; the replacement reuses them. Type and
+   * symbol constraints type-check the file (with the rest of its
+   * registry) unless a `resolver` is given.
+   * @example
+   * ```ts
+   * file.replacePattern("console.log($$$ARGS)", "logger.debug($$$ARGS)");
+   * file.replacePattern("$MAP.get($KEY) !== undefined", "$MAP.has($KEY)", {
+   *   where: { MAP: { type: "Map" } },
+   * });
+   * ```
+   * @throws ParseError when the pattern or replacement has syntax errors
+   */
+  replacePattern(
+    pattern: string,
+    replacement: PatternReplacement,
+    options: ReplacePatternOptions = {},
+  ): this {
+    // Type-checking swaps in the program's copy of the AST, so it comes
+    // before reading the source file
+    const resolver =
+      options.resolver ??
+      (needsSymbolResolver(options)
+        ? program({ registry: this.getCheckedRegistry().registry })
+            .symbolResolver
+        : undefined);
+
+    const updated = replacePattern(this.#sourceFile, pattern, replacement, {
+      ...options,
+      resolver,
+    });
+    if (updated !== this.#sourceFile) {
+      this.updateSourceFile([...updated.statements]);
+    }
+    return this;
+  }
+
+  /**
+   * Run a visitor over every node of the file, not just top-level
+   * statements: classes in namespaces and `declare global`, functions
+   * nested in functions, calls in expressions, ...
+   *
+   * Hooks are keyed by syntax kind name and get the node typed accordingly,
+   * plus a context with the parent, ancestors and replace, remove and
+   * insert operations. Returning a node or builder replaces the node.
+   * @example
+   * ```ts
+   * file.transform({
+   *   ClassDeclaration: (node) => klass(node).addMember(member`id = 0;`),
+   *   ExpressionStatement(node, { findAncestor, insertBefore }) {
+   *     if (findAncestor(ts.isMethodDeclaration)) {
+   *       insertBefore(...stmts`performance.mark("step");`);
+   *     }
+   *   },
+   * });
+   * ```
+   */
+  transform(visitor: TransformVisitor): this {
+    const updated = transformSourceFile(this.#sourceFile, visitor);
+    if (updated !== this.#sourceFile) {
+      this.updateSourceFile([...updated.statements]);
+    }
+    return this;
+  }
+
   /**
    * Prepends a comment banner to the beginning of the source file
    * @param banner The banner text (without comment markers)
@@ -668,8 +904,140 @@ export class FileBuilder implements BuildableAST {
     return this.#sourceFile.fileName;
   }
 
-  print(postprocess?: PostprocessOptions): Promise<string> {
-    return print(this.#sourceFile, postprocess);
+  /**
+   * Replace the file's AST, e.g. with the type-checked copy from a program
+   *
+   * The new file's text becomes the base for source-preserving printing,
+   * so it should be this file printed with `preserveSource`.
+   */
+  setSourceFile(sourceFile: ts.SourceFile): this {
+    this.#sourceFile = sourceFile;
+    this.#statements = sourceFile.statements;
+    this.#originalSourceFile = sourceFile;
+    this.#printBase = sourceFile;
+    this.#printBaseEdits = [];
+    return this;
+  }
+
+  /**
+   * Swap in the type-checked copy of the AST from a registry program
+   *
+   * The copy must be parsed from this file printed with `preserveSource`.
+   * Source-preserving printing patches its text from then on, while print
+   * edits and source maps stay relative to the text the file was parsed
+   * from.
+   */
+  setCheckedSourceFile(checked: ts.SourceFile): this {
+    const { text, edits } = printWithEditsSync(
+      this.#sourceFile,
+      this.withLogging({ preserveSource: true }),
+      this.#printBase,
+    );
+    if (text !== checked.text) {
+      throw new TypeError(
+        `${checked.fileName} is not the printed text of this file`,
+      );
+    }
+
+    this.#printBaseEdits = composeTextEdits(
+      this.#originalSourceFile.text,
+      this.#printBaseEdits,
+      edits,
+    );
+    this.#printBase = checked;
+    this.#sourceFile = checked;
+    this.#statements = checked.statements;
+    return this;
+  }
+
+  /**
+   * Change the file's path without touching its imports
+   * Use `SourceFileRegistry.moveFile` to also rewrite imports
+   */
+  setFileName(fileName: string): this {
+    (this.#sourceFile as any).fileName = fileName;
+    this.#originalPath = fileName;
+    return this;
+  }
+
+  /**
+   * Print the file; with `edits: true` also get the edits and source map
+   * relative to the text the file was parsed from
+   * @example
+   * ```ts
+   * const { text, edits, sourceMap } = await file.print({
+   *   preserveSource: true,
+   *   edits: true,
+   * });
+   * // edits: [{ start: 120, end: 120, text: "\n  id: number;" }]
+   * ```
+   */
+  print(postprocess?: PrintOptions & { edits?: false }): Promise<string>;
+  print(
+    postprocess: PrintOptions & { edits: true },
+  ): Promise<PrintResult>;
+  print(
+    postprocess: PrintOptions & { edits?: boolean } = {},
+  ): Promise<string | PrintResult> {
+    const options = this.withLogging(postprocess);
+    if (postprocess.edits) {
+      return printWithEdits(this.#sourceFile, options, this.#printBase).then(
+        (result) => this.fromOriginal(result),
+      );
+    }
+    return print(this.#sourceFile, options, this.#printBase);
+  }
+
+  // A print result relative to the print base, made relative to the
+  // original text
+  private fromOriginal(result: PrintResult): PrintResult {
+    if (this.#printBase === this.#originalSourceFile) {
+      return result;
+    }
+    const original = this.#originalSourceFile;
+    const edits = composeTextEdits(
+      original.text,
+      this.#printBaseEdits,
+      result.edits,
+    );
+    return {
+      text: result.text,
+      edits,
+      sourceMap: createSourceMap(
+        original.text,
+        edits,
+        this.#sourceFile.fileName,
+        original.fileName,
+      ),
+    };
+  }
+
+  // Print options falling back to the file's logger and strict mode
+  private withLogging<T extends PrintOptions>(options: T): T {
+    return {
+      ...options,
+      logger: options.logger ?? this.#logging.logger,
+      strict: options.strict ?? this.#logging.strict,
+    };
+  }
+
+  /**
+   * Print the file synchronously, without running a formatter
+   * @example
+   * ```ts
+   * const file = fileFromPath("src/user.ts");
+   * file.updateClass("User", (c) => c.addMember(prop("id", $number())));
+   * file.printSync({ preserveSource: true }); // only adds the property
+   * ```
+   */
+  printSync(
+    options: Omit<PrintOptions, "formatter" | "biome"> = {},
+  ): string {
+    return printSync(
+      this.#sourceFile,
+      this.withLogging(options),
+      this.#printBase,
+    );
   }
 
   // ========== Async Method Variants ==========
@@ -963,6 +1331,19 @@ export class FileBuilder implements BuildableAST {
     return this;
   }
 
+  /**
+   * Run a visitor whose hooks may be async over every node of the file;
+   * hooks run one at a time, in document order
+   * @see transform
+   */
+  async transformAsync(visitor: AsyncTransformVisitor): Promise<this> {
+    const updated = await transformSourceFileAsync(this.#sourceFile, visitor);
+    if (updated !== this.#sourceFile) {
+      this.updateSourceFile([...updated.statements]);
+    }
+    return this;
+  }
+
   /**
    * Rewrite relative imports when moving file from one directory to another
    * @param fromDir The original directory path
@@ -1137,6 +1518,119 @@ export class FileBuilder implements BuildableAST {
     return this;
   }
 
+  /**
+   * Add or update an export in the source file
+   * If a compatible export from the same module already exists, it will be
+   * merged (named lists with named lists, `export *` with `export *`)
+   * @param options Export configuration
+   * @param position Position to insert the export ('start' | 'end' | number)
+   */
+  addOrUpdateExport(options: ExportOptions, position: 'start' | 'end' | number = 'end'): this {
+    // Check if a mergeable export from this module already exists
+    const existingExportIndex = this.#statements.findIndex(
+      (stmt) =>
+        ts.isExportDeclaration(stmt) &&
+        canMergeExportDeclarations(stmt, options),
+    );
+
+    if (existingExportIndex !== -1) {
+      // Update existing export
+      const existingExport = this.#statements[existingExportIndex] as ts.ExportDeclaration;
+      const updatedExport = mergeExportDeclarations(existingExport, options);
+
+      const newStatements = [...this.#statements];
+      newStatements[existingExportIndex] = updatedExport;
+
+      this.updateSourceFile(newStatements);
+    } else {
+      // Add new export
+      const newExport = exp(options).get();
+
+      if (position === 'start') {
+        this.prependStatement(newExport);
+      } else if (position === 'end') {
+        this.addStatement(newExport);
+      } else {
+        // Insert at specific position
+        const newStatements = [...this.#statements];
+        newStatements.splice(position, 0, newExport);
+
+        this.updateSourceFile(newStatements);
+      }
+    }
+
+    // Update statements reference
+    this.#statements = this.#sourceFile.statements;
+    return this;
+  }
+
+  /**
+   * Remove all export declarations that re-export from a module
+   * @param moduleSpecifier The module to remove re-exports for
+   */
+  removeExport(moduleSpecifier: string): this {
+    const newStatements = this.#statements.filter((stmt) => {
+      if (ts.isExportDeclaration(stmt)) {
+        return getExportModuleSpecifier(stmt) !== moduleSpecifier;
+      }
+      return true;
+    });
+
+    this.updateSourceFile(newStatements);
+
+    this.#statements = this.#sourceFile.statements;
+    return this;
+  }
+
+  /**
+   * Type-check this file as currently built
+   *
+   * Files of the same registry are part of the program, so imports between
+   * them resolve. The file is not changed; diagnostics point at its nodes.
+   * @example
+   * ```ts
+   * for (const { message, node, codeFrame } of file.getDiagnostics()) {
+   *   console.log(message, ts.SyntaxKind[node!.kind]);
+   *   console.log(codeFrame);
+   * }
+   * ```
+   */
+  getDiagnostics(options: DiagnosticsOptions = {}): SourceDiagnostic[] {
+    const { registry, filePath } = this.getCheckedRegistry();
+    const checked = options.program?.refresh() ?? registry.getCheckProgram();
+    return getDiagnostics(
+      checked,
+      [filePath],
+      options,
+      new Map([[filePath, this.#sourceFile]]),
+    );
+  }
+
+  // The registry to type-check this file in, and its path there
+  private getCheckedRegistry(): {
+    registry: SourceFileRegistry;
+    filePath: string;
+  } {
+    const registry = this.#registry;
+    const filePath = [...(registry?.getAll() ?? [])].find(
+      ([, file]) => file.get() === this.#sourceFile,
+    )?.[0];
+    if (registry && filePath) {
+      return { registry, filePath };
+    }
+
+    // Check the file on its own
+    const fileName = this.getFileName();
+    if (!this.#ownRegistry?.get(fileName)) {
+      this.#ownRegistry = new SourceFileRegistry();
+      this.#ownRegistry.registerFile(
+        fileName,
+        wrapFluentApi<FileBuilder>(this),
+      );
+    }
+    return { registry: this.#ownRegistry, filePath: fileName };
+  }
+
   /**
    * Get the registry associated with this file
    */
@@ -1171,7 +1665,7 @@ export class FileBuilder implements BuildableAST {
 export function file(
   fileName: string,
   content?: string,
-  scriptTargetOrOptions?: ts.ScriptTarget | { registry?: SourceFileRegistry; autoRegister?: boolean; scriptTarget?: ts.ScriptTarget }
+  scriptTargetOrOptions?: ts.ScriptTarget | FileOptions
 ): FileBuilder & ts.SourceFile;
 export function file(
   options: SourceFileOptions
@@ -1179,10 +1673,14 @@ export function file(
 export function file(
   fileNameOrOptions: string | SourceFileOptions,
   content: string = "",
-  scriptTargetOrOptions: ts.ScriptTarget | { registry?: SourceFileRegistry; autoRegister?: boolean; scriptTarget?: ts.ScriptTarget } = ts.ScriptTarget.Latest,
+  scriptTargetOrOptions:
+    | ts.ScriptTarget
+    | FileOptions = ts.ScriptTarget.Latest,
 ) {
   if (typeof fileNameOrOptions === 'string') {
     // Legacy signature: file(fileName, content?, scriptTarget?)
+    const fileOptions =
+      typeof scriptTargetOrOptions === "object" ? scriptTargetOrOptions : {};
     const options: SourceFileOptions = {
       fileName: fileNameOrOptions,
       content,
@@ -1191,6 +1689,8 @@ export function file(
         : scriptTargetOrOptions?.scriptTarget ?? ts.ScriptTarget.Latest,
       registry: typeof scriptTargetOrOptions === 'object' ? scriptTargetOrOptions.registry : undefined,
       autoRegister: typeof scriptTargetOrOptions === 'object' ? scriptTargetOrOptions.autoRegister : undefined,
+      logger: fileOptions.logger,
+      strict: fileOptions.strict,
     };
 
     return buildFluentApi(FileBuilder, options);
@@ -1233,6 +1733,8 @@ export const fileFromString = (
  * @param scriptTarget The TypeScript script target (defaults to Latest)
  * @param registry Optional registry for auto-registration
  * @param autoRegister Whether to auto-register with the registry
+ * @param fileSystem File system to read from; defaults to the registry's
+ * file system, or the disk
  * @returns A fluent builder for the source file
  */
 export const fileFromPath = (
@@ -1240,15 +1742,18 @@ export const fileFromPath = (
   scriptTarget: ts.ScriptTarget = ts.ScriptTarget.Latest,
   registry?: SourceFileRegistry,
   autoRegister: boolean = true,
+  fileSystem: FileSystem = registry?.getFileSystem() ?? new NodeFileSystem(),
 ) => {
-  // Read from disk
-  let content: string;
+  // Read through the file system
+  let content: string | undefined;
   try {
-    const fs = require("fs");
-    content = fs.readFileSync(filePath, "utf-8");
+    content = fileSystem.readFile(filePath);
   } catch (error) {
     throw new Error(`Failed to read file at ${filePath}: ${error}`);
   }
+  if (content === undefined) {
+    throw new Error(`Failed to read file at ${filePath}: file not found`);
+  }
 
   // Use the full filePath as fileName for better tracking
   return fileFromString(filePath, content, scriptTarget, registry, autoRegister);
@@ -0,0 +1,102 @@
+import { Biome, Distribution } from "@biomejs/js-api";
+import ts from "typescript";
+import { applyTextEdits } from "../utils/textEdit";
+import { getFormattingEdits } from "../utils/tsFormat";
+import type { PrintOptions } from "./print";
+
+export interface FormatterContext {
+  /** Name of the file being printed, e.g. to pick the language */
+  fileName: string;
+  /** The options the file is printed with */
+  options: PrintOptions;
+}
+
+/**
+ * Formatting step run on printed code
+ * @example
+ * ```ts
+ * const prettier: Formatter = (text, { fileName }) =>
+ *   prettierFormat(text, { filepath: fileName });
+ * await file.print({ formatter: prettier });
+ * ```
+ */
+export type Formatter = (
+  text: string,
+  context: FormatterContext,
+) => string | Promise<string>;
+
+type ProjectKey = ReturnType<Biome["openProject"]>["projectKey"];
+
+// Shared across all files; creating Biome loads its WebAssembly module
+let biome: Promise<Biome> | undefined;
+const projectKeys = new Map<string, ProjectKey>();
+
+/**
+ * Format with Biome, using the configuration of a project directory
+ * @param options.projectDir Directory with the Biome configuration,
+ * defaults to the current directory
+ */
+export const biomeFormatter =
+  (options: { projectDir?: string } = {}): Formatter =>
+  async (text, { fileName }) => {
+    // A failed load is not cached, so the next file tries again
+    biome ??= Biome.create({ distribution: Distribution.NODE }).catch(
+      (error) => {
+        biome = undefined;
+        throw error;
+      },
+    );
+    const instance = await biome;
+
+    const projectDir = options.projectDir ?? process.cwd();
+    let projectKey = projectKeys.get(projectDir);
+    if (projectKey === undefined) {
+      projectKey = instance.openProject(projectDir).projectKey;
+      projectKeys.set(projectDir, projectKey);
+    }
+
+    return instance.formatContent(projectKey, text, { filePath: fileName })
+      .content;
+  };
+
+/**
+ * Editor settings matching the layout options of a print
+ */
+export function getFormatCodeSettings(
+  options: PrintOptions,
+): ts.FormatCodeSettings {
+  const indentSize = typeof options.indent === "number" ? options.indent : 4;
+  const newLineCharacter = options.newLine === "crlf" ? "\r\n" : "\n";
+  return {
+    ...ts.getDefaultFormatCodeSettings(newLineCharacter),
+    indentSize,
+    tabSize: indentSize,
+    convertTabsToSpaces: options.indent !== "tab",
+    semicolons:
+      options.semicolons === false
+        ? ts.SemicolonPreference.Remove
+        : ts.SemicolonPreference.Ignore,
+  };
+}
+
+/**
+ * Format with the TypeScript language service formatter, as editors do
+ * @param settings Formatter settings; indentation, line breaks and
+ * semicolons default to the print options
+ */
+export const typescriptFormatter =
+  (settings: ts.FormatCodeSettings = {}): Formatter =>
+  (text, { fileName, options }) => {
+    const changes = getFormattingEdits(text, fileName, {
+      ...getFormatCodeSettings(options),
+      ...settings,
+    });
+    return applyTextEdits(
+      text,
+      changes.map(({ span, newText }) => ({
+        start: span.start,
+        end: span.start + span.length,
+        text: newText,
+      })),
+    );
+  };
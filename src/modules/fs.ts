@@ -0,0 +1,320 @@
+import * as nodeFs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import { normalizePath } from "./pathUtils";
+
+/**
+ * Minimal synchronous file system used by files, the registry and programs
+ *
+ * Paths may be relative; they are resolved against `getCurrentDirectory()`.
+ */
+export interface FileSystem {
+  /** Read a file, or undefined if it doesn't exist */
+  readFile(filePath: string): string | undefined;
+  /** Write a file, creating missing parent directories */
+  writeFile(filePath: string, content: string): void;
+  /** Delete a file; throws if it doesn't exist */
+  deleteFile(filePath: string): void;
+  /** Move a file, replacing the target if it exists */
+  rename(fromPath: string, toPath: string): void;
+  fileExists(filePath: string): boolean;
+  directoryExists(dirPath: string): boolean;
+  /** Names of the files and directories directly inside a directory */
+  readDirectory(dirPath: string): string[];
+  getCurrentDirectory(): string;
+}
+
+/**
+ * File system backed by the real disk
+ */
+export class NodeFileSystem implements FileSystem {
+  readFile(filePath: string): string | undefined {
+    try {
+      return nodeFs.readFileSync(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  writeFile(filePath: string, content: string): void {
+    nodeFs.mkdirSync(path.dirname(filePath), { recursive: true });
+    nodeFs.writeFileSync(filePath, content, "utf8");
+  }
+
+  deleteFile(filePath: string): void {
+    nodeFs.unlinkSync(filePath);
+  }
+
+  rename(fromPath: string, toPath: string): void {
+    nodeFs.mkdirSync(path.dirname(toPath), { recursive: true });
+    nodeFs.renameSync(fromPath, toPath);
+  }
+
+  fileExists(filePath: string): boolean {
+    return (
+      nodeFs.statSync(filePath, { throwIfNoEntry: false })?.isFile() ?? false
+    );
+  }
+
+  directoryExists(dirPath: string): boolean {
+    return (
+      nodeFs.statSync(dirPath, { throwIfNoEntry: false })?.isDirectory() ??
+      false
+    );
+  }
+
+  readDirectory(dirPath: string): string[] {
+    return this.directoryExists(dirPath) ? nodeFs.readdirSync(dirPath) : [];
+  }
+
+  getCurrentDirectory(): string {
+    return process.cwd();
+  }
+}
+
+/**
+ * File system kept entirely in memory, e.g. for tests
+ * @example
+ * ```ts
+ * const fs = new MemoryFileSystem({ "src/a.ts": "export const a = 1;" });
+ * fs.readFile("/src/a.ts"); // "export const a = 1;"
+ * ```
+ */
+export class MemoryFileSystem implements FileSystem {
+  #files = new Map<string, string>();
+  #currentDirectory: string;
+
+  constructor(files: Record<string, string> = {}, currentDirectory = "/") {
+    this.#currentDirectory = normalizePath(path.resolve(currentDirectory));
+    for (const [filePath, content] of Object.entries(files)) {
+      this.writeFile(filePath, content);
+    }
+  }
+
+  private resolve(filePath: string): string {
+    return normalizePath(path.resolve(this.#currentDirectory, filePath));
+  }
+
+  readFile(filePath: string): string | undefined {
+    return this.#files.get(this.resolve(filePath));
+  }
+
+  writeFile(filePath: string, content: string): void {
+    this.#files.set(this.resolve(filePath), content);
+  }
+
+  deleteFile(filePath: string): void {
+    if (!this.#files.delete(this.resolve(filePath))) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+  }
+
+  rename(fromPath: string, toPath: string): void {
+    const content = this.readFile(fromPath);
+    if (content === undefined) {
+      throw new Error(`File not found: ${fromPath}`);
+    }
+    this.deleteFile(fromPath);
+    this.writeFile(toPath, content);
+  }
+
+  fileExists(filePath: string): boolean {
+    return this.#files.has(this.resolve(filePath));
+  }
+
+  directoryExists(dirPath: string): boolean {
+    return this.readDirectory(dirPath).length > 0;
+  }
+
+  readDirectory(dirPath: string): string[] {
+    const prefix = this.resolve(dirPath).replace(/\/?$/, "/");
+    const entries = new Set<string>();
+    for (const filePath of this.#files.keys()) {
+      if (filePath.startsWith(prefix)) {
+        entries.add(filePath.slice(prefix.length).split("/")[0]!);
+      }
+    }
+    return [...entries];
+  }
+
+  getCurrentDirectory(): string {
+    return this.#currentDirectory;
+  }
+
+  /**
+   * All files by absolute path
+   */
+  getAll(): Map<string, string> {
+    return new Map(this.#files);
+  }
+}
+
+/**
+ * File system that records writes and deletes in memory on top of another
+ * file system, which stays untouched until `commit()`
+ * @example
+ * ```ts
+ * const overlay = new OverlayFileSystem(new NodeFileSystem());
+ * overlay.writeFile("src/generated.ts", code);
+ * // ...type-check against the overlay, then:
+ * overlay.commit();
+ * ```
+ */
+export class OverlayFileSystem implements FileSystem {
+  #base: FileSystem;
+  #written = new Map<string, string>();
+  #deleted = new Set<string>();
+
+  constructor(base: FileSystem) {
+    this.#base = base;
+  }
+
+  private resolve(filePath: string): string {
+    return normalizePath(path.resolve(this.getCurrentDirectory(), filePath));
+  }
+
+  readFile(filePath: string): string | undefined {
+    const resolved = this.resolve(filePath);
+    if (this.#deleted.has(resolved)) return undefined;
+    return this.#written.get(resolved) ?? this.#base.readFile(resolved);
+  }
+
+  writeFile(filePath: string, content: string): void {
+    const resolved = this.resolve(filePath);
+    this.#written.set(resolved, content);
+    this.#deleted.delete(resolved);
+  }
+
+  deleteFile(filePath: string): void {
+    const resolved = this.resolve(filePath);
+    if (!this.fileExists(resolved)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    this.#written.delete(resolved);
+    if (this.#base.fileExists(resolved)) {
+      this.#deleted.add(resolved);
+    }
+  }
+
+  rename(fromPath: string, toPath: string): void {
+    const content = this.readFile(fromPath);
+    if (content === undefined) {
+      throw new Error(`File not found: ${fromPath}`);
+    }
+    this.deleteFile(fromPath);
+    this.writeFile(toPath, content);
+  }
+
+  fileExists(filePath: string): boolean {
+    const resolved = this.resolve(filePath);
+    if (this.#deleted.has(resolved)) return false;
+    return this.#written.has(resolved) || this.#base.fileExists(resolved);
+  }
+
+  directoryExists(dirPath: string): boolean {
+    return (
+      this.readDirectory(dirPath).length > 0 ||
+      this.#base.directoryExists(this.resolve(dirPath))
+    );
+  }
+
+  readDirectory(dirPath: string): string[] {
+    const resolved = this.resolve(dirPath);
+    const prefix = resolved.replace(/\/?$/, "/");
+    const entries = new Set(
+      this.#base
+        .readDirectory(resolved)
+        .filter((name) => !this.#deleted.has(prefix + name)),
+    );
+    for (const filePath of this.#written.keys()) {
+      if (filePath.startsWith(prefix)) {
+        entries.add(filePath.slice(prefix.length).split("/")[0]!);
+      }
+    }
+    return [...entries];
+  }
+
+  getCurrentDirectory(): string {
+    return this.#base.getCurrentDirectory();
+  }
+
+  /**
+   * Pending changes that haven't been committed to the base file system
+   */
+  getChanges(): { written: Map<string, string>; deleted: string[] } {
+    return { written: new Map(this.#written), deleted: [...this.#deleted] };
+  }
+
+  /**
+   * Apply all pending changes to the base file system
+   */
+  commit(): void {
+    for (const [filePath, content] of this.#written) {
+      this.#base.writeFile(filePath, content);
+    }
+    for (const filePath of this.#deleted) {
+      this.#base.deleteFile(filePath);
+    }
+    this.reset();
+  }
+
+  /**
+   * Drop all pending changes
+   */
+  reset(): void {
+    this.#written.clear();
+    this.#deleted.clear();
+  }
+}
+
+/**
+ * Create a compiler host that reads and writes through a file system
+ *
+ * TypeScript's default lib files fall back to the real disk when the
+ * file system doesn't contain them, so in-memory programs still see
+ * the standard library.
+ * @param fileSystem The file system to use
+ * @param compilerOptions Compiler options for the host
+ */
+export function createCompilerHost(
+  fileSystem: FileSystem,
+  compilerOptions: ts.CompilerOptions,
+): ts.CompilerHost {
+  const host = ts.createCompilerHost(compilerOptions);
+  const libDirectory = normalizePath(
+    path.resolve(host.getDefaultLibLocation?.() ?? ""),
+  );
+  const isLibFile = (fileName: string) =>
+    normalizePath(path.resolve(fileName)).startsWith(`${libDirectory}/`);
+
+  const readFile = (fileName: string): string | undefined =>
+    fileSystem.readFile(fileName) ??
+    (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined);
+
+  return {
+    ...host,
+    readFile,
+    fileExists: (fileName) =>
+      fileSystem.fileExists(fileName) ||
+      (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+    directoryExists: (dirPath) => fileSystem.directoryExists(dirPath),
+    getDirectories: (dirPath) =>
+      fileSystem
+        .readDirectory(dirPath)
+        .filter((name) => fileSystem.directoryExists(path.join(dirPath, name))),
+    getCurrentDirectory: () => fileSystem.getCurrentDirectory(),
+    realpath: (filePath) => filePath,
+    getSourceFile: (fileName, languageVersionOrOptions, onError) => {
+      const text = readFile(fileName);
+      if (text === undefined) {
+        onError?.(`File not found: ${fileName}`);
+        return undefined;
+      }
+      return ts.createSourceFile(fileName, text, languageVersionOrOptions);
+    },
+    writeFile: (fileName, text) => fileSystem.writeFile(fileName, text),
+  };
+}
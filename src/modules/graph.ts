@@ -0,0 +1,490 @@
+import path from "path";
+import ts from "typescript";
+import { isRelativeImport, normalizePath, resolveImportPath } from "./pathUtils";
+
+const unique = <T>(items: T[]): T[] => [...new Set(items)];
+
+// Key used to match file paths independent of their spelling
+export const toAbsolutePath = (filePath: string): string =>
+  normalizePath(path.resolve(filePath));
+
+/**
+ * How a file refers to another module
+ */
+export type ModuleReferenceKind =
+  | "import"
+  | "export"
+  | "import-equals"
+  | "dynamic-import"
+  | "require";
+
+/**
+ * A module specifier found in a source file
+ */
+export interface ModuleReference {
+  /** The module specifier as written, e.g. "./utils" */
+  moduleSpecifier: string;
+  kind: ModuleReferenceKind;
+  /**
+   * Names used from the module: exported names for named imports and
+   * re-exports, "default" for default imports and "*" for namespace
+   * imports, `export *`, `import =` and dynamic imports
+   */
+  symbols: string[];
+  /** `import type` / `export type` */
+  isTypeOnly: boolean;
+}
+
+/**
+ * A module reference resolved against the registered files
+ */
+export interface ModuleDependency extends ModuleReference {
+  /** Registry path of the imported file; undefined for external modules */
+  resolvedFile?: string;
+}
+
+/**
+ * Collects every module reference in a source file: import and export
+ * declarations, `import x = require()`, dynamic `import()` and `require()`
+ * @param sourceFile The source file to scan
+ * @returns The module references in source order
+ */
+export function getModuleReferences(
+  sourceFile: ts.SourceFile,
+): ModuleReference[] {
+  const references: ModuleReference[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      const clause = node.importClause;
+      const symbols: string[] = [];
+      if (clause?.name) {
+        symbols.push("default");
+      }
+      if (clause?.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          symbols.push("*");
+        } else {
+          for (const element of clause.namedBindings.elements) {
+            symbols.push((element.propertyName ?? element.name).text);
+          }
+        }
+      }
+      references.push({
+        moduleSpecifier: node.moduleSpecifier.text,
+        kind: "import",
+        symbols,
+        isTypeOnly: clause?.isTypeOnly ?? false,
+      });
+      return;
+    }
+
+    if (
+      ts.isExportDeclaration(node) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      const clause = node.exportClause;
+      references.push({
+        moduleSpecifier: node.moduleSpecifier.text,
+        kind: "export",
+        symbols:
+          clause && ts.isNamedExports(clause)
+            ? clause.elements.map(
+                (element) => (element.propertyName ?? element.name).text,
+              )
+            : ["*"],
+        isTypeOnly: node.isTypeOnly,
+      });
+      return;
+    }
+
+    if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      references.push({
+        moduleSpecifier: node.moduleReference.expression.text,
+        kind: "import-equals",
+        symbols: ["*"],
+        isTypeOnly: node.isTypeOnly,
+      });
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const [firstArg] = node.arguments;
+      if (firstArg && ts.isStringLiteralLike(firstArg)) {
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          references.push({
+            moduleSpecifier: firstArg.text,
+            kind: "dynamic-import",
+            symbols: ["*"],
+            isTypeOnly: false,
+          });
+        } else if (
+          ts.isIdentifier(node.expression) &&
+          node.expression.text === "require"
+        ) {
+          references.push({
+            moduleSpecifier: firstArg.text,
+            kind: "require",
+            symbols: ["*"],
+            isTypeOnly: false,
+          });
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return references;
+}
+
+const RESOLVABLE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".d.ts",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+// ESM-style specifiers name the emitted file: "./a.js" means "./a.ts"
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx", ".d.ts"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts", ".d.mts"],
+  ".cjs": [".cts", ".d.cts"],
+};
+
+/**
+ * Candidate file paths for an extensionless, `.js`-style or directory
+ * import, in the order TypeScript would try them
+ */
+function getCandidatePaths(basePath: string): string[] {
+  const candidates = [basePath];
+
+  const extension = path.extname(basePath);
+  const sourceExtensions = EMITTED_EXTENSIONS[extension];
+  if (sourceExtensions) {
+    const withoutExtension = basePath.slice(0, -extension.length);
+    candidates.push(...sourceExtensions.map((ext) => withoutExtension + ext));
+  }
+
+  candidates.push(...RESOLVABLE_EXTENSIONS.map((ext) => basePath + ext));
+  candidates.push(
+    ...RESOLVABLE_EXTENSIONS.map((ext) => path.join(basePath, `index${ext}`)),
+  );
+  return candidates;
+}
+
+/**
+ * Expands a non-relative specifier through tsconfig `paths` and `baseUrl`
+ * into absolute base paths to probe. Like TypeScript, only the best `paths`
+ * pattern is used: an exact match, or else the wildcard pattern with the
+ * longest prefix
+ */
+function getMappedPaths(
+  moduleSpecifier: string,
+  compilerOptions: ts.CompilerOptions,
+): string[] {
+  const pathsBase =
+    typeof compilerOptions.pathsBasePath === "string"
+      ? compilerOptions.pathsBasePath
+      : undefined;
+  const baseDir = path.resolve(compilerOptions.baseUrl ?? pathsBase ?? ".");
+  const mapped: string[] = [];
+
+  let best:
+    | { prefixLength: number; substitution: string; targets: string[] }
+    | undefined;
+  for (const [pattern, targets] of Object.entries(
+    compilerOptions.paths ?? {},
+  )) {
+    const starIndex = pattern.indexOf("*");
+
+    if (starIndex === -1) {
+      if (pattern === moduleSpecifier) {
+        best = {
+          prefixLength: Number.POSITIVE_INFINITY,
+          substitution: "",
+          targets,
+        };
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      moduleSpecifier.length >= prefix.length + suffix.length &&
+      moduleSpecifier.startsWith(prefix) &&
+      moduleSpecifier.endsWith(suffix) &&
+      prefix.length > (best?.prefixLength ?? -1)
+    ) {
+      best = {
+        prefixLength: prefix.length,
+        substitution: moduleSpecifier.slice(
+          prefix.length,
+          moduleSpecifier.length - suffix.length,
+        ),
+        targets,
+      };
+    }
+  }
+
+  if (best) {
+    for (const target of best.targets) {
+      mapped.push(
+        path.resolve(baseDir, target.replace("*", best.substitution)),
+      );
+    }
+  }
+
+  if (compilerOptions.baseUrl) {
+    mapped.push(path.resolve(compilerOptions.baseUrl, moduleSpecifier));
+  }
+
+  return mapped;
+}
+
+/**
+ * Resolves a module specifier to one of the known files
+ * @param moduleSpecifier The specifier as written in the importing file
+ * @param fromFile Path of the importing file
+ * @param lookup Maps an absolute path to a known file, if there is one
+ * @param compilerOptions Compiler options providing `paths` and `baseUrl`
+ * @returns The known file the specifier points to, or undefined
+ */
+export function resolveModuleFile(
+  moduleSpecifier: string,
+  fromFile: string,
+  lookup: (absolutePath: string) => string | undefined,
+  compilerOptions: ts.CompilerOptions = {},
+): string | undefined {
+  const basePaths = isRelativeImport(moduleSpecifier)
+    ? [path.resolve(resolveImportPath(moduleSpecifier, fromFile))]
+    : getMappedPaths(moduleSpecifier, compilerOptions);
+
+  for (const basePath of basePaths) {
+    for (const candidate of getCandidatePaths(basePath)) {
+      const resolved = lookup(candidate);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Module graph over a set of files: who imports whom and which symbols
+ * are used across file boundaries
+ */
+export class ModuleGraph {
+  #dependencies: Map<string, ModuleDependency[]>;
+  #dependents = new Map<string, Set<string>>();
+
+  constructor(dependencies: Map<string, ModuleDependency[]>) {
+    this.#dependencies = dependencies;
+
+    for (const file of dependencies.keys()) {
+      this.#dependents.set(file, new Set());
+    }
+    for (const [file, edges] of dependencies) {
+      for (const edge of edges) {
+        if (edge.resolvedFile !== undefined) {
+          this.#dependents.get(edge.resolvedFile)?.add(file);
+        }
+      }
+    }
+  }
+
+  /**
+   * All files in the graph
+   */
+  getFiles(): string[] {
+    return [...this.#dependencies.keys()];
+  }
+
+  /**
+   * Every module reference of a file, resolved or external
+   */
+  getReferences(file: string): ModuleDependency[] {
+    return [...(this.#dependencies.get(file) ?? [])];
+  }
+
+  /**
+   * Module specifiers a file uses that don't resolve to a known file
+   */
+  getExternalModules(file: string): string[] {
+    return unique(
+      this.getReferences(file)
+        .filter((edge) => edge.resolvedFile === undefined)
+        .map((edge) => edge.moduleSpecifier),
+    );
+  }
+
+  /**
+   * Files imported by a file
+   * @param transitive Also include dependencies of dependencies
+   */
+  getDependencies(file: string, transitive = false): string[] {
+    const direct = (current: string) =>
+      unique(
+        (this.#dependencies.get(current) ?? []).flatMap((edge) =>
+          edge.resolvedFile !== undefined ? [edge.resolvedFile] : [],
+        ),
+      );
+    return transitive ? this.walk(file, direct) : direct(file);
+  }
+
+  /**
+   * Files importing a file
+   * @param transitive Also include dependents of dependents
+   */
+  getDependents(file: string, transitive = false): string[] {
+    const direct = (current: string) => [
+      ...(this.#dependents.get(current) ?? []),
+    ];
+    return transitive ? this.walk(file, direct) : direct(file);
+  }
+
+  /**
+   * Symbols other files use from a file, per importing file;
+   * "default" is the default export and "*" means the whole module
+   */
+  getUsedSymbols(file: string): Map<string, string[]> {
+    const used = new Map<string, string[]>();
+    for (const dependent of this.getDependents(file)) {
+      used.set(
+        dependent,
+        unique(
+          (this.#dependencies.get(dependent) ?? [])
+            .filter((edge) => edge.resolvedFile === file)
+            .flatMap((edge) => edge.symbols),
+        ),
+      );
+    }
+    return used;
+  }
+
+  /**
+   * Files ordered so every file comes after the files it imports;
+   * files in a cycle are ordered by first discovery
+   */
+  getTopologicalOrder(): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (file: string) => {
+      if (visited.has(file)) return;
+      visited.add(file);
+      for (const dependency of this.getDependencies(file)) {
+        visit(dependency);
+      }
+      order.push(file);
+    };
+
+    for (const file of this.#dependencies.keys()) {
+      visit(file);
+    }
+    return order;
+  }
+
+  /**
+   * Import cycles, each as the list of files that form it
+   */
+  findCycles(): string[][] {
+    // Tarjan's strongly connected components
+    const cycles: string[][] = [];
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let nextIndex = 0;
+
+    const connect = (file: string) => {
+      indices.set(file, nextIndex);
+      lowLinks.set(file, nextIndex);
+      nextIndex++;
+      stack.push(file);
+      onStack.add(file);
+
+      for (const dependency of this.getDependencies(file)) {
+        if (!indices.has(dependency)) {
+          connect(dependency);
+          lowLinks.set(
+            file,
+            Math.min(lowLinks.get(file)!, lowLinks.get(dependency)!),
+          );
+        } else if (onStack.has(dependency)) {
+          lowLinks.set(
+            file,
+            Math.min(lowLinks.get(file)!, indices.get(dependency)!),
+          );
+        }
+      }
+
+      if (lowLinks.get(file) === indices.get(file)) {
+        const component: string[] = [];
+        let member: string | undefined;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.unshift(member);
+        } while (member !== file);
+
+        const isSelfImport = this.getDependencies(file).includes(file);
+        if (component.length > 1 || isSelfImport) {
+          cycles.push(component);
+        }
+      }
+    };
+
+    for (const file of this.#dependencies.keys()) {
+      if (!indices.has(file)) {
+        connect(file);
+      }
+    }
+    return cycles;
+  }
+
+  /**
+   * Files not reachable from any of the entry points
+   */
+  getUnreachableFiles(entryPoints: string[]): string[] {
+    const reachable = new Set<string>();
+    for (const entry of entryPoints) {
+      if (!this.#dependencies.has(entry)) continue;
+      reachable.add(entry);
+      for (const dependency of this.getDependencies(entry, true)) {
+        reachable.add(dependency);
+      }
+    }
+    return this.getFiles().filter((file) => !reachable.has(file));
+  }
+
+  private walk(file: string, next: (file: string) => string[]): string[] {
+    const seen = new Set<string>();
+    const queue = next(file);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      queue.push(...next(current));
+    }
+    return [...seen];
+  }
+}
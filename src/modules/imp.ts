@@ -2,15 +2,100 @@ import ts from "typescript";
 import { $export } from "../core/modifier";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
 
+/**
+ * A named import: `"a"` or `{ name: "a", alias: "b" }` for `a as b`
+ */
+export type ImportSpecifierInput = string | { name: string; alias?: string };
+
+/**
+ * Import attributes: `{ type: "json" }` becomes `with { type: "json" }`
+ */
+export type ImportAttributesInput = Record<string, string>;
+
+/**
+ * Options for an import declaration; with only a `moduleSpecifier` it
+ * creates a side-effect import (`import "./polyfill"`)
+ */
 export interface ImportOptions {
-  namedImports?: string[];
+  namedImports?: ImportSpecifierInput[];
   defaultImport?: string;
   namespaceImport?: string;
-  typeOnlyNamedImports?: string[];
+  typeOnlyNamedImports?: ImportSpecifierInput[];
   moduleSpecifier: string;
   isDefaultTypeOnly?: boolean;
+  attributes?: ImportAttributesInput;
 }
 
+// Name the import is bound to locally
+const getLocalName = (specifier: ImportSpecifierInput): string =>
+  typeof specifier === "string"
+    ? specifier
+    : (specifier.alias ?? specifier.name);
+
+const createImportSpecifier = (
+  specifier: ImportSpecifierInput,
+  isTypeOnly: boolean,
+): ts.ImportSpecifier => {
+  if (typeof specifier === "string" || !specifier.alias) {
+    const name = typeof specifier === "string" ? specifier : specifier.name;
+    return ts.factory.createImportSpecifier(
+      isTypeOnly,
+      undefined,
+      ts.factory.createIdentifier(name),
+    );
+  }
+  return ts.factory.createImportSpecifier(
+    isTypeOnly,
+    ts.factory.createIdentifier(specifier.name),
+    ts.factory.createIdentifier(specifier.alias),
+  );
+};
+
+const toSpecifierInput = (
+  element: ts.ImportSpecifier,
+): ImportSpecifierInput =>
+  element.propertyName
+    ? { name: element.propertyName.text, alias: element.name.text }
+    : element.name.text;
+
+const uniqueByLocalName = (
+  specifiers: ImportSpecifierInput[],
+): ImportSpecifierInput[] =>
+  specifiers.filter(
+    (item, index, arr) =>
+      arr.findIndex((other) => getLocalName(other) === getLocalName(item)) ===
+      index,
+  );
+
+const createImportAttributes = (
+  attributes: ImportAttributesInput | undefined,
+): ts.ImportAttributes | undefined => {
+  if (!attributes || Object.keys(attributes).length === 0) return undefined;
+  return ts.factory.createImportAttributes(
+    ts.factory.createNodeArray(
+      Object.entries(attributes).map(([key, value]) =>
+        ts.factory.createImportAttribute(
+          ts.factory.createIdentifier(key),
+          ts.factory.createStringLiteral(value),
+        ),
+      ),
+    ),
+  );
+};
+
+const extractImportAttributes = (
+  attributes: ts.ImportAttributes | undefined,
+): ImportAttributesInput | undefined => {
+  if (!attributes) return undefined;
+  const result: ImportAttributesInput = {};
+  for (const element of attributes.elements) {
+    if (ts.isStringLiteral(element.value)) {
+      result[element.name.text] = element.value.text;
+    }
+  }
+  return result;
+};
+
 class ImportBuilder implements BuildableAST {
   #decl: ts.ImportDeclaration;
 
@@ -67,6 +152,7 @@ class ImportBuilder implements BuildableAST {
       undefined, // modifiers
       importClause,
       ts.factory.createStringLiteral(options.moduleSpecifier),
+      createImportAttributes(options.attributes),
     );
   }
 
@@ -77,27 +163,15 @@ class ImportBuilder implements BuildableAST {
 
     // Add regular named imports
     if (options.namedImports) {
-      for (const name of options.namedImports) {
-        elements.push(
-          ts.factory.createImportSpecifier(
-            false,
-            undefined,
-            ts.factory.createIdentifier(name),
-          ),
-        );
+      for (const specifier of options.namedImports) {
+        elements.push(createImportSpecifier(specifier, false));
       }
     }
 
     // Add type-only named imports
     if (options.typeOnlyNamedImports) {
-      for (const name of options.typeOnlyNamedImports) {
-        elements.push(
-          ts.factory.createImportSpecifier(
-            true,
-            undefined,
-            ts.factory.createIdentifier(name),
-          ),
-        );
+      for (const specifier of options.typeOnlyNamedImports) {
+        elements.push(createImportSpecifier(specifier, true));
       }
     }
 
@@ -119,15 +193,25 @@ class ImportBuilder implements BuildableAST {
   }
 
   // Dynamic methods to modify the import
-  addNamedImport(name: string, isTypeOnly = false) {
+  addNamedImport(name: ImportSpecifierInput, isTypeOnly = false) {
+    const newSpecifier = createImportSpecifier(name, isTypeOnly);
     const currentClause = this.#decl.importClause;
-    if (!currentClause) return this;
 
-    const newSpecifier = ts.factory.createImportSpecifier(
-      isTypeOnly,
-      undefined,
-      ts.factory.createIdentifier(name),
-    );
+    if (!currentClause) {
+      // Turn a side-effect import into a named import
+      this.#decl = ts.factory.updateImportDeclaration(
+        this.#decl,
+        this.#decl.modifiers,
+        ts.factory.createImportClause(
+          false,
+          undefined,
+          ts.factory.createNamedImports([newSpecifier]),
+        ),
+        this.#decl.moduleSpecifier,
+        this.#decl.attributes,
+      );
+      return this;
+    }
 
     let newNamedBindings: ts.NamedImportBindings | undefined;
 
@@ -165,7 +249,7 @@ class ImportBuilder implements BuildableAST {
     return this;
   }
 
-  addTypeOnlyNamedImport(name: string) {
+  addTypeOnlyNamedImport(name: ImportSpecifierInput) {
     return this.addNamedImport(name, true);
   }
 
@@ -212,14 +296,99 @@ class ImportBuilder implements BuildableAST {
     return this;
   }
 
+  // Import attributes: with { type: "json" }
+  setAttributes(attributes: ImportAttributesInput | undefined) {
+    this.#decl = ts.factory.updateImportDeclaration(
+      this.#decl,
+      this.#decl.modifiers,
+      this.#decl.importClause,
+      this.#decl.moduleSpecifier,
+      createImportAttributes(attributes),
+    );
+    return this;
+  }
+
   get(): ts.ImportDeclaration {
     return this.#decl;
   }
 }
 
+/**
+ * Create an import declaration
+ * @example
+ * ```ts
+ * imp({ moduleSpecifier: "./polyfill" }) // import "./polyfill";
+ * imp({ moduleSpecifier: "./a", namedImports: [{ name: "a", alias: "b" }] })
+ * // import { a as b } from "./a";
+ * imp({
+ *   moduleSpecifier: "./data.json",
+ *   defaultImport: "data",
+ *   attributes: { type: "json" },
+ * }) // import data from "./data.json" with { type: "json" };
+ * ```
+ */
 export const imp = (options: ImportOptions) =>
   buildFluentApi(ImportBuilder, options);
 
+// CommonJS-style import: import name = require("module")
+export const impEquals = (
+  name: string,
+  moduleSpecifier: string,
+  isTypeOnly = false,
+): ts.ImportEqualsDeclaration =>
+  ts.factory.createImportEqualsDeclaration(
+    undefined, // modifiers
+    isTypeOnly,
+    name,
+    ts.factory.createExternalModuleReference(
+      ts.factory.createStringLiteral(moduleSpecifier),
+    ),
+  );
+
+/**
+ * Dynamic import expression
+ * @example
+ * ```ts
+ * await_(dynamicImport("./heavy")) // await import("./heavy")
+ * dynamicImport("./data.json", { type: "json" })
+ * // import("./data.json", { with: { type: "json" } })
+ * ```
+ */
+export const dynamicImport = (
+  moduleSpecifier: string | ts.Expression,
+  attributes?: ImportAttributesInput,
+): ts.CallExpression => {
+  const args: ts.Expression[] = [
+    typeof moduleSpecifier === "string"
+      ? ts.factory.createStringLiteral(moduleSpecifier)
+      : moduleSpecifier,
+  ];
+
+  if (attributes) {
+    args.push(
+      ts.factory.createObjectLiteralExpression([
+        ts.factory.createPropertyAssignment(
+          "with",
+          ts.factory.createObjectLiteralExpression(
+            Object.entries(attributes).map(([key, value]) =>
+              ts.factory.createPropertyAssignment(
+                key,
+                ts.factory.createStringLiteral(value),
+              ),
+            ),
+          ),
+        ),
+      ]),
+    );
+  }
+
+  return ts.factory.createCallExpression(
+    ts.factory.createToken(ts.SyntaxKind.ImportKeyword) as ts.Expression,
+    undefined,
+    args,
+  );
+};
+
 /**
  * Merges two import declarations from the same module
  * @param existing The existing import declaration
@@ -230,51 +399,29 @@ export function mergeImportDeclarations(
   existing: ts.ImportDeclaration,
   newOptions: ImportOptions,
 ): ts.ImportDeclaration {
-  const existingClause = existing.importClause;
-  const existingModuleSpecifier = existing.moduleSpecifier;
-
   // Start with existing elements
-  const existingNamedImports: string[] = [];
-  const existingTypeOnlyImports: string[] = [];
-  let existingDefaultImport: string | undefined;
-  let existingNamespaceImport: string | undefined;
-
-  // Extract existing imports
-  if (existingClause) {
-    if (existingClause.name) {
-      existingDefaultImport = existingClause.name.text;
-    }
+  const existingOptions = extractImportOptions(existing);
 
-    if (existingClause.namedBindings) {
-      if (ts.isNamespaceImport(existingClause.namedBindings)) {
-        existingNamespaceImport = existingClause.namedBindings.name.text;
-      } else if (ts.isNamedImports(existingClause.namedBindings)) {
-        for (const element of existingClause.namedBindings.elements) {
-          const importName = element.name.text;
-          if (element.isTypeOnly) {
-            existingTypeOnlyImports.push(importName);
-          } else {
-            existingNamedImports.push(importName);
-          }
-        }
-      }
-    }
-  }
+  const namedImports = uniqueByLocalName([
+    ...(existingOptions.namedImports || []),
+    ...(newOptions.namedImports || []),
+  ]);
+  const namedNames = namedImports.map(getLocalName);
 
   // Merge with new options
   const mergedOptions: ImportOptions = {
     moduleSpecifier: newOptions.moduleSpecifier,
-    defaultImport: newOptions.defaultImport || existingDefaultImport,
-    namespaceImport: newOptions.namespaceImport || existingNamespaceImport,
-    namedImports: [
-      ...existingNamedImports,
-      ...(newOptions.namedImports || []),
-    ].filter((item, index, arr) => arr.indexOf(item) === index), // Remove duplicates
-    typeOnlyNamedImports: [
-      ...existingTypeOnlyImports,
+    defaultImport: newOptions.defaultImport || existingOptions.defaultImport,
+    namespaceImport:
+      newOptions.namespaceImport || existingOptions.namespaceImport,
+    namedImports,
+    // Remove duplicates, a regular import wins over a type-only one
+    typeOnlyNamedImports: uniqueByLocalName([
+      ...(existingOptions.typeOnlyNamedImports || []),
       ...(newOptions.typeOnlyNamedImports || []),
-    ].filter((item, index, arr) => arr.indexOf(item) === index), // Remove duplicates
+    ]).filter((specifier) => !namedNames.includes(getLocalName(specifier))),
     isDefaultTypeOnly: newOptions.isDefaultTypeOnly,
+    attributes: newOptions.attributes ?? existingOptions.attributes,
   };
 
   // Create new import with merged options
@@ -293,6 +440,11 @@ export function extractImportOptions(importDecl: ts.ImportDeclaration): ImportOp
       : "",
   };
 
+  const attributes = extractImportAttributes(importDecl.attributes);
+  if (attributes) {
+    options.attributes = attributes;
+  }
+
   const clause = importDecl.importClause;
   if (!clause) return options;
 
@@ -307,15 +459,15 @@ export function extractImportOptions(importDecl: ts.ImportDeclaration): ImportOp
     if (ts.isNamespaceImport(clause.namedBindings)) {
       options.namespaceImport = clause.namedBindings.name.text;
     } else if (ts.isNamedImports(clause.namedBindings)) {
-      const namedImports: string[] = [];
-      const typeOnlyNamedImports: string[] = [];
+      const namedImports: ImportSpecifierInput[] = [];
+      const typeOnlyNamedImports: ImportSpecifierInput[] = [];
 
       for (const element of clause.namedBindings.elements) {
-        const importName = element.name.text;
-        if (element.isTypeOnly) {
-          typeOnlyNamedImports.push(importName);
+        // `import type { a }` makes every specifier type-only
+        if (element.isTypeOnly || (clause.isTypeOnly && !clause.name)) {
+          typeOnlyNamedImports.push(toSpecifierInput(element));
         } else {
-          namedImports.push(importName);
+          namedImports.push(toSpecifierInput(element));
         }
       }
 
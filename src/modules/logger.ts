@@ -0,0 +1,74 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A message reported while printing files or moving them in a registry
+ */
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  /** The file the message is about */
+  fileName?: string;
+  /** The error behind a warning or error */
+  error?: Error;
+}
+
+/**
+ * Sink for everything reported while printing and moving files
+ * @example
+ * ```ts
+ * const entries: LogEntry[] = [];
+ * const registry = new SourceFileRegistry({
+ *   logger: (entry) => entries.push(entry),
+ * });
+ * ```
+ */
+export type Logger = (entry: LogEntry) => void;
+
+export interface LoggingOptions {
+  /** Where messages go; defaults to `consoleLogger()` */
+  logger?: Logger;
+  /**
+   * Throw typed errors (`PrintError`, `PathCorruptionError`,
+   * `ImportRewriteError`) instead of logging them and falling back
+   */
+  strict?: boolean;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Log to the console
+ * @param minLevel Least severe level that is printed (default: "warn")
+ */
+export const consoleLogger =
+  (minLevel: LogLevel = "warn"): Logger =>
+  ({ level, message, fileName, error }) => {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(minLevel)) return;
+    const text = fileName ? `${fileName}: ${message}` : message;
+    if (error) {
+      console[level](text, error);
+    } else {
+      console[level](text);
+    }
+  };
+
+/**
+ * Drop all messages
+ */
+export const silentLogger: Logger = () => {};
+
+/**
+ * Throw an error in strict mode, otherwise log it and carry on with a
+ * fallback
+ */
+export function reportError(options: LoggingOptions, error: Error): void {
+  if (options.strict) {
+    throw error;
+  }
+  (options.logger ?? consoleLogger())({
+    level: "error",
+    message: error.message,
+    fileName: (error as { fileName?: string }).fileName,
+    error,
+  });
+}
@@ -142,3 +142,76 @@ export function calculateNewImportPath(
 
   return newRelativePath;
 }
+
+// Longest first so ".d.ts" wins over ".ts"
+const SCRIPT_EXTENSIONS = [
+  ".d.mts",
+  ".d.cts",
+  ".d.ts",
+  ".mts",
+  ".cts",
+  ".tsx",
+  ".ts",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".js",
+];
+
+/**
+ * Gets the script extension of a path, including declaration extensions
+ * @param filePath The path to inspect
+ * @returns The extension (e.g. ".d.ts", ".tsx") or "" if there is none
+ */
+export function getScriptExtension(filePath: string): string {
+  return SCRIPT_EXTENSIONS.find((ext) => filePath.endsWith(ext)) ?? "";
+}
+
+/**
+ * Calculates the import path for a file that moved, keeping the
+ * extension style of the original import: extensionless, with an
+ * extension (e.g. ESM ".js") or as a directory `index` import
+ * @param importPath The original import path
+ * @param oldTargetPath Where the imported file was
+ * @param newTargetPath Where the imported file is now
+ * @param importerPath Where the importing file is now
+ * @returns The relative import path to use from the importing file
+ */
+export function getMovedImportPath(
+  importPath: string,
+  oldTargetPath: string,
+  newTargetPath: string,
+  importerPath: string,
+): string {
+  const importExtension = getScriptExtension(importPath);
+  const oldExtension = getScriptExtension(oldTargetPath);
+  const newExtension = getScriptExtension(newTargetPath);
+  const newStem = newTargetPath.slice(
+    0,
+    newTargetPath.length - newExtension.length,
+  );
+
+  const importsDirectory =
+    path.basename(oldTargetPath, oldExtension) === "index" &&
+    path.basename(importPath, importExtension) !== "index";
+
+  let targetPath: string;
+  if (importsDirectory && path.basename(newStem) === "index") {
+    // "./components" -> "./components/index.ts"
+    targetPath = path.dirname(newTargetPath);
+  } else if (importExtension === "") {
+    targetPath = newStem;
+  } else if (importExtension === oldExtension) {
+    // Imports naming the source file (allowImportingTsExtensions)
+    targetPath = newTargetPath;
+  } else {
+    // Imports naming the emitted file: "./a.js" for "./a.ts"
+    targetPath = newStem + importExtension;
+  }
+
+  const relativePath = getRelativePath(path.dirname(importerPath), targetPath);
+  if (relativePath === "") {
+    return ".";
+  }
+  return relativePath.startsWith(".") ? relativePath : `./${relativePath}`;
+}
@@ -0,0 +1,710 @@
+import * as path from "node:path";
+import ts from "typescript";
+import { type TemplateHole, quote } from "../core/quote";
+import {
+  type ParseOptions,
+  getSnippetScriptKind,
+  parseSnippet,
+} from "../helpers/parse";
+import { visitContext } from "../utils/visitContext";
+import { ParseError } from "./errors";
+import type { SymbolCheckOptions, SymbolResolver } from "./symbolResolver";
+
+/**
+ * What a pattern is parsed as; by default an expression, or statements
+ * when it isn't one
+ */
+export type PatternKind = "expression" | "statements" | "type";
+
+/**
+ * Conditions a metavariable's node must meet; for `$$$X` every node of
+ * the sequence must meet them
+ */
+export interface PatternConstraint {
+  /**
+   * Type of the node, checked with `SymbolResolver.checkType`: a name
+   * (`"Map"` also matches `Map<K, V>`, subclasses and `Map | undefined`)
+   * or a pattern tested against the printed type
+   */
+  type?: string | RegExp;
+  /** The symbol the node refers to */
+  symbol?: SymbolCheckOptions;
+  /** Syntax kind name, e.g. "StringLiteral" */
+  kind?: string;
+  /** Text of the node */
+  text?: string | RegExp;
+  /** Any other check */
+  test?: (node: ts.Node) => boolean;
+}
+
+export interface PatternOptions {
+  kind?: PatternKind;
+  /** Constraints by metavariable name, without the `$` */
+  where?: Record<string, PatternConstraint>;
+  /**
+   * Resolver for `type` and `symbol` constraints; its program should
+   * contain the file being searched
+   */
+  resolver?: SymbolResolver;
+}
+
+/**
+ * Code matched by a pattern
+ */
+export interface PatternMatch {
+  /** The matched node, or the statements of a multi-statement pattern */
+  nodes: ts.Node[];
+  /** Nodes bound to each metavariable, by name without the `$` */
+  captures: Record<string, ts.Node | ts.Node[]>;
+}
+
+/**
+ * One replacement made by `replacePattern`
+ */
+export interface PatternChange {
+  /** File the change was made in */
+  fileName: string;
+  /** 1-based line of the replaced code; undefined for synthesized code */
+  line?: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * Code with the pattern's metavariables, or a function building the
+ * replacement (as code or nodes) from a match
+ */
+export type PatternReplacement =
+  | string
+  | ((match: PatternMatch) => string | ts.Node | ts.Node[]);
+
+export interface ReplacePatternOptions extends PatternOptions {
+  /** Called for every replacement */
+  onReplace?: (change: PatternChange) => void;
+}
+
+/**
+ * Replacements made across a registry
+ */
+export interface ReplacePatternReport {
+  /** Registry paths of the changed files */
+  files: string[];
+  /** Every replacement, with `fileName` set to the registry path */
+  changes: PatternChange[];
+}
+
+/**
+ * Whether constraints check types or symbols, so need a SymbolResolver
+ */
+export const needsSymbolResolver = ({ where }: PatternOptions): boolean =>
+  Object.values(where ?? {}).some(
+    ({ type, symbol }) => type !== undefined || symbol !== undefined,
+  );
+
+type Captures = PatternMatch["captures"];
+
+interface Metavariable {
+  name: string;
+  /** `$$$X`, matching any number of nodes */
+  sequence: boolean;
+}
+
+const METAVARIABLE = /^\$(\$\$)?([A-Z_][A-Z0-9_]*)$/;
+const METAVARIABLE_IN_CODE =
+  /(?<![\w$])\$(\$\$)?([A-Z_][A-Z0-9_]*)(?![\w$])/g;
+// `$_` matches without binding, so it can stand for different nodes
+const WILDCARD = "_";
+
+function toMetavariable(node: ts.Node | undefined): Metavariable | undefined {
+  const match =
+    node && ts.isIdentifier(node) ? METAVARIABLE.exec(node.text) : null;
+  return match ? { name: match[2]!, sequence: !!match[1] } : undefined;
+}
+
+// Declarations that are nothing but a name, e.g. `$$$MEMBERS` in a class
+const isBareDeclaration = (node: ts.Node): boolean => {
+  if (
+    ts.isPropertyDeclaration(node) ||
+    ts.isPropertySignature(node) ||
+    ts.isParameter(node)
+  ) {
+    return (
+      !node.modifiers?.length &&
+      !node.questionToken &&
+      !node.type &&
+      !(node as { initializer?: ts.Node }).initializer &&
+      !(node as { dotDotDotToken?: ts.Node }).dotDotDotToken
+    );
+  }
+  return ts.isShorthandPropertyAssignment(node);
+};
+
+/**
+ * The metavariable a pattern node stands for, if any
+ */
+function getMetavariable(node: ts.Node): Metavariable | undefined {
+  if (ts.isExpressionStatement(node)) {
+    return toMetavariable(node.expression);
+  }
+  if (isBareDeclaration(node)) {
+    return toMetavariable((node as ts.NamedDeclaration).name);
+  }
+  if (ts.isTypeReferenceNode(node) && !node.typeArguments) {
+    return toMetavariable(node.typeName);
+  }
+  return toMetavariable(node);
+}
+
+// Whether a node can take the place of a metavariable's pattern node
+const fitsMetavariable = (pattern: ts.Node, node: ts.Node): boolean => {
+  if (ts.isExpressionStatement(pattern)) return ts.isStatement(node);
+  if (ts.isTypeReferenceNode(pattern)) return ts.isTypeNode(node);
+  if (ts.isParameter(pattern)) return ts.isParameter(node);
+  if (ts.isPropertyDeclaration(pattern)) return ts.isClassElement(node);
+  if (ts.isPropertySignature(pattern)) return ts.isTypeElement(node);
+  if (ts.isShorthandPropertyAssignment(pattern)) {
+    return ts.isObjectLiteralElementLike(node);
+  }
+  return true;
+};
+
+// Children of a node, with lists kept together
+const getSlots = (node: ts.Node): (ts.Node | ts.NodeArray<ts.Node>)[] => {
+  const slots: (ts.Node | ts.NodeArray<ts.Node>)[] = [];
+  ts.forEachChild(
+    node,
+    (child) => {
+      slots.push(child);
+    },
+    (children) => {
+      slots.push(children);
+    },
+  );
+  return slots;
+};
+
+// What tells two nodes of the same kind apart besides their children
+const haveSameValue = (a: ts.Node, b: ts.Node): boolean => {
+  type Leaf = { text?: unknown; operator?: unknown };
+  if ((a as Leaf).text !== (b as Leaf).text) return false;
+  if ((a as Leaf).operator !== (b as Leaf).operator) return false;
+  if (ts.isVariableDeclarationList(a)) {
+    return (a.flags & ts.NodeFlags.BlockScoped) ===
+      (b.flags & ts.NodeFlags.BlockScoped);
+  }
+  return true;
+};
+
+const printer = ts.createPrinter({ removeComments: true });
+
+const getText = (node: ts.Node, sourceFile: ts.SourceFile): string =>
+  node.pos >= 0 && node.parent
+    ? node.getText()
+    : printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
+
+/**
+ * Matches a parsed pattern against the nodes of one file
+ */
+class PatternMatcher {
+  #patterns: ts.Node[];
+  #options: PatternOptions;
+  #sourceFile: ts.SourceFile;
+
+  constructor(
+    patterns: ts.Node[],
+    options: PatternOptions,
+    sourceFile: ts.SourceFile,
+  ) {
+    this.#patterns = patterns;
+    this.#options = options;
+    this.#sourceFile = sourceFile;
+  }
+
+  /** Whether the pattern is several statements, matched within lists */
+  get isSequence(): boolean {
+    return this.#patterns.length > 1;
+  }
+
+  /**
+   * Match a single-node pattern against a node
+   */
+  match(node: ts.Node): PatternMatch | undefined {
+    const captures = this.matchNode(this.#patterns[0]!, node, {});
+    return captures && this.meetsConstraints(captures)
+      ? { nodes: [node], captures }
+      : undefined;
+  }
+
+  /**
+   * Match a multi-statement pattern against statements starting at an
+   * index
+   */
+  matchSequence(
+    statements: readonly ts.Statement[],
+    start: number,
+  ): (PatternMatch & { end: number }) | undefined {
+    let found: (PatternMatch & { end: number }) | undefined;
+    this.matchList(this.#patterns, statements, {}, false, (captures, end) => {
+      if (end > start && this.meetsConstraints(captures)) {
+        found = { nodes: statements.slice(start, end), captures, end };
+      }
+      return !!found;
+    }, start);
+    return found;
+  }
+
+  private matchNode(
+    pattern: ts.Node,
+    node: ts.Node,
+    captures: Captures,
+    literal = false,
+  ): Captures | undefined {
+    const metavariable = literal ? undefined : getMetavariable(pattern);
+    if (metavariable) {
+      return fitsMetavariable(pattern, node)
+        ? this.bind(captures, metavariable.name, node)
+        : undefined;
+    }
+
+    if (pattern.kind !== node.kind || !haveSameValue(pattern, node)) {
+      return undefined;
+    }
+    const patternSlots = getSlots(pattern);
+    const nodeSlots = getSlots(node);
+    if (patternSlots.length !== nodeSlots.length) {
+      return undefined;
+    }
+
+    let result: Captures | undefined = captures;
+    patternSlots.forEach((patternSlot, index) => {
+      const nodeSlot = nodeSlots[index]!;
+      if (!result) return;
+      if (Array.isArray(patternSlot) !== Array.isArray(nodeSlot)) {
+        result = undefined;
+      } else if (Array.isArray(patternSlot)) {
+        let matched: Captures | undefined;
+        this.matchList(
+          patternSlot,
+          nodeSlot as readonly ts.Node[],
+          result,
+          true,
+          (listCaptures) => {
+            matched = listCaptures;
+            return true;
+          },
+          0,
+          literal,
+        );
+        result = matched;
+      } else {
+        result = this.matchNode(
+          patternSlot as ts.Node,
+          nodeSlot as ts.Node,
+          result,
+          literal,
+        );
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Match pattern nodes against nodes from `start`, calling `accept` for
+   * each way they match until it returns true; anchored matches must use
+   * up all nodes
+   */
+  private matchList(
+    patterns: readonly ts.Node[],
+    nodes: readonly ts.Node[],
+    captures: Captures,
+    anchored: boolean,
+    accept: (captures: Captures, end: number) => boolean,
+    start = 0,
+    literal = false,
+  ): boolean {
+    const step = (
+      patternIndex: number,
+      nodeIndex: number,
+      current: Captures,
+    ): boolean => {
+      if (patternIndex === patterns.length) {
+        return (!anchored || nodeIndex === nodes.length)
+          ? accept(current, nodeIndex)
+          : false;
+      }
+
+      const pattern = patterns[patternIndex]!;
+      const metavariable = literal ? undefined : getMetavariable(pattern);
+      if (metavariable?.sequence) {
+        for (let end = nodeIndex; end <= nodes.length; end++) {
+          const sequence = nodes.slice(nodeIndex, end);
+          if (!sequence.every((node) => fitsMetavariable(pattern, node))) {
+            break;
+          }
+          const bound = this.bind(current, metavariable.name, sequence);
+          if (bound && step(patternIndex + 1, end, bound)) return true;
+        }
+        return false;
+      }
+
+      const node = nodes[nodeIndex];
+      const matched = node && this.matchNode(pattern, node, current, literal);
+      return !!matched && step(patternIndex + 1, nodeIndex + 1, matched);
+    };
+    return step(0, start, captures);
+  }
+
+  // Bind a metavariable; one that is bound already must match the same code
+  private bind(
+    captures: Captures,
+    name: string,
+    value: ts.Node | ts.Node[],
+  ): Captures | undefined {
+    if (name === WILDCARD) {
+      return captures;
+    }
+    const bound = captures[name];
+    if (bound === undefined) {
+      return { ...captures, [name]: value };
+    }
+
+    const boundList = Array.isArray(bound) ? bound : [bound];
+    const valueList = Array.isArray(value) ? value : [value];
+    const same =
+      boundList.length === valueList.length &&
+      boundList.every(
+        (node, index) => !!this.matchNode(node, valueList[index]!, {}, true),
+      );
+    return same ? captures : undefined;
+  }
+
+  private meetsConstraints(captures: Captures): boolean {
+    return Object.entries(this.#options.where ?? {}).every(
+      ([name, constraint]) => {
+        const bound = captures[name];
+        if (bound === undefined) return false;
+        const nodes = Array.isArray(bound) ? bound : [bound];
+        return nodes.every((node) => this.meetsConstraint(node, constraint));
+      },
+    );
+  }
+
+  private meetsConstraint(
+    node: ts.Node,
+    { type, symbol, kind, text, test }: PatternConstraint,
+  ): boolean {
+    if (kind !== undefined && ts.SyntaxKind[node.kind] !== kind) {
+      return false;
+    }
+    if (text !== undefined) {
+      const nodeText = getText(node, this.#sourceFile);
+      if (typeof text === "string" ? nodeText !== text : !text.test(nodeText)) {
+        return false;
+      }
+    }
+    if (test && !test(node)) {
+      return false;
+    }
+    if (type === undefined && symbol === undefined) {
+      return true;
+    }
+
+    const { resolver } = this.#options;
+    if (!resolver) {
+      throw new TypeError(
+        "Pattern constraints on types and symbols need a SymbolResolver",
+      );
+    }
+    const checked = this.toProgramNode(node, resolver);
+    return (
+      !!checked &&
+      (type === undefined || resolver.checkType(checked, type)) &&
+      (symbol === undefined ||
+        resolver.checkSymbol(checked, symbol, checked.getSourceFile()))
+    );
+  }
+
+  /**
+   * The node the resolver's program has for a node; the same node when
+   * the file is part of the program, otherwise the node at the same
+   * position of the program's copy of the file
+   */
+  private toProgramNode(
+    node: ts.Node,
+    resolver: SymbolResolver,
+  ): ts.Node | undefined {
+    const program = resolver.getProgram();
+    if (program.getSourceFiles().includes(this.#sourceFile)) {
+      return node;
+    }
+    const fileName = this.#sourceFile.fileName;
+    const programFile =
+      program.getSourceFile(fileName) ??
+      program.getSourceFile(path.resolve(fileName));
+    if (!programFile || node.pos < 0) {
+      return undefined;
+    }
+
+    const find = (candidate: ts.Node): ts.Node | undefined => {
+      if (
+        candidate.pos === node.pos &&
+        candidate.end === node.end &&
+        candidate.kind === node.kind
+      ) {
+        return candidate;
+      }
+      return candidate.pos <= node.pos && candidate.end >= node.end
+        ? ts.forEachChild(candidate, find)
+        : undefined;
+    };
+    return find(programFile);
+  }
+}
+
+/**
+ * Parse a pattern or replacement; patterns are expressions unless they
+ * only parse as statements
+ */
+function parsePattern(
+  code: string,
+  kind: PatternKind | undefined,
+  options: ParseOptions,
+): { kind: PatternKind; nodes: ts.Node[] } {
+  if (kind) {
+    return { kind, nodes: parseSnippet(kind, code, options) };
+  }
+  try {
+    return {
+      kind: "expression",
+      nodes: parseSnippet("expression", code, options),
+    };
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    return {
+      kind: "statements",
+      nodes: parseSnippet("statements", code, options),
+    };
+  }
+}
+
+/**
+ * Build replacement code, splicing captured nodes in for its
+ * metavariables
+ */
+function buildReplacement(
+  code: string,
+  kind: PatternKind,
+  captures: Captures,
+  options: ParseOptions,
+): ts.Node[] {
+  const strings: string[] = [];
+  const holes: TemplateHole[] = [];
+  let last = 0;
+  for (const match of code.matchAll(METAVARIABLE_IN_CODE)) {
+    const name = match[2]!;
+    const bound = captures[name];
+    if (bound === undefined) {
+      throw new TypeError(
+        `Replacement uses ${match[0]}, which the pattern doesn't bind`,
+      );
+    }
+    strings.push(code.slice(last, match.index));
+    holes.push(bound);
+    last = match.index! + match[0].length;
+  }
+  strings.push(code.slice(last));
+
+  const template = Object.assign(strings, { raw: strings });
+  return quote(kind, template as TemplateStringsArray, holes, options);
+}
+
+// Statement lists that multi-statement patterns are matched in
+type StatementContainer =
+  | ts.SourceFile
+  | ts.Block
+  | ts.ModuleBlock
+  | ts.CaseClause
+  | ts.DefaultClause;
+
+const isStatementContainer = (node: ts.Node): node is StatementContainer =>
+  ts.isSourceFile(node) ||
+  ts.isBlock(node) ||
+  ts.isModuleBlock(node) ||
+  ts.isCaseClause(node) ||
+  ts.isDefaultClause(node);
+
+/**
+ * Find code matching a pattern
+ *
+ * `$X` matches any single node (bound again, it must match the same
+ * code), `$$$X` any number of list elements such as arguments, statements
+ * or members, and `$_` any node without binding it.
+ * @param sourceFile The file to search
+ * @param pattern Code with metavariables
+ * @param options Pattern kind and metavariable constraints
+ * @returns Matches in document order; nested matches included
+ * @throws ParseError when the pattern has syntax errors
+ * @example
+ * ```ts
+ * for (const { captures } of findPattern(file.get(), "console.log($$$ARGS)")) {
+ *   console.log((captures.ARGS as ts.Node[]).length);
+ * }
+ * ```
+ */
+export function findPattern(
+  sourceFile: ts.SourceFile,
+  pattern: string,
+  options: PatternOptions = {},
+): PatternMatch[] {
+  const { nodes } = parsePattern(pattern, options.kind, {
+    scriptKind: getSnippetScriptKind(sourceFile),
+  });
+  const matcher = new PatternMatcher(nodes, options, sourceFile);
+  const matches: PatternMatch[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (matcher.isSequence && isStatementContainer(node)) {
+      for (let index = 0; index < node.statements.length; index++) {
+        const match = matcher.matchSequence(node.statements, index);
+        if (match) {
+          matches.push({ nodes: match.nodes, captures: match.captures });
+        }
+      }
+    } else if (!matcher.isSequence) {
+      const match = matcher.match(node);
+      if (match) matches.push(match);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return matches;
+}
+
+/**
+ * Replace code matching a pattern
+ *
+ * Metavariables of the pattern can be used in the replacement; `$$$X`
+ * splices its whole sequence. Matches nested inside a match (e.g. in its
+ * arguments) are replaced too. Multi-statement patterns match consecutive
+ * statements of a block.
+ * @param sourceFile The file to change
+ * @param pattern Code with metavariables, see `findPattern`
+ * @param replacement Code with the same metavariables, or a function
+ * building the replacement from a match
+ * @param options Pattern kind, constraints and a change callback
+ * @returns The updated file; the same file when nothing matched
+ * @throws ParseError when the pattern or replacement has syntax errors
+ */
+export function replacePattern(
+  sourceFile: ts.SourceFile,
+  pattern: string,
+  replacement: PatternReplacement,
+  options: ReplacePatternOptions = {},
+): ts.SourceFile {
+  const parseOptions = { scriptKind: getSnippetScriptKind(sourceFile) };
+  const { kind, nodes } = parsePattern(pattern, options.kind, parseOptions);
+  const matcher = new PatternMatcher(nodes, options, sourceFile);
+
+  const describe = (matched: ts.Node[], replaced: ts.Node[]) => {
+    const first = matched[0]!;
+    const parsed = first.pos >= 0 && first.parent;
+    const before = parsed
+      ? sourceFile.text.slice(first.getStart(), matched.at(-1)!.end)
+      : matched.map((node) => getText(node, sourceFile)).join("\n");
+    options.onReplace?.({
+      fileName: sourceFile.fileName,
+      line: parsed
+        ? first.getSourceFile().getLineAndCharacterOfPosition(first.getStart())
+            .line + 1
+        : undefined,
+      before,
+      after: replaced.map((node) => getText(node, sourceFile)).join("\n"),
+    });
+  };
+
+  const replace = (match: PatternMatch): ts.Node[] => {
+    // Replace matches inside the captured code first
+    const captures: Captures = {};
+    for (const [name, bound] of Object.entries(match.captures)) {
+      const visited = (Array.isArray(bound) ? bound : [bound]).flatMap(
+        visitAll,
+      );
+      captures[name] =
+        Array.isArray(bound) || visited.length !== 1 ? visited : visited[0]!;
+    }
+
+    const built =
+      typeof replacement === "function"
+        ? replacement({ nodes: match.nodes, captures })
+        : replacement;
+    const replaced =
+      typeof built === "string"
+        ? buildReplacement(built, kind, captures, parseOptions)
+        : Array.isArray(built)
+          ? built
+          : [built];
+    describe(match.nodes, replaced);
+    return replaced;
+  };
+
+  const replaceStatements = (
+    statements: readonly ts.Statement[],
+  ): ts.Statement[] => {
+    const result: ts.Statement[] = [];
+    for (let index = 0; index < statements.length; ) {
+      const match = matcher.matchSequence(statements, index);
+      if (match) {
+        result.push(...(replace(match) as ts.Statement[]));
+        index = match.end;
+      } else {
+        result.push(...(visitAll(statements[index]!) as ts.Statement[]));
+        index++;
+      }
+    }
+    return result;
+  };
+
+  const visitContainer = (node: StatementContainer): ts.Node => {
+    const statements = replaceStatements(node.statements);
+    if (ts.isSourceFile(node)) {
+      return ts.factory.updateSourceFile(node, statements);
+    }
+    if (ts.isBlock(node)) {
+      return ts.factory.updateBlock(node, statements);
+    }
+    if (ts.isModuleBlock(node)) {
+      return ts.factory.updateModuleBlock(node, statements);
+    }
+    if (ts.isCaseClause(node)) {
+      const expression = ts.visitNode(node.expression, visit, ts.isExpression);
+      return ts.factory.updateCaseClause(node, expression, statements);
+    }
+    return ts.factory.updateDefaultClause(node, statements);
+  };
+
+  const visit = (node: ts.Node): ts.VisitResult<ts.Node> => {
+    if (!matcher.isSequence) {
+      const match = matcher.match(node);
+      if (match) {
+        const replaced = replace(match);
+        return replaced.length === 1 ? replaced[0]! : replaced;
+      }
+    } else if (isStatementContainer(node)) {
+      return visitContainer(node);
+    }
+    return ts.visitEachChild(node, visit, visitContext);
+  };
+
+  function visitAll(node: ts.Node): ts.Node[] {
+    const visited = visit(node);
+    return visited === undefined
+      ? []
+      : Array.isArray(visited)
+        ? visited
+        : [visited as ts.Node];
+  }
+
+  return matcher.isSequence
+    ? (visitContainer(sourceFile) as ts.SourceFile)
+    : ts.visitEachChild(sourceFile, visit, visitContext);
+}
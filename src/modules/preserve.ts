@@ -0,0 +1,522 @@
+import ts from "typescript";
+import {
+  type TextEdit,
+  applyTextEdits,
+  normalizeTextEdits,
+} from "../utils/textEdit";
+
+// Node flags that change how a node is printed (`let` vs `const`, ...)
+const SIGNIFICANT_FLAGS =
+  ts.NodeFlags.Let |
+  ts.NodeFlags.Const |
+  ts.NodeFlags.Using |
+  ts.NodeFlags.Namespace |
+  ts.NodeFlags.NestedNamespace |
+  ts.NodeFlags.GlobalAugmentation |
+  ts.NodeFlags.OptionalChain;
+
+// Bookkeeping properties that don't affect the printed code
+const IGNORED_PROPERTIES = new Set([
+  "pos",
+  "end",
+  "kind",
+  "flags",
+  "id",
+  "transformFlags",
+  "modifierFlagsCache",
+  "multiLine",
+]);
+
+// Flags and names like `isTypeOnly` or `operator`, but not child nodes
+const isPrimitive = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  typeof value !== "object" &&
+  typeof value !== "function";
+
+/**
+ * Whether two nodes of the same kind differ only in their children
+ */
+function hasSameProperties(node: ts.Node, original: ts.Node): boolean {
+  if ((node.flags ^ original.flags) & SIGNIFICANT_FLAGS) {
+    return false;
+  }
+  const a = node as unknown as Record<string, unknown>;
+  const b = original as unknown as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (IGNORED_PROPERTIES.has(key)) continue;
+    if (!isPrimitive(a[key]) && !isPrimitive(b[key])) continue;
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+}
+
+type ChildSlot = ts.Node | ts.NodeArray<ts.Node>;
+
+// Child nodes and node arrays by property name, e.g. "name" or "members"
+const getChildSlots = (node: ts.Node): Map<string, ChildSlot> => {
+  const children = new Set<ChildSlot>();
+  ts.forEachChild(
+    node,
+    (child) => {
+      children.add(child);
+    },
+    (list) => {
+      children.add(list);
+    },
+  );
+
+  const slots = new Map<string, ChildSlot>();
+  for (const [key, value] of Object.entries(node)) {
+    if (children.has(value)) {
+      slots.set(key, value);
+    }
+  }
+  return slots;
+};
+
+const isNodeArray = (slot: ChildSlot): slot is ts.NodeArray<ts.Node> =>
+  Array.isArray(slot);
+
+// Lists whose elements go on their own lines, without separators
+const isBlockList = (parent: ts.Node, list: ts.NodeArray<ts.Node>) =>
+  ((ts.isSourceFile(parent) ||
+    ts.isBlock(parent) ||
+    ts.isModuleBlock(parent) ||
+    ts.isCaseOrDefaultClause(parent)) &&
+    parent.statements === list) ||
+  ((ts.isClassLike(parent) || ts.isInterfaceDeclaration(parent)) &&
+    parent.members === list);
+
+// Whether the printed node contains line breaks inside string content
+const hasMultilineTemplate = (node: ts.Node): boolean =>
+  ((ts.isNoSubstitutionTemplateLiteral(node) ||
+    ts.isTemplateHead(node) ||
+    ts.isTemplateMiddle(node) ||
+    ts.isTemplateTail(node)) &&
+    node.text.includes("\n")) ||
+  !!ts.forEachChild(node, hasMultilineTemplate);
+
+/**
+ * Detect the file's indentation unit, defaulting to four spaces
+ */
+function detectIndentUnit(text: string): string {
+  let unit: string | undefined;
+  for (const line of text.split("\n")) {
+    const indent = /^[ \t]+(?=[^\s*])/.exec(line)?.[0];
+    if (!indent) continue;
+    if (indent.startsWith("\t")) return "\t";
+    if (!unit || indent.length < unit.length) {
+      unit = indent;
+    }
+  }
+  return unit ?? "    ";
+}
+
+export interface PreservingPrintOptions {
+  /** Printer for re-emitted nodes */
+  printer?: ts.Printer;
+  /** Transform applied to nodes before they are printed */
+  prepare?: (node: ts.Node) => ts.Node;
+}
+
+const createDefaultPrinter = () =>
+  ts.createPrinter({
+    newLine: ts.NewLineKind.LineFeed,
+    removeComments: false,
+  });
+
+/**
+ * Computes text edits that turn the original text into the printed form
+ * of the current AST while keeping untouched nodes verbatim
+ */
+class SourcePreservingPrinter {
+  #sourceFile: ts.SourceFile;
+  #text: string;
+  #indentUnit: string;
+  #originals = new Set<ts.Node>();
+  #printer: ts.Printer;
+  #prepare: (node: ts.Node) => ts.Node;
+
+  constructor(sourceFile: ts.SourceFile, options: PreservingPrintOptions) {
+    this.#sourceFile = sourceFile;
+    this.#printer = options.printer ?? createDefaultPrinter();
+    this.#prepare = options.prepare ?? ((node) => node);
+    this.#text = sourceFile.text;
+    this.#indentUnit = detectIndentUnit(sourceFile.text);
+
+    const visit = (node: ts.Node) => {
+      if (node.pos < 0) return;
+      this.#originals.add(node);
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+  }
+
+  /**
+   * Edits for the whole file, or undefined when it has to be reprinted
+   */
+  getFileEdits(current: ts.SourceFile): TextEdit[] | undefined {
+    if (current === this.#sourceFile) return [];
+    if (this.#sourceFile.statements.length === 0) return undefined;
+    return this.reconcileList(
+      current.statements,
+      this.#sourceFile.statements,
+      this.#sourceFile,
+    );
+  }
+
+  // The parsed node a node was created from through factory updates
+  private findOriginal(node: ts.Node): ts.Node | undefined {
+    const original = ts.getOriginalNode(node);
+    return this.#originals.has(original) ? original : undefined;
+  }
+
+  private reconcileNode(
+    node: ts.Node,
+    original: ts.Node,
+  ): TextEdit[] | undefined {
+    if (node === original) return [];
+    if (node.kind !== original.kind || !hasSameProperties(node, original)) {
+      return undefined;
+    }
+
+    const slots = getChildSlots(node);
+    const originalSlots = getChildSlots(original);
+    const edits: TextEdit[] = [];
+
+    for (const key of new Set([...slots.keys(), ...originalSlots.keys()])) {
+      const slot = slots.get(key);
+      const originalSlot = originalSlots.get(key);
+      if (key === "modifiers") {
+        edits.push(
+          ...this.reconcileModifiers(
+            (slot ?? []) as readonly ts.Node[],
+            (originalSlot ?? []) as readonly ts.Node[],
+            original,
+          ),
+        );
+        continue;
+      }
+      // An optional child was added or removed
+      if (!slot || !originalSlot) return undefined;
+      if (isNodeArray(slot) !== isNodeArray(originalSlot)) return undefined;
+
+      const slotEdits = isNodeArray(slot)
+        ? this.reconcileList(
+            slot,
+            originalSlot as ts.NodeArray<ts.Node>,
+            original,
+          )
+        : this.reconcileChild(slot, originalSlot as ts.Node);
+      if (!slotEdits) return undefined;
+      edits.push(...slotEdits);
+    }
+    return edits;
+  }
+
+  private reconcileChild(node: ts.Node, original: ts.Node): TextEdit[] {
+    if (node === original) return [];
+    const edits =
+      this.findOriginal(node) === original
+        ? this.reconcileNode(node, original)
+        : undefined;
+    return edits ?? [this.replace(original, node)];
+  }
+
+  private reconcileList(
+    list: ts.NodeArray<ts.Node>,
+    original: ts.NodeArray<ts.Node>,
+    parent: ts.Node,
+  ): TextEdit[] | undefined {
+    if (list === original) return [];
+    if (isBlockList(parent, original)) {
+      return this.reconcileBlockList(list, original, parent);
+    }
+    if (list.length !== original.length) return undefined;
+
+    const edits: TextEdit[] = [];
+    for (const [index, node] of list.entries()) {
+      edits.push(...this.reconcileChild(node, original[index]!));
+    }
+    return edits;
+  }
+
+  /**
+   * Statements and members: keep every original element that is still
+   * there in the same order, insert new ones between them on their own
+   * lines and remove the rest
+   */
+  private reconcileBlockList(
+    list: ts.NodeArray<ts.Node>,
+    original: ts.NodeArray<ts.Node>,
+    parent: ts.Node,
+  ): TextEdit[] | undefined {
+    if (original.length === 0) {
+      return this.fillEmptyBlockList(list, original, parent);
+    }
+
+    const indexes = new Map(original.map((node, index) => [node, index]));
+    const indent = this.getIndent(original[0]!.getStart(this.#sourceFile));
+    const edits: TextEdit[] = [];
+    const kept = new Set<ts.Node>();
+    let pending: ts.Node[] = [];
+    let previous: ts.Node | undefined;
+    let lastIndex = -1;
+
+    const insertPending = (before?: ts.Node) => {
+      if (pending.length === 0) return;
+      const texts = pending.map((node) => this.render(node, indent));
+      if (previous) {
+        const start = this.getEndWithComments(previous);
+        edits.push({
+          start,
+          end: start,
+          text: texts.map((text) => `\n${indent}${text}`).join(""),
+        });
+      } else {
+        const start = this.getStartWithComments(before ?? original[0]!, parent);
+        edits.push({
+          start,
+          end: start,
+          text: texts.map((text) => `${text}\n${indent}`).join(""),
+        });
+      }
+      pending = [];
+    };
+
+    for (const node of list) {
+      const match = this.findOriginal(node);
+      const index = match ? indexes.get(match) : undefined;
+      if (index === undefined || index <= lastIndex) {
+        pending.push(node);
+        continue;
+      }
+
+      insertPending(match);
+      edits.push(...this.reconcileChild(node, match!));
+      kept.add(match!);
+      previous = match;
+      lastIndex = index;
+    }
+    insertPending();
+
+    for (const [index, node] of original.entries()) {
+      if (!kept.has(node)) {
+        edits.push(this.remove(node, index === 0));
+      }
+    }
+
+    return edits;
+  }
+
+  // `{}` -> `{ ...new elements on their own lines }`
+  private fillEmptyBlockList(
+    list: ts.NodeArray<ts.Node>,
+    original: ts.NodeArray<ts.Node>,
+    parent: ts.Node,
+  ): TextEdit[] | undefined {
+    if (list.length === 0) return [];
+    if (ts.isSourceFile(parent) || ts.isCaseOrDefaultClause(parent)) {
+      return undefined;
+    }
+
+    const indent = this.getIndent(parent.getStart(this.#sourceFile));
+    const innerIndent = indent + this.#indentUnit;
+    const texts = list.map(
+      (node) => `\n${innerIndent}${this.render(node, innerIndent)}`,
+    );
+    // Up to the closing brace
+    return [
+      {
+        start: original.pos,
+        end: parent.end - 1,
+        text: `${texts.join("")}\n${indent}`,
+      },
+    ];
+  }
+
+  // Modifiers and decorators, which may be missing on either side
+  private reconcileModifiers(
+    list: readonly ts.Node[],
+    original: readonly ts.Node[],
+    parent: ts.Node,
+  ): TextEdit[] {
+    if (list === original) return [];
+    if (
+      list.length === original.length &&
+      list.every((node, index) => node.kind === original[index]!.kind)
+    ) {
+      return list.flatMap((node, index) =>
+        this.reconcileChild(node, original[index]!),
+      );
+    }
+
+    const indent = this.getIndent(parent.getStart(this.#sourceFile));
+    const text = list
+      .map((node) =>
+        ts.isDecorator(node)
+          ? `${this.render(node, indent)}\n${indent}`
+          : `${this.render(node, indent)} `,
+      )
+      .join("");
+
+    if (original.length === 0) {
+      const start = parent.getStart(this.#sourceFile);
+      return [{ start, end: start, text }];
+    }
+
+    // Replace up to the token after the last modifier
+    const start = original[0]!.getStart(this.#sourceFile);
+    const end = this.skipWhitespace(original.at(-1)!.end);
+    return [{ start, end, text }];
+  }
+
+  private replace(original: ts.Node, node: ts.Node): TextEdit {
+    const start = original.getStart(this.#sourceFile);
+    return {
+      start,
+      end: original.end,
+      text: this.render(node, this.getIndent(start)),
+    };
+  }
+
+  // Removes a node with its leading comments and line break
+  private remove(node: ts.Node, isFirst: boolean): TextEdit {
+    const end = this.getEndWithComments(node);
+    if (!isFirst) {
+      return { start: node.pos, end, text: "" };
+    }
+    // Keep file headers; drop the line break before the next element
+    return {
+      start: node.getStart(this.#sourceFile),
+      end: this.skipWhitespace(end),
+      text: "",
+    };
+  }
+
+  // Start of a node including its leading comments, except for file
+  // headers in front of the first statement
+  private getStartWithComments(node: ts.Node, parent: ts.Node): number {
+    if (ts.isSourceFile(parent)) return node.getStart(this.#sourceFile);
+    const comments = ts.getLeadingCommentRanges(this.#text, node.pos);
+    return comments?.[0]?.pos ?? node.getStart(this.#sourceFile);
+  }
+
+  // End of a node including comments after it on the same line
+  private getEndWithComments(node: ts.Node): number {
+    const comments = ts.getTrailingCommentRanges(this.#text, node.end);
+    return comments?.at(-1)?.end ?? node.end;
+  }
+
+  private skipWhitespace(position: number): number {
+    while (/\s/.test(this.#text[position] ?? "")) {
+      position++;
+    }
+    return position;
+  }
+
+  private render(node: ts.Node, indent: string): string {
+    if (this.#originals.has(node)) {
+      // A node moved from elsewhere in the file
+      return this.#text.slice(
+        node.getStart(this.#sourceFile),
+        this.getEndWithComments(node),
+      );
+    }
+
+    // Nodes parsed from another text, e.g. a statement given as a string
+    const sourceFile =
+      node.pos >= 0 && node.parent ? node.getSourceFile() : this.#sourceFile;
+    // Comments around a replaced node stay in the original text
+    const prepared = this.#prepare(node);
+    const commentRange = ts.getCommentRange(prepared);
+    ts.setCommentRange(prepared, { pos: -1, end: -1 });
+    const printed = this.#printer.printNode(
+      ts.EmitHint.Unspecified,
+      prepared,
+      sourceFile,
+    );
+    ts.setCommentRange(prepared, commentRange);
+    if (hasMultilineTemplate(node)) return printed;
+
+    return printed
+      .split("\n")
+      .map((line, index) => {
+        if (index === 0 || line === "") return line;
+        const depth = /^(?: {4})*/.exec(line)![0].length / 4;
+        return indent + this.#indentUnit.repeat(depth) + line.slice(depth * 4);
+      })
+      .join("\n");
+  }
+
+  // Leading whitespace of the line a position is on
+  private getIndent(position: number): string {
+    const lineStart = this.#text.lastIndexOf("\n", position - 1) + 1;
+    return /^[ \t]*/.exec(this.#text.slice(lineStart, position))![0];
+  }
+}
+
+/**
+ * Edits on the original text that produce the current AST, keeping
+ * untouched nodes verbatim; see `printPreservingSource`
+ * @param original The source file as parsed from its text
+ * @param current The current AST, derived from `original`
+ * @param options Printer for the re-emitted nodes
+ * @returns Sorted, non-overlapping edits; a single edit replacing the whole
+ * text when the file can't be patched
+ */
+export function getPreservingTextEdits(
+  original: ts.SourceFile,
+  current: ts.SourceFile,
+  options: PreservingPrintOptions = {},
+): TextEdit[] {
+  const edits = new SourcePreservingPrinter(original, options).getFileEdits(
+    current,
+  );
+  if (edits) {
+    return normalizeTextEdits(edits).filter(
+      (edit) => edit.text !== original.text.slice(edit.start, edit.end),
+    );
+  }
+
+  const printer = options.printer ?? createDefaultPrinter();
+  const prepared = options.prepare?.(current) ?? current;
+  return [
+    {
+      start: 0,
+      end: original.text.length,
+      text: printer.printFile(prepared as ts.SourceFile),
+    },
+  ];
+}
+
+/**
+ * Print a file by patching the text it was parsed from, so code that wasn't
+ * touched keeps its blank lines, quotes, trailing commas and comments
+ *
+ * Untouched nodes are recognized by identity: nodes of `original` that are
+ * still part of `current`, or were updated from one through
+ * `ts.factory.update*`, are patched in place. Everything else is printed
+ * with the TypeScript printer and indented like its surroundings.
+ * @param original The source file as parsed from its text
+ * @param current The current AST, derived from `original`
+ * @param options Printer for the re-emitted nodes
+ * @returns The patched text
+ * @example
+ * ```ts
+ * const file = fileFromPath("src/user.ts");
+ * file.addImport({ moduleSpecifier: "./base", namedImports: ["Base"] });
+ * await file.print({ preserveSource: true }); // only the import is new
+ * ```
+ */
+export function printPreservingSource(
+  original: ts.SourceFile,
+  current: ts.SourceFile,
+  options: PreservingPrintOptions = {},
+): string {
+  return applyTextEdits(
+    original.text,
+    getPreservingTextEdits(original, current, options),
+  );
+}
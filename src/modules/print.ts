@@ -1,17 +1,217 @@
-import { Biome, Distribution } from "@biomejs/js-api";
 import ts from "typescript";
+import { createLineEdits } from "../utils/diff";
+import {
+  type SourceMap,
+  type TextEdit,
+  applyTextEdits,
+  createSourceMap,
+} from "../utils/textEdit";
+import { getFormattingEdits } from "../utils/tsFormat";
+import {
+  type Formatter,
+  biomeFormatter,
+  getFormatCodeSettings,
+} from "./format";
+import { PrintError } from "./errors";
+import { type LoggingOptions, consoleLogger, reportError } from "./logger";
+import { getPreservingTextEdits, printPreservingSource } from "./preserve";
 
-export interface PostprocessOptions {
+export type { SourceMap, TextEdit } from "../utils/textEdit";
+
+export interface PrintOptions extends LoggingOptions {
+  /** Line endings (default: "lf") */
+  newLine?: "lf" | "crlf";
+  /** Quotes of generated string literals (default: "double") */
+  quote?: "double" | "single";
+  /** End statements with semicolons (default: true) */
+  semicolons?: boolean;
+  /** Spaces per indentation level, or "tab" (default: 4) */
+  indent?: number | "tab";
+  /** Trailing commas in multi-line object and array literals */
+  trailingCommas?: boolean;
+  /** Drop all comments */
+  removeComments?: boolean;
+  /**
+   * Formatter run on the printed code, e.g. `biomeFormatter()`,
+   * `typescriptFormatter()` or your own function
+   */
+  formatter?: Formatter;
+  /** Shorthand for `formatter: biomeFormatter({ projectDir })` */
   biome?: { projectDir: string };
+  /**
+   * Patch the original text instead of reprinting the whole file, keeping
+   * untouched code verbatim. Layout options then only apply to re-emitted
+   * nodes, which are indented like their surroundings. Needs the original
+   * source file
+   */
+  preserveSource?: boolean;
+}
+
+// Former name of PrintOptions
+export type PostprocessOptions = PrintOptions;
+
+const createPrinter = (options: PrintOptions) =>
+  ts.createPrinter({
+    newLine:
+      options.newLine === "crlf"
+        ? ts.NewLineKind.CarriageReturnLineFeed
+        : ts.NewLineKind.LineFeed,
+    removeComments: options.removeComments ?? false,
+    omitTrailingSemicolon: false,
+  });
+
+/**
+ * Apply the quote and trailing comma options to an AST before printing
+ */
+function applySyntaxOptions<T extends ts.Node>(
+  node: T,
+  options: PrintOptions,
+): T {
+  const { quote, trailingCommas } = options;
+  if (quote !== "single" && trailingCommas === undefined) return node;
+
+  const transformer: ts.TransformerFactory<ts.Node> = (context) => {
+    const { factory } = context;
+    const visit = (child: ts.Node): ts.Node => {
+      const visited = ts.visitEachChild(child, visit, context);
+
+      // Parsed literals keep the quotes they were written with
+      if (quote === "single" && ts.isStringLiteral(visited) && child.pos < 0) {
+        return factory.createStringLiteral(visited.text, true);
+      }
+
+      if (trailingCommas === undefined) return visited;
+      // Only multi-line literals get a trailing comma
+      const hasTrailingComma =
+        trailingCommas && !!(visited as { multiLine?: boolean }).multiLine;
+
+      if (
+        ts.isObjectLiteralExpression(visited) &&
+        visited.properties.length > 0 &&
+        visited.properties.hasTrailingComma !== hasTrailingComma
+      ) {
+        return factory.updateObjectLiteralExpression(
+          visited,
+          factory.createNodeArray(visited.properties, hasTrailingComma),
+        );
+      }
+      if (
+        ts.isArrayLiteralExpression(visited) &&
+        visited.elements.length > 0 &&
+        visited.elements.hasTrailingComma !== hasTrailingComma
+      ) {
+        return factory.updateArrayLiteralExpression(
+          visited,
+          factory.createNodeArray(visited.elements, hasTrailingComma),
+        );
+      }
+      return visited;
+    };
+    return (root) => ts.visitNode(root, visit)!;
+  };
+
+  const result = ts.transform<ts.Node>(node, [transformer]);
+  return result.transformed[0] as T;
+}
+
+/**
+ * Apply the indentation and semicolon options to printed code, using only
+ * those edits of the TypeScript formatter
+ */
+function applyLayoutOptions(
+  text: string,
+  fileName: string,
+  options: PrintOptions,
+): string {
+  const indent = options.indent ?? 4;
+  if (indent === 4 && options.semicolons !== false) return text;
+
+  const edits = getFormattingEdits(
+    text,
+    fileName,
+    getFormatCodeSettings(options),
+  ).filter(({ span, newText }) => {
+    const replaced = text.slice(span.start, span.start + span.length);
+    const isIndentation =
+      (span.start === 0 || text[span.start - 1] === "\n") &&
+      /^[ \t]*$/.test(replaced) &&
+      /^[ \t]*$/.test(newText);
+    return isIndentation || (replaced === ";" && newText === "");
+  });
+
+  return applyTextEdits(
+    text,
+    edits.map(({ span, newText }) => ({
+      start: span.start,
+      end: span.start + span.length,
+      text: newText,
+    })),
+  );
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// The formatter to run after printing, if any
+const getFormatter = (options: PrintOptions): Formatter | undefined =>
+  options.formatter ??
+  (options.biome ? biomeFormatter(options.biome) : undefined);
+
+/**
+ * Print a source file without running a formatter
+ * @param sourceFile The source file to print
+ * @param options Layout options; `formatter` and `biome` are ignored
+ * @param original The source file as parsed, for `preserveSource`
+ */
+export function printSync(
+  sourceFile: ts.SourceFile,
+  options: PrintOptions = {},
+  original?: ts.SourceFile,
+): string {
+  const printer = createPrinter(options);
+  if (options.preserveSource && original) {
+    return printPreservingSource(original, sourceFile, {
+      printer,
+      prepare: (node) => applySyntaxOptions(node, options),
+    });
+  }
+  return applyLayoutOptions(
+    printer.printFile(applySyntaxOptions(sourceFile, options)),
+    sourceFile.fileName,
+    options,
+  );
 }
 
 /**
  * Print TypeScript source file to a string with good formatting defaults
+ *
+ * Problems are reported to `options.logger`; unless `options.strict` is
+ * set, printing then falls back to printing statement by statement, and
+ * formatter failures return the unformatted code.
+ * @param sourceFile The source file to print
+ * @param options Layout, formatter and logging options
+ * @param original The source file as parsed, for `preserveSource`
+ * @throws PrintError in strict mode, when the file can't be printed or
+ * formatted
+ * @example
+ * ```ts
+ * await print(sourceFile, {
+ *   quote: "single",
+ *   indent: 2,
+ *   semicolons: false,
+ *   formatter: typescriptFormatter(),
+ * });
+ * ```
  */
 export async function print(
   sourceFile: ts.SourceFile,
-  postprocess?: PostprocessOptions,
+  options: PrintOptions = {},
+  original?: ts.SourceFile,
 ): Promise<string> {
+  const log = options.logger ?? consoleLogger();
+  const fileName = sourceFile?.fileName || "unknown.ts";
+  const warn = (message: string) => log({ level: "warn", message, fileName });
+
   try {
     // Validate source file before printing
     if (!sourceFile) {
@@ -24,24 +224,27 @@ export async function print(
     }
 
     if (!sourceFile.statements) {
-      console.warn("Source file has no statements array, creating empty array");
+      warn("Source file has no statements array, creating empty array");
       (sourceFile as any).statements = [];
     }
 
     // Check for corrupted fileName
     if (sourceFile.fileName && sourceFile.fileName.length > 500) {
-      console.warn(`Source file has suspiciously long fileName: ${sourceFile.fileName.substring(0, 100)}...`);
+      warn(
+        "Source file has suspiciously long fileName: " +
+          `${sourceFile.fileName.substring(0, 100)}...`,
+      );
       (sourceFile as any).fileName = "corrupted-filename.ts";
     }
 
     // Validate that this looks like a proper source file
     if (typeof sourceFile.kind !== 'undefined' && sourceFile.kind !== ts.SyntaxKind.SourceFile) {
-      console.warn(`Source file has unexpected kind: ${sourceFile.kind}`);
+      warn(`Source file has unexpected kind: ${sourceFile.kind}`);
     }
 
     // Check if the source file has the required structure for printing
     if (!sourceFile.hasOwnProperty('kind')) {
-      console.warn("Source file missing 'kind' property, attempting to reconstruct");
+      warn("Source file missing 'kind' property, attempting to reconstruct");
       (sourceFile as any).kind = ts.SyntaxKind.SourceFile;
     }
 
@@ -50,89 +253,186 @@ export async function print(
       (sourceFile as any).languageVersion = ts.ScriptTarget.Latest;
     }
 
-    const printer = ts.createPrinter({
-      newLine: ts.NewLineKind.LineFeed,
-      removeComments: false,
-      omitTrailingSemicolon: false,
-    });
-
     let result: string;
 
     try {
-      result = printer.printFile(sourceFile);
+      result = printSync(sourceFile, options, original);
     } catch (printError) {
-      console.error("Primary print method failed, attempting alternative approach:", printError);
+      reportError(
+        options,
+        new PrintError(
+          `Unable to print source file: ${getErrorMessage(printError)}`,
+          fileName,
+          { cause: printError },
+        ),
+      );
 
       // Fallback: try to print individual statements
       if (sourceFile.statements && sourceFile.statements.length > 0) {
-        try {
-          const statementsText = sourceFile.statements
-            .map(stmt => printer.printNode(ts.EmitHint.Unspecified, stmt, sourceFile))
-            .join('\n');
-          result = statementsText;
-          console.log("Successfully printed using statement-by-statement approach");
-        } catch (statementError) {
-          console.error("Statement-by-statement printing also failed:", statementError);
-          const errorMessage = printError instanceof Error ? printError.message : String(printError);
-          throw new Error(`Unable to print source file: ${errorMessage}`);
-        }
+        const printer = createPrinter(options);
+        result = sourceFile.statements
+          .map((stmt) =>
+            printer.printNode(ts.EmitHint.Unspecified, stmt, sourceFile),
+          )
+          .join('\n');
+        log({
+          level: "info",
+          message: "Printed statement by statement instead",
+          fileName,
+        });
       } else {
-        console.warn("Source file has no statements to print");
+        warn("Source file has no statements to print");
         result = "";
       }
     }
 
-    if (postprocess?.biome && result.length > 0) {
+    const formatter = getFormatter(options);
+    if (formatter && result.length > 0) {
       try {
-        const biome = await Biome.create({ distribution: Distribution.NODE });
-        const { projectKey } = await biome.openProject(
-          postprocess.biome.projectDir,
-        );
-
-        const formatted = await biome.formatContent(projectKey, result, {
-          filePath: sourceFile.fileName,
+        return await formatter(result, {
+          fileName: sourceFile.fileName,
+          options,
         });
-
-        return formatted.content;
-      } catch (biomeError) {
-        console.warn("Biome formatting failed, returning unformatted content:", biomeError);
+      } catch (formatError) {
+        reportError(
+          options,
+          new PrintError(
+            `Formatting failed: ${getErrorMessage(formatError)}`,
+            fileName,
+            { cause: formatError },
+          ),
+        );
         return result;
       }
     }
 
     return result;
   } catch (error) {
-    console.error("Error printing source file:", error);
-    console.error("Source file properties:", {
-      fileName: sourceFile?.fileName,
-      hasStatements: !!sourceFile?.statements,
-      statementsLength: sourceFile?.statements?.length,
-      isDeclarationFile: sourceFile?.isDeclarationFile,
-      kind: sourceFile?.kind,
-      languageVersion: sourceFile?.languageVersion
+    if (options.strict) {
+      throw error instanceof PrintError
+        ? error
+        : new PrintError(
+            `Unable to print source file: ${getErrorMessage(error)}`,
+            fileName,
+            { cause: error },
+          );
+    }
+    log({
+      level: "error",
+      message: "Error printing source file",
+      fileName,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    log({
+      level: "debug",
+      message: `Source file properties: ${JSON.stringify({
+        hasStatements: !!sourceFile?.statements,
+        statementsLength: sourceFile?.statements?.length,
+        isDeclarationFile: sourceFile?.isDeclarationFile,
+        kind: sourceFile?.kind,
+        languageVersion: sourceFile?.languageVersion,
+      })}`,
+      fileName,
     });
 
     // Last resort fallback
     if (sourceFile?.statements && sourceFile.statements.length > 0) {
-      try {
-        // Try to manually construct basic content
-        const printer = ts.createPrinter();
-        const content = sourceFile.statements
-          .map(stmt => {
-            try {
-              return printer.printNode(ts.EmitHint.Unspecified, stmt, sourceFile);
-            } catch {
-              return "// Failed to print statement";
-            }
-          })
-          .join('\n');
-        console.log("Used emergency fallback printing method");
-        return content;
-      } catch (fallbackError) {
-        console.error("Emergency fallback also failed:", fallbackError);
-      }
+      // Try to manually construct basic content
+      const printer = ts.createPrinter();
+      const content = sourceFile.statements
+        .map(stmt => {
+          try {
+            return printer.printNode(ts.EmitHint.Unspecified, stmt, sourceFile);
+          } catch {
+            return "// Failed to print statement";
+          }
+        })
+        .join('\n');
+      log({
+        level: "info",
+        message: "Used emergency fallback printing method",
+        fileName,
+      });
+      return content;
     }
 
     return "// Error: Could not print source file content";
   }
 }
+
+/**
+ * A printed file described relative to the text it was parsed from
+ */
+export interface PrintResult {
+  text: string;
+  /** Edits on the original text that produce `text` */
+  edits: TextEdit[];
+  /** Maps positions in `text` back to the original text */
+  sourceMap: SourceMap;
+}
+
+/**
+ * Print a source file and compute the edits and source map that lead from
+ * its original text to the result
+ *
+ * With `preserveSource` (and no formatter) the edits are exactly the
+ * re-emitted nodes; otherwise they are the changed lines.
+ * @param sourceFile The source file to print
+ * @param options Layout and formatter options
+ * @param original The source file as parsed, defaults to `sourceFile`
+ */
+export async function printWithEdits(
+  sourceFile: ts.SourceFile,
+  options: PrintOptions = {},
+  original: ts.SourceFile = sourceFile,
+): Promise<PrintResult> {
+  const edits =
+    options.preserveSource && !getFormatter(options)
+      ? getPreservingTextEdits(original, sourceFile, {
+          printer: createPrinter(options),
+          prepare: (node) => applySyntaxOptions(node, options),
+        })
+      : createLineEdits(
+          original.text,
+          await print(sourceFile, options, original),
+        );
+
+  return toPrintResult(sourceFile, original, edits);
+}
+
+/**
+ * Print a source file without running a formatter, and compute the edits
+ * and source map that lead from its original text to the result
+ * @see printWithEdits
+ */
+export function printWithEditsSync(
+  sourceFile: ts.SourceFile,
+  options: Omit<PrintOptions, "formatter" | "biome"> = {},
+  original: ts.SourceFile = sourceFile,
+): PrintResult {
+  const edits = options.preserveSource
+    ? getPreservingTextEdits(original, sourceFile, {
+        printer: createPrinter(options),
+        prepare: (node) => applySyntaxOptions(node, options),
+      })
+    : createLineEdits(original.text, printSync(sourceFile, options));
+  return toPrintResult(sourceFile, original, edits);
+}
+
+// The print result of edits on the original text
+function toPrintResult(
+  sourceFile: ts.SourceFile,
+  original: ts.SourceFile,
+  edits: TextEdit[],
+): PrintResult {
+  return {
+    text: applyTextEdits(original.text, edits),
+    edits,
+    sourceMap: createSourceMap(
+      original.text,
+      edits,
+      sourceFile.fileName,
+      original.fileName,
+    ),
+  };
+}
@@ -1,6 +1,9 @@
 import * as path from "node:path";
 import ts from "typescript";
 import { type BuildableAST, buildFluentApi } from "../utils/buildFluentApi";
+import { type FileSystem, createCompilerHost } from "./fs";
+import { normalizePath } from "./pathUtils";
+import type { SourceFileRegistry } from "./registry";
 import { type SymbolResolver, symbolResolver } from "./symbolResolver";
 
 /**
@@ -13,8 +16,84 @@ export interface ProgramOptions {
   rootNames?: string[];
   /** Custom compiler host */
   host?: ts.CompilerHost;
+  /** File system to read sources from when no `host` is given */
+  fileSystem?: FileSystem;
   /** Existing TypeScript program to adopt */
   program?: ts.Program;
+  /**
+   * Serve the registry's files through a language service; `refresh()`
+   * then picks up edits made through their FileBuilders
+   */
+  registry?: SourceFileRegistry;
+  /**
+   * Hand the type-checked ASTs back to the registry's files, so nodes
+   * found through them can be passed to the checker (default: true); when
+   * false, the files keep their own ASTs
+   */
+  shareAsts?: boolean;
+}
+
+/**
+ * Printed state of a registry file as seen by the language service
+ */
+interface RegistryScript {
+  /** AST the text was printed from */
+  source: ts.SourceFile;
+  text: string;
+  version: number;
+}
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  skipLibCheck: true,
+  skipDefaultLibCheck: true,
+  strict: false,
+};
+
+/**
+ * Language service host serving registry files from memory and
+ * everything else from the file system
+ */
+function createRegistryHost(
+  scripts: Map<string, RegistryScript>,
+  compilerOptions: ts.CompilerOptions,
+  fileSystem: FileSystem,
+): ts.LanguageServiceHost {
+  const compilerHost = createCompilerHost(fileSystem, compilerOptions);
+  const toFileName = (fileName: string) =>
+    normalizePath(
+      path.resolve(compilerHost.getCurrentDirectory(), fileName),
+    );
+  const readFile = (fileName: string) =>
+    scripts.get(toFileName(fileName))?.text ?? compilerHost.readFile(fileName);
+
+  return {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [...scripts.keys()],
+    getScriptVersion: (fileName) =>
+      String(scripts.get(toFileName(fileName))?.version ?? 0),
+    getScriptSnapshot: (fileName) => {
+      const text = readFile(fileName);
+      return text === undefined
+        ? undefined
+        : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => compilerHost.getCurrentDirectory(),
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    readFile,
+    fileExists: (fileName) =>
+      scripts.has(toFileName(fileName)) || compilerHost.fileExists(fileName),
+    directoryExists: (dirPath) => {
+      const prefix = `${toFileName(dirPath)}/`;
+      return (
+        [...scripts.keys()].some((fileName) => fileName.startsWith(prefix)) ||
+        (compilerHost.directoryExists?.(dirPath) ?? false)
+      );
+    },
+    getDirectories: (dirPath) => compilerHost.getDirectories?.(dirPath) ?? [],
+  };
 }
 
 /**
@@ -22,30 +101,130 @@ export interface ProgramOptions {
  */
 export class ProgramBuilder implements BuildableAST {
   #program: ts.Program;
+  #host?: ts.CompilerHost;
   #lazySymbolResolver: SymbolResolver | null = null;
+  // Incremental mode
+  #registry?: SourceFileRegistry;
+  #languageService?: ts.LanguageService;
+  #scripts = new Map<string, RegistryScript>();
+  #currentDirectory = "";
+  #shareAsts = true;
 
   constructor(options: ProgramOptions = {}) {
     if (options.program) {
       // Use the provided program as-is
       this.#program = options.program;
+    } else if (options.registry) {
+      // Serve registry files through a language service
+      const compilerOptions =
+        options.compilerOptions ?? DEFAULT_COMPILER_OPTIONS;
+      const fileSystem =
+        options.fileSystem ?? options.registry.getFileSystem();
+
+      this.#registry = options.registry;
+      this.#shareAsts = options.shareAsts ?? true;
+      this.#currentDirectory = fileSystem.getCurrentDirectory();
+      this.#languageService = ts.createLanguageService(
+        createRegistryHost(this.#scripts, compilerOptions, fileSystem),
+        ts.createDocumentRegistry(),
+      );
+      this.#program = this.syncRegistry();
     } else {
       // Create new program with provided options
-      const compilerOptions = options.compilerOptions ?? {
-        target: ts.ScriptTarget.ESNext,
-        module: ts.ModuleKind.ESNext,
-        moduleResolution: ts.ModuleResolutionKind.Bundler,
-        skipLibCheck: true,
-        skipDefaultLibCheck: true,
-        strict: false,
-      };
-
-      const host = options.host ?? ts.createCompilerHost(compilerOptions);
+      const compilerOptions =
+        options.compilerOptions ?? DEFAULT_COMPILER_OPTIONS;
+
+      const host =
+        options.host ??
+        (options.fileSystem
+          ? createCompilerHost(options.fileSystem, compilerOptions)
+          : ts.createCompilerHost(compilerOptions));
       const rootNames = options.rootNames ?? [];
 
+      this.#host = host;
       this.#program = ts.createProgram(rootNames, compilerOptions, host);
     }
   }
 
+  /**
+   * Rebuild the program, reusing everything that didn't change
+   *
+   * Programs created from a registry re-print only the files edited since
+   * the last refresh and, unless `shareAsts` is false, hand the
+   * type-checked ASTs back to their FileBuilders, so nodes found through
+   * the builders can be passed to the type checker. Other programs
+   * re-read their root files.
+   * @example
+   * ```ts
+   * const prog = programFromRegistry(registry);
+   * file.updateClass("User", (c) => c.addMember(prop("id", $number())));
+   * prog.refresh();
+   * const checker = prog.get().getTypeChecker(); // sees User.id
+   * ```
+   */
+  refresh(): this {
+    if (this.#languageService) {
+      this.#program = this.syncRegistry();
+    } else {
+      this.#program = ts.createProgram(
+        this.#program.getRootFileNames(),
+        this.#program.getCompilerOptions(),
+        this.#host ?? ts.createCompilerHost(this.#program.getCompilerOptions()),
+        this.#program,
+      );
+    }
+    this.#lazySymbolResolver = null;
+    return this;
+  }
+
+  /**
+   * Re-print changed registry files and update the language service
+   */
+  private syncRegistry(): ts.Program {
+    const registry = this.#registry!;
+    const toFileName = (filePath: string) =>
+      normalizePath(path.resolve(this.#currentDirectory, filePath));
+
+    const files = [...registry.getAll()];
+    const fileNames = new Set(files.map(([filePath]) => toFileName(filePath)));
+    for (const fileName of this.#scripts.keys()) {
+      if (!fileNames.has(fileName)) {
+        this.#scripts.delete(fileName);
+      }
+    }
+
+    for (const [filePath, sourceFile] of files) {
+      const fileName = toFileName(filePath);
+      const source = sourceFile.get();
+      const script = this.#scripts.get(fileName);
+      if (script?.source === source) continue;
+
+      const text = sourceFile.printSync({ preserveSource: true });
+      const version = script
+        ? script.version + (script.text === text ? 0 : 1)
+        : 1;
+      this.#scripts.set(fileName, { source, text, version });
+    }
+
+    const program = this.#languageService!.getProgram()!;
+    if (!this.#shareAsts) {
+      return program;
+    }
+
+    // Hand the parsed, bound ASTs back to the builders
+    for (const [filePath, sourceFile] of files) {
+      const fileName = toFileName(filePath);
+      const checked = program.getSourceFile(fileName);
+      const script = this.#scripts.get(fileName);
+      if (checked && script && checked !== script.source) {
+        sourceFile.setCheckedSourceFile(checked);
+        script.source = checked;
+      }
+    }
+
+    return program;
+  }
+
   /**
    * Get a SymbolResolver for the current program
    *
@@ -163,3 +342,27 @@ export const programFromTsConfig = (tsconfigPath: string) => {
     options: parsed.options,
   }));
 };
+
+/**
+ * Create an incremental program from the files of a registry, without
+ * writing anything to disk
+ *
+ * Call `refresh()` after editing files to update the type checker.
+ *
+ * @param registry The registry whose files become the program's root files
+ * @param options Additional program options
+ * @returns A program builder over the registry's files
+ * @example
+ * ```ts
+ * const prog = programFromRegistry(registry, {
+ *   compilerOptions: { strict: true, noEmit: true },
+ * });
+ * const diagnostics = ts.getPreEmitDiagnostics(prog.get());
+ * ```
+ */
+export const programFromRegistry = (
+  registry: SourceFileRegistry,
+  options: Omit<ProgramOptions, "program" | "rootNames" | "registry"> = {},
+) => {
+  return program({ ...options, registry });
+};
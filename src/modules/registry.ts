@@ -1,9 +1,126 @@
+import {
+  type DiagnosticsOptions,
+  type SourceDiagnostic,
+  getDiagnostics,
+} from "./diagnostics";
+import { type EmitOptions, type EmitReport, emitFiles } from "./emit";
 import type { SourceFile } from "./file";
+import {
+  ImportRewriteError,
+  PathCorruptionError,
+  PrintError,
+} from "./errors";
+import { type FileSystem, NodeFileSystem, OverlayFileSystem } from "./fs";
 import ts from "typescript";
 import path from "path";
+import { withStringLiteralText } from "../helpers/node";
+import {
+  type ModuleReference,
+  ModuleGraph,
+  getModuleReferences,
+  resolveModuleFile,
+  toAbsolutePath,
+} from "./graph";
+import {
+  type LogLevel,
+  type Logger,
+  consoleLogger,
+  reportError,
+} from "./logger";
+import {
+  calculateNewImportPath,
+  getMovedImportPath,
+  isRelativeImport,
+} from "./pathUtils";
+import {
+  type PatternChange,
+  type PatternReplacement,
+  type ReplacePatternOptions,
+  type ReplacePatternReport,
+  needsSymbolResolver,
+} from "./pattern";
+import { type ProgramBuilder, program } from "./program";
+
+export interface SourceFileRegistryOptions {
+  /** Compiler options whose `paths` and `baseUrl` resolve bare imports */
+  compilerOptions?: ts.CompilerOptions;
+  /** File system files are read from and emitted to; defaults to disk */
+  fileSystem?: FileSystem;
+  /**
+   * Where progress and problems of moves, rewrites and prints go; also
+   * the default for files created with this registry
+   */
+  logger?: Logger;
+  /** Throw typed errors instead of logging them and keeping fallbacks */
+  strict?: boolean;
+}
 
 export class SourceFileRegistry {
   private files = new Map<string, SourceFile>();
+  private compilerOptions: ts.CompilerOptions;
+  private fileSystem: FileSystem;
+  private logger: Logger;
+  private strict: boolean;
+  // Old locations of moved files, deleted from disk on the next emit
+  private removedPaths = new Set<string>();
+  // Module references per file, re-scanned only when its AST changed
+  private referenceCache = new WeakMap<
+    SourceFile,
+    { source: ts.SourceFile; references: ModuleReference[] }
+  >();
+  // Program behind getDiagnostics, kept across calls
+  private checkProgram?: ProgramBuilder;
+
+  constructor(options: SourceFileRegistryOptions = {}) {
+    this.compilerOptions = options.compilerOptions ?? {};
+    this.fileSystem = options.fileSystem ?? new NodeFileSystem();
+    this.logger = options.logger ?? consoleLogger();
+    this.strict = options.strict ?? false;
+  }
+
+  /**
+   * The logger of the registry, also used by files created with it
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Whether problems throw typed errors instead of being logged
+   */
+  isStrict(): boolean {
+    return this.strict;
+  }
+
+  private log(level: LogLevel, message: string, fileName?: string): void {
+    this.logger({ level, message, fileName });
+  }
+
+  // Throw in strict mode, log otherwise
+  private report(error: Error): void {
+    reportError({ logger: this.logger, strict: this.strict }, error);
+  }
+
+  /**
+   * The file system files are read from and emitted to
+   */
+  getFileSystem(): FileSystem {
+    return this.fileSystem;
+  }
+
+  /**
+   * Create an overlay of the registry's file system containing every
+   * registered file as currently built, e.g. to type-check generated
+   * code before anything is written to disk
+   */
+  createOverlay(): OverlayFileSystem {
+    const overlay = new OverlayFileSystem(this.fileSystem);
+    const printer = ts.createPrinter({ removeComments: false });
+    for (const [filePath, sourceFile] of this.files) {
+      overlay.writeFile(filePath, printer.printFile(sourceFile.get()));
+    }
+    return overlay;
+  }
 
   register(sourceFile: SourceFile, filePath?: string): void {
     const fileName = sourceFile.getFileName();
@@ -30,6 +147,132 @@ export class SourceFileRegistry {
     this.files.clear();
   }
 
+  /**
+   * Set the compiler options used to resolve `paths` and `baseUrl` imports
+   */
+  setCompilerOptions(compilerOptions: ts.CompilerOptions): void {
+    this.compilerOptions = compilerOptions;
+  }
+
+  /**
+   * Build the module graph of all registered files
+   * Files are only re-scanned when their AST changed since the last call
+   */
+  getModuleGraph(): ModuleGraph {
+    const byAbsolutePath = new Map<string, string>();
+    for (const filePath of this.files.keys()) {
+      byAbsolutePath.set(toAbsolutePath(filePath), filePath);
+    }
+    const lookup = (candidate: string) =>
+      byAbsolutePath.get(toAbsolutePath(candidate));
+
+    const dependencies = new Map(
+      [...this.files].map(([filePath, sourceFile]) => [
+        filePath,
+        this.getReferences(sourceFile).map((reference) => ({
+          ...reference,
+          resolvedFile: resolveModuleFile(
+            reference.moduleSpecifier,
+            filePath,
+            lookup,
+            this.compilerOptions,
+          ),
+        })),
+      ]),
+    );
+
+    return new ModuleGraph(dependencies);
+  }
+
+  /**
+   * Registered files imported by a file
+   * @param transitive Also include dependencies of dependencies
+   */
+  getDependencies(filePath: string, transitive = false): string[] {
+    return this.getModuleGraph().getDependencies(
+      this.toRegisteredPath(filePath),
+      transitive,
+    );
+  }
+
+  /**
+   * Registered files importing a file
+   * @param transitive Also include dependents of dependents
+   */
+  getDependents(filePath: string, transitive = false): string[] {
+    return this.getModuleGraph().getDependents(
+      this.toRegisteredPath(filePath),
+      transitive,
+    );
+  }
+
+  /**
+   * Symbols other registered files use from a file, per importing file
+   */
+  getUsedSymbols(filePath: string): Map<string, string[]> {
+    return this.getModuleGraph().getUsedSymbols(
+      this.toRegisteredPath(filePath),
+    );
+  }
+
+  /**
+   * Registered files ordered so dependencies come before their dependents
+   */
+  getTopologicalOrder(): string[] {
+    return this.getModuleGraph().getTopologicalOrder();
+  }
+
+  /**
+   * Import cycles between registered files
+   */
+  findCycles(): string[][] {
+    return this.getModuleGraph().findCycles();
+  }
+
+  /**
+   * Registered files not reachable from any of the entry points
+   */
+  getUnreachableFiles(entryPoints: string[]): string[] {
+    return this.getModuleGraph().getUnreachableFiles(
+      entryPoints.map((entry) => this.toRegisteredPath(entry)),
+    );
+  }
+
+  private trackMove(oldPath: string, newPath: string): void {
+    if (oldPath !== newPath) {
+      this.removedPaths.add(oldPath);
+    }
+    this.removedPaths.delete(newPath);
+  }
+
+  private getReferences(sourceFile: SourceFile): ModuleReference[] {
+    const source = sourceFile.get();
+    const cached = this.referenceCache.get(sourceFile);
+    if (cached?.source === source) {
+      return cached.references;
+    }
+
+    const references = getModuleReferences(source);
+    this.referenceCache.set(sourceFile, { source, references });
+    return references;
+  }
+
+  /**
+   * Map any spelling of a registered file's path to its registry key
+   */
+  private toRegisteredPath(filePath: string): string {
+    if (this.files.has(filePath)) {
+      return filePath;
+    }
+    const absolutePath = toAbsolutePath(filePath);
+    for (const registeredPath of this.files.keys()) {
+      if (toAbsolutePath(registeredPath) === absolutePath) {
+        return registeredPath;
+      }
+    }
+    return filePath;
+  }
+
   /**
    * Update the path of a file in the registry
    */
@@ -38,22 +281,115 @@ export class SourceFileRegistry {
     if (sourceFile) {
       this.files.delete(oldPath);
       this.files.set(newPath, sourceFile);
+      this.trackMove(oldPath, newPath);
+    }
+  }
+
+  /**
+   * Move a registered file and rewrite the imports that point to it
+   * @see moveFiles
+   */
+  moveFile(oldPath: string, newPath: string): void {
+    this.moveFiles(new Map([[oldPath, newPath]]));
+  }
+
+  /**
+   * Move registered files and rewrite every registered file importing them
+   *
+   * Covers imports, `export ... from` re-exports, `import x = require()`,
+   * dynamic `import()` and `require()`. Rewritten specifiers keep their
+   * extension style (extensionless, ".js" or directory `index` imports).
+   * The moved files' own relative imports are updated for their new
+   * location.
+   * @param mapping Old path -> new path
+   */
+  moveFiles(mapping: Map<string, string> | Record<string, string>): void {
+    const entries =
+      mapping instanceof Map ? [...mapping] : Object.entries(mapping);
+
+    const moves = new Map<string, string>();
+    for (const [oldPath, newPath] of entries) {
+      const registeredPath = this.toRegisteredPath(oldPath);
+      if (!this.files.has(registeredPath)) {
+        throw new Error(`Cannot move unregistered file: ${oldPath}`);
+      }
+      moves.set(registeredPath, newPath);
+    }
+
+    const newPathOf = (filePath: string) => moves.get(filePath) ?? filePath;
+    const targets = new Set([...this.files.keys()].map(newPathOf));
+    if (targets.size !== this.files.size) {
+      throw new Error("Cannot move files: two files would share a path");
+    }
+
+    // Resolve against the old layout before anything moves
+    const graph = this.getModuleGraph();
+
+    for (const [filePath, sourceFile] of this.files) {
+      const newFilePath = newPathOf(filePath);
+      const isMoved = newFilePath !== filePath;
+      const resolved = new Map(
+        graph
+          .getReferences(filePath)
+          .map((reference) => [
+            reference.moduleSpecifier,
+            reference.resolvedFile,
+          ]),
+      );
+
+      const needsRewrite =
+        isMoved ||
+        [...resolved.values()].some((file) => file && moves.has(file));
+      if (!needsRewrite) continue;
+
+      sourceFile.updateModuleSpecifiers((moduleSpecifier) => {
+        const target = resolved.get(moduleSpecifier);
+
+        if (target === undefined) {
+          // External or unregistered: keep pointing at the same location
+          return isMoved && isRelativeImport(moduleSpecifier)
+            ? calculateNewImportPath(moduleSpecifier, filePath, newFilePath)
+            : moduleSpecifier;
+        }
+
+        const targetMoved = moves.has(target);
+        if (!targetMoved && (!isMoved || !isRelativeImport(moduleSpecifier))) {
+          // Path aliases stay valid as long as their target stays put
+          return moduleSpecifier;
+        }
+
+        return getMovedImportPath(
+          moduleSpecifier,
+          target,
+          newPathOf(target),
+          newFilePath,
+        );
+      });
+    }
+
+    const newFiles = new Map<string, SourceFile>();
+    for (const [filePath, sourceFile] of this.files) {
+      const newFilePath = newPathOf(filePath);
+      if (newFilePath !== filePath) {
+        sourceFile.setFileName(newFilePath);
+        this.trackMove(filePath, newFilePath);
+      }
+      newFiles.set(newFilePath, sourceFile);
     }
+    this.files = newFiles;
   }
 
   rewriteAllRelativeImports(fromBase: string, toBase: string): void {
-    console.log(`Moving files from "${fromBase}" to "${toBase}"`);
+    this.log("info", `Moving files from "${fromBase}" to "${toBase}"`);
 
     const newFiles = new Map<string, SourceFile>();
 
     for (const [filePath, sourceFile] of this.files) {
-      console.log(`Processing: ${filePath}`);
-
       const newFilePath = this.calculateNewPath(filePath, fromBase, toBase);
-      console.log(`  -> ${newFilePath}`);
+      this.log("debug", `Moving to ${newFilePath}`, filePath);
 
       if (this.isPathCorrupted(newFilePath, filePath)) {
-        console.error(`Path corrupted, keeping original: ${newFilePath}`);
+        this.report(new PathCorruptionError(newFilePath, filePath));
         newFiles.set(filePath, sourceFile);
         continue;
       }
@@ -61,18 +397,28 @@ export class SourceFileRegistry {
       if (this.canUpdateImports(sourceFile)) {
         try {
           this.updateFileImports(sourceFile, filePath, newFilePath);
-          console.log(`  ✓ Imports updated`);
+          this.log("debug", "Imports updated", filePath);
         } catch (error) {
-          console.error(`  ❌ Import update failed:`, error);
+          this.report(
+            error instanceof ImportRewriteError
+              ? error
+              : new ImportRewriteError(
+                  `Import update failed: ${error}`,
+                  filePath,
+                  undefined,
+                  { cause: error },
+                ),
+          );
         }
       }
 
       this.setFileName(sourceFile, newFilePath);
       newFiles.set(newFilePath, sourceFile);
+      this.trackMove(filePath, newFilePath);
     }
 
     this.files = newFiles;
-    console.log(`Registry now contains ${this.files.size} files`);
+    this.log("info", `Registry now contains ${this.files.size} files`);
   }
 
   private calculateNewPath(filePath: string, fromBase: string, toBase: string): string {
@@ -82,8 +428,6 @@ export class SourceFileRegistry {
       const normalizedFromBase = path.normalize(fromBase);
       const normalizedToBase = path.normalize(toBase);
 
-      console.log(`    Calculating: "${normalizedFilePath}" from "${normalizedFromBase}" to "${normalizedToBase}"`);
-
       // Check if the file path starts with the fromBase
       if (normalizedFilePath.startsWith(normalizedFromBase)) {
         // Extract the relative part after fromBase
@@ -95,20 +439,18 @@ export class SourceFileRegistry {
         }
 
         // Join the relative part with the new base
-        const newPath = path.join(normalizedToBase, relativePart);
-        console.log(`    Result: "${newPath}"`);
-        return newPath;
+        return path.join(normalizedToBase, relativePart);
       } else {
         // If file is not under fromBase, use simple string replacement
-        const newPath = normalizedFilePath.replace(normalizedFromBase, normalizedToBase);
-        console.log(`    Fallback result: "${newPath}"`);
-        return newPath;
+        return normalizedFilePath.replace(normalizedFromBase, normalizedToBase);
       }
     } catch (error) {
-      console.error(`Error calculating new path for "${filePath}":`, error);
+      this.log("error", `Error calculating new path: ${error}`, filePath);
       return filePath; // Return original on error
     }
-  }  private isPathCorrupted(newPath: string, originalPath: string): boolean {
+  }
+
+  private isPathCorrupted(newPath: string, originalPath: string): boolean {
     try {
       // Check for obvious corruption patterns
       if (newPath.includes('componentsrc/out') ||
@@ -148,7 +490,12 @@ export class SourceFileRegistry {
   private updateFileImports(sourceFile: SourceFile, oldPath: string, newPath: string): void {
     // Validate the source file has proper AST structure
     if (!this.isValidSourceFile(sourceFile)) {
-      console.warn(`  ⚠️  Source file has invalid AST structure, skipping import updates`);
+      this.report(
+        new ImportRewriteError(
+          "Source file has invalid AST structure, skipping import updates",
+          oldPath,
+        ),
+      );
       return;
     }
 
@@ -156,20 +503,33 @@ export class SourceFileRegistry {
       try {
         // Validate the import declaration node
         if (!this.isValidImportDeclaration(importDecl)) {
-          console.warn(`  ⚠️  Invalid import declaration, keeping original`);
+          this.report(
+            new ImportRewriteError(
+              "Invalid import declaration, keeping original",
+              oldPath,
+            ),
+          );
           return importDecl;
         }
 
         const moduleSpecifier = this.extractModuleSpecifier(importDecl);
 
         if (!moduleSpecifier) {
-          console.warn(`  ⚠️  Could not extract module specifier, keeping original`);
+          this.log(
+            "warn",
+            "Could not extract module specifier, keeping original",
+            oldPath,
+          );
           return importDecl;
         }
 
         if (this.isRelativeImportPath(moduleSpecifier)) {
           const newModuleSpecifier = this.calculateNewImportPath(moduleSpecifier, oldPath, newPath);
-          console.log(`    Rewriting: "${moduleSpecifier}" -> "${newModuleSpecifier}"`);
+          this.log(
+            "debug",
+            `Rewriting "${moduleSpecifier}" -> "${newModuleSpecifier}"`,
+            oldPath,
+          );
 
           // Create a proper new import declaration with proper AST structure
           return this.createUpdatedImportDeclaration(importDecl, newModuleSpecifier);
@@ -177,7 +537,15 @@ export class SourceFileRegistry {
 
         return importDecl;
       } catch (error) {
-        console.error(`  ❌ Error processing import declaration:`, error);
+        if (error instanceof ImportRewriteError) throw error;
+        this.report(
+          new ImportRewriteError(
+            `Error processing import declaration: ${error}`,
+            oldPath,
+            this.extractModuleSpecifier(importDecl) ?? undefined,
+            { cause: error },
+          ),
+        );
         return importDecl; // Return original on any error
       }
     });
@@ -259,7 +627,14 @@ export class SourceFileRegistry {
 
       return newRelativePath;
     } catch (error) {
-      console.error(`Error calculating new import path for "${importPath}":`, error);
+      this.report(
+        new ImportRewriteError(
+          `Error calculating new import path: ${error}`,
+          oldFilePath,
+          importPath,
+          { cause: error },
+        ),
+      );
       return importPath; // Return original on error
     }
   }
@@ -273,7 +648,10 @@ export class SourceFileRegistry {
   ): ts.ImportDeclaration {
     try {
       // Create a new string literal with proper AST structure
-      const newModuleSpecifierNode = ts.factory.createStringLiteral(newModuleSpecifier);
+      const { moduleSpecifier } = originalDecl;
+      const newModuleSpecifierNode = ts.isStringLiteral(moduleSpecifier)
+        ? withStringLiteralText(moduleSpecifier, newModuleSpecifier)
+        : ts.factory.createStringLiteral(newModuleSpecifier);
 
       // Use TypeScript's factory to create a properly formed import declaration
       return ts.factory.updateImportDeclaration(
@@ -284,7 +662,14 @@ export class SourceFileRegistry {
         originalDecl.attributes,
       );
     } catch (error) {
-      console.error(`Error creating updated import declaration:`, error);
+      this.report(
+        new ImportRewriteError(
+          `Error creating updated import declaration: ${error}`,
+          originalDecl.getSourceFile()?.fileName ?? "",
+          newModuleSpecifier,
+          { cause: error },
+        ),
+      );
       return originalDecl; // Return original on error
     }
   }
@@ -297,6 +682,123 @@ export class SourceFileRegistry {
     }
   }
 
+  /**
+   * Type-check all registered files as currently built
+   *
+   * Uses the registry's check program unless `options.program` is given,
+   * which is refreshed first. The files are not changed; diagnostics point
+   * at their nodes.
+   * @example
+   * ```ts
+   * const diagnostics = registry.getDiagnostics();
+   * console.error(formatDiagnostics(diagnostics));
+   * ```
+   */
+  getDiagnostics(options: DiagnosticsOptions = {}): SourceDiagnostic[] {
+    const checked = options.program?.refresh() ?? this.getCheckProgram();
+    return getDiagnostics(
+      checked,
+      [...this.files.keys()],
+      options,
+      new Map(
+        [...this.files].map(([filePath, file]) => [filePath, file.get()]),
+      ),
+    );
+  }
+
+  /**
+   * An incremental program over the registered files as currently built,
+   * for checking them without touching their ASTs
+   *
+   * The program is created on the first call and refreshed on later ones.
+   */
+  getCheckProgram(): ProgramBuilder {
+    this.checkProgram =
+      this.checkProgram?.refresh() ??
+      program({ registry: this, shareAsts: false });
+    return this.checkProgram;
+  }
+
+  /**
+   * Replace code matching a pattern in every registered file
+   *
+   * Type and symbol constraints are checked against one program over all
+   * files, unless a `resolver` is given.
+   * @example
+   * ```ts
+   * const report = registry.replacePattern(
+   *   "$CACHE.get($KEY) !== undefined",
+   *   "$CACHE.has($KEY)",
+   *   { where: { CACHE: { type: "Map" } } },
+   * );
+   * console.log(`${report.changes.length} changes in ${report.files}`);
+   * ```
+   * @see FileBuilder.replacePattern
+   */
+  replacePattern(
+    pattern: string,
+    replacement: PatternReplacement,
+    options: ReplacePatternOptions = {},
+  ): ReplacePatternReport {
+    const resolver =
+      options.resolver ??
+      (needsSymbolResolver(options)
+        ? program({ registry: this }).symbolResolver
+        : undefined);
+
+    const changes: PatternChange[] = [];
+    const files: string[] = [];
+    for (const [filePath, sourceFile] of this.files) {
+      const count = changes.length;
+      sourceFile.replacePattern(pattern, replacement, {
+        ...options,
+        resolver,
+        onReplace: (change) => {
+          changes.push({ ...change, fileName: filePath });
+          options.onReplace?.(change);
+        },
+      });
+      if (changes.length > count) {
+        files.push(filePath);
+      }
+    }
+    return { files, changes };
+  }
+
+  /**
+   * Print all registered files and write the ones that changed to disk
+   *
+   * Unchanged files are left alone, files are written atomically through
+   * temp files, and the old locations of moved files are deleted.
+   * @example
+   * ```ts
+   * const report = await registry.emit({ outDir: "generated", dryRun: true });
+   * console.log(report.diff);
+   *
+   * // CI: throws when the generated files on disk are out of date
+   * await registry.emit({ outDir: "generated", check: true });
+   * ```
+   */
+  async emit(options: EmitOptions = {}): Promise<EmitReport> {
+    const report = await emitFiles(
+      this.files,
+      this.removedPaths,
+      {
+        ...options,
+        print: {
+          ...options.print,
+          logger: options.print?.logger ?? this.logger,
+          strict: options.print?.strict ?? this.strict,
+        },
+      },
+      this.fileSystem,
+    );
+    if (!report.dryRun) {
+      this.removedPaths.clear();
+    }
+    return report;
+  }
+
   writeAllFiles(): Map<string, string> {
     const result = new Map<string, string>();
 
@@ -304,8 +806,10 @@ export class SourceFileRegistry {
       try {
         let content: string;
 
-        if (typeof (sourceFile as any).print === 'function') {
-          content = (sourceFile as any).print();
+        // print() is async; emit() awaits it, this stays synchronous
+        if (typeof (sourceFile as any).get === 'function') {
+          const printer = ts.createPrinter({ removeComments: false });
+          content = printer.printFile(sourceFile.get());
         } else if (typeof sourceFile.getFullText === 'function') {
           content = sourceFile.getFullText();
         } else {
@@ -316,7 +820,11 @@ export class SourceFileRegistry {
         result.set(filePath, content);
 
       } catch (error) {
-        console.error(`Failed to generate content for ${filePath}:`, error);
+        this.report(
+          new PrintError(`Failed to generate content: ${error}`, filePath, {
+            cause: error,
+          }),
+        );
         result.set(filePath, `// Error generating content`);
       }
     }
@@ -144,6 +144,30 @@ export class SymbolResolver {
     return true;
   }
 
+  /**
+   * Check if the type of a node matches a type name or pattern
+   *
+   * A name matches the type's symbol or alias (so `"Map"` matches `Map<string, number>`),
+   * its base classes and interfaces, and any member of a union; `null` and `undefined`
+   * are ignored. A RegExp is tested against the printed type.
+   *
+   * @param node The AST node to check
+   * @param type Type name or pattern
+   * @returns True if the node's type matches
+   */
+  checkType(node: ts.Node, type: string | RegExp): boolean {
+    try {
+      const nodeType = this.#typeChecker.getTypeAtLocation(node);
+      if (type instanceof RegExp) {
+        return type.test(this.#typeChecker.typeToString(nodeType));
+      }
+      return this.#typeMatches(this.#typeChecker.getNonNullableType(nodeType), type, new Set());
+    } catch (error) {
+      // If type resolution fails, treat the type as not matching
+      return false;
+    }
+  }
+
   /**
    * Find all nodes in a file with symbols matching specific criteria
    *
@@ -260,6 +284,32 @@ export class SymbolResolver {
     return this.#program;
   }
 
+  /**
+   * Check a type, its union members and its base types against a type name
+   */
+  #typeMatches(type: ts.Type, name: string, seen: Set<ts.Type>): boolean {
+    if (seen.has(type)) return false;
+    seen.add(type);
+
+    if (type.isUnion()) {
+      return type.types.some((member) => this.#typeMatches(member, name, seen));
+    }
+
+    const names = [
+      type.aliasSymbol?.getName(),
+      type.getSymbol()?.getName(),
+      this.#typeChecker.typeToString(type),
+    ];
+    if (names.includes(name)) return true;
+
+    // Generic instantiations like Cache<string> take their bases from Cache<T>
+    const target = (type as ts.TypeReference).target;
+    const declared = type.isClassOrInterface() ? type : target?.isClassOrInterface() ? target : undefined;
+    return !!declared && this.#typeChecker
+      .getBaseTypes(declared)
+      .some((base) => this.#typeMatches(base, name, seen));
+  }
+
   /**
    * Create a detailed resolved symbol object from a TypeScript symbol
    */
@@ -0,0 +1,396 @@
+import ts from "typescript";
+import type { BuildableAST } from "../utils/buildFluentApi";
+import { visitContext } from "../utils/visitContext";
+
+/**
+ * Names of syntax kinds, without the First and Last range markers
+ */
+export type SyntaxKindName = Exclude<
+  keyof typeof ts.SyntaxKind,
+  `First${string}` | `Last${string}`
+>;
+
+type GuardOf<K extends string> = `is${K}` extends keyof typeof ts
+  ? (typeof ts)[`is${K}`]
+  : never;
+
+/**
+ * Node type of a syntax kind, taken from its `ts.is*` type guard;
+ * `ts.Node` for kinds without one
+ * @example
+ * ```ts
+ * type Call = NodeOfKind<"CallExpression">; // ts.CallExpression
+ * ```
+ */
+export type NodeOfKind<K extends SyntaxKindName> =
+  GuardOf<K> extends (node: ts.Node) => node is (infer T extends ts.Node)
+    ? T
+    : ts.Node;
+
+/**
+ * What a visitor hook can replace a node with; lists are only valid where
+ * the node is in a list (statements, members, arguments, ...) or is a
+ * statement
+ */
+export type NodeReplacement =
+  | ts.Node
+  | BuildableAST
+  | readonly (ts.Node | BuildableAST)[];
+
+/**
+ * Where a visited node is, and how to change it
+ */
+export interface TransformContext {
+  /** The file being transformed */
+  readonly sourceFile: ts.SourceFile;
+  /** Parent of the node, as it was before the transform */
+  readonly parent: ts.Node;
+  /** Ancestors of the node, nearest first, ending with the file */
+  readonly ancestors: readonly ts.Node[];
+  /** Nearest ancestor passing a test */
+  findAncestor<T extends ts.Node>(
+    test: (node: ts.Node) => node is T,
+  ): T | undefined;
+  /** Replace the node; replacements are not visited */
+  replace(replacement: NodeReplacement): void;
+  /**
+   * Remove the node; a node its parent can't do without, like the
+   * expression of an expression statement, can't be removed
+   */
+  remove(): void;
+  /** Insert nodes before the node, in the same list */
+  insertBefore(...nodes: (ts.Node | BuildableAST)[]): void;
+  /** Insert nodes after the node, in the same list */
+  insertAfter(...nodes: (ts.Node | BuildableAST)[]): void;
+  /** Don't visit the node's children; only valid in `enter` */
+  skip(): void;
+}
+
+/**
+ * A visitor hook; returning a node (or list) replaces the visited node,
+ * like `context.replace`
+ */
+export type TransformHook<T extends ts.Node, R> = (
+  node: T,
+  context: TransformContext,
+) => R;
+
+// Hooks that only use their context don't need a return statement
+type VisitorHook<T extends ts.Node, R> =
+  | TransformHook<T, R>
+  | TransformHook<T, void>;
+
+type Visitor<R> = {
+  [K in SyntaxKindName]?:
+    | VisitorHook<NodeOfKind<K>, R>
+    | {
+        /** Called before the node's children are visited */
+        enter?: VisitorHook<NodeOfKind<K>, R>;
+        /** Called with the node as updated by its children's hooks */
+        leave?: VisitorHook<NodeOfKind<K>, R>;
+      };
+};
+
+/**
+ * Hooks by syntax kind name; a function is an `enter` hook
+ * @example
+ * ```ts
+ * file.transform({
+ *   ClassDeclaration: {
+ *     leave: (node) => klass(node).$export(),
+ *   },
+ *   ExpressionStatement(node, { findAncestor, remove }) {
+ *     if (findAncestor(ts.isClassDeclaration) && isConsoleLog(node)) {
+ *       remove();
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export type TransformVisitor = Visitor<NodeReplacement | undefined>;
+
+/**
+ * Hooks by syntax kind name that may be async
+ */
+export type AsyncTransformVisitor = Visitor<
+  NodeReplacement | undefined | Promise<NodeReplacement | undefined>
+>;
+
+type Hook = TransformHook<ts.Node, unknown>;
+
+interface Hooks {
+  enter?: Hook;
+  leave?: Hook;
+}
+
+// A hook to run; the walk resumes with its result
+interface HookCall {
+  hook: Hook;
+  node: ts.Node;
+  context: TransformContext;
+}
+
+type Walk<T> = Generator<HookCall, T, unknown>;
+
+// What happened to a node through its context
+interface NodeState {
+  replacement?: ts.Node[];
+  before: ts.Node[];
+  after: ts.Node[];
+  skipped: boolean;
+}
+
+// Node of a replacement; anything else, like a hook returning null, throws
+const toNode = (value: ts.Node | BuildableAST): ts.Node => {
+  if (typeof value === "object" && value !== null) {
+    if (typeof (value as BuildableAST).get === "function") {
+      return (value as BuildableAST).get() as ts.Node;
+    }
+    if (typeof (value as ts.Node).kind === "number") {
+      return value as ts.Node;
+    }
+  }
+  throw new TypeError(
+    "Expected a node, a builder or a list of them as replacement, got " +
+      (value === null ? "null" : typeof value) +
+      "; return undefined to keep the node",
+  );
+};
+
+const toNodes = (replacement: NodeReplacement): ts.Node[] =>
+  Array.isArray(replacement)
+    ? replacement.map(toNode)
+    : [toNode(replacement as ts.Node | BuildableAST)];
+
+// Whether a node can't be updated without one of its children
+const isRequiredChild = (node: ts.Node, child: ts.Node): boolean => {
+  try {
+    ts.visitEachChild(
+      node,
+      (current) => (current === child ? undefined : current),
+      visitContext,
+    );
+    return false;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Hooks by syntax kind
+ */
+function getHooks(visitor: Visitor<unknown>): Map<ts.SyntaxKind, Hooks> {
+  const hooks = new Map<ts.SyntaxKind, Hooks>();
+  for (const [name, value] of Object.entries(visitor)) {
+    const kind = ts.SyntaxKind[name as SyntaxKindName];
+    if (typeof kind !== "number") {
+      throw new TypeError(`Unknown syntax kind in visitor: ${name}`);
+    }
+    hooks.set(
+      kind,
+      typeof value === "function" ? { enter: value as Hook } : value as Hooks,
+    );
+  }
+  return hooks;
+}
+
+/**
+ * Walks a file, yielding the hooks to run so one walk serves both the
+ * sync and the async transform
+ */
+class Walker {
+  #hooks: Map<ts.SyntaxKind, Hooks>;
+  #sourceFile: ts.SourceFile;
+  // Ancestors of the node being visited, root first
+  #stack: ts.Node[] = [];
+
+  constructor(hooks: Map<ts.SyntaxKind, Hooks>, sourceFile: ts.SourceFile) {
+    this.#hooks = hooks;
+    this.#sourceFile = sourceFile;
+  }
+
+  *walkFile(): Walk<ts.SourceFile> {
+    return (yield* this.walkChildren(this.#sourceFile)) as ts.SourceFile;
+  }
+
+  /**
+   * Visit a node and its children
+   * @returns The nodes that take its place
+   */
+  private *walk(node: ts.Node): Walk<ts.Node[]> {
+    const state: NodeState = { before: [], after: [], skipped: false };
+    const context = this.createContext(state);
+    const { enter, leave } = this.#hooks.get(node.kind) ?? {};
+
+    if (enter) {
+      this.apply(state, yield { hook: enter, node, context });
+    }
+    let current = node;
+    if (!state.replacement) {
+      if (!state.skipped) {
+        current = yield* this.walkChildren(node);
+      }
+      if (leave) {
+        this.apply(state, yield { hook: leave, node: current, context });
+      }
+    }
+    const replacement = state.replacement ?? [current];
+    return [...state.before, ...replacement, ...state.after];
+  }
+
+  // Visit the children of a node and update it with their replacements
+  private *walkChildren(node: ts.Node): Walk<ts.Node> {
+    const children: ts.Node[] = [];
+    const listChildren = new Set<ts.Node>();
+    ts.forEachChild(
+      node,
+      (child) => {
+        children.push(child);
+      },
+      (list) => {
+        children.push(...list);
+        for (const child of list) listChildren.add(child);
+      },
+    );
+
+    this.#stack.push(node);
+    const results = new Map<ts.Node, ts.Node[]>();
+    for (const child of children) {
+      const result = yield* this.walk(child);
+      if (result.length !== 1 || result[0] !== child) {
+        results.set(child, result);
+      }
+    }
+    this.#stack.pop();
+
+    if (results.size === 0) {
+      return node;
+    }
+    for (const [child, result] of results) {
+      // Removed statements leave an empty block
+      if (
+        result.length === 0 &&
+        !listChildren.has(child) &&
+        !ts.isStatement(child) &&
+        isRequiredChild(node, child)
+      ) {
+        throw new TypeError(
+          `Can't remove ${ts.SyntaxKind[child.kind]} from ` +
+            `${ts.SyntaxKind[node.kind]}, which requires it; remove or ` +
+            "replace an enclosing node instead",
+        );
+      }
+    }
+    return ts.visitEachChild(
+      node,
+      (child) => {
+        const result = results.get(child);
+        if (!result) return child;
+        if (result.length === 1) return result[0];
+        // Statements get wrapped in a block, other single slots can't
+        // take several nodes
+        if (
+          result.length > 1 &&
+          !listChildren.has(child) &&
+          !ts.isStatement(child)
+        ) {
+          const kind = ts.SyntaxKind[child.kind];
+          throw new TypeError(
+            `Can't put ${result.length} nodes in place of ${kind} ` +
+              `(in ${ts.SyntaxKind[node.kind]}); only list elements and ` +
+              "statements take several",
+          );
+        }
+        return result;
+      },
+      visitContext,
+    );
+  }
+
+  private apply(state: NodeState, result: unknown): void {
+    if (result !== undefined) {
+      state.replacement = toNodes(result as NodeReplacement);
+    }
+  }
+
+  private createContext(state: NodeState): TransformContext {
+    const ancestors = [...this.#stack].reverse();
+    return {
+      sourceFile: this.#sourceFile,
+      parent: ancestors[0]!,
+      ancestors,
+      findAncestor: <T extends ts.Node>(test: (node: ts.Node) => node is T) =>
+        ancestors.find(test),
+      replace: (replacement) => {
+        state.replacement = toNodes(replacement);
+      },
+      remove: () => {
+        state.replacement = [];
+      },
+      insertBefore: (...nodes) => {
+        state.before.push(...nodes.map(toNode));
+      },
+      insertAfter: (...nodes) => {
+        state.after.push(...nodes.map(toNode));
+      },
+      skip: () => {
+        state.skipped = true;
+      },
+    };
+  }
+}
+
+const isPromise = (value: unknown): value is Promise<unknown> =>
+  typeof (value as Promise<unknown> | undefined)?.then === "function";
+
+/**
+ * Run a visitor over every node of a file
+ *
+ * Hooks see each node's parent and ancestors, and can replace, remove or
+ * insert nodes next to it. Nodes a hook doesn't change keep their identity,
+ * so an unchanged file is returned as is.
+ * @param sourceFile The file to transform
+ * @param visitor Hooks by syntax kind name
+ * @returns The transformed file
+ * @throws TypeError when a hook returns a promise; use
+ * `transformSourceFileAsync` for async hooks
+ * @throws TypeError when a hook removes a node its parent requires, or puts
+ * several nodes where only one fits
+ */
+export function transformSourceFile(
+  sourceFile: ts.SourceFile,
+  visitor: TransformVisitor,
+): ts.SourceFile {
+  const walk = new Walker(getHooks(visitor), sourceFile).walkFile();
+  let step = walk.next();
+  while (!step.done) {
+    const { hook, node, context } = step.value;
+    const result = hook(node, context);
+    if (isPromise(result)) {
+      throw new TypeError(
+        `Visitor hook for ${ts.SyntaxKind[node.kind]} returned a promise; ` +
+          "use the async transform instead",
+      );
+    }
+    step = walk.next(result);
+  }
+  return step.value;
+}
+
+/**
+ * Run a visitor whose hooks may be async over every node of a file; hooks
+ * run one at a time, in document order
+ * @see transformSourceFile
+ */
+export async function transformSourceFileAsync(
+  sourceFile: ts.SourceFile,
+  visitor: AsyncTransformVisitor,
+): Promise<ts.SourceFile> {
+  const walk = new Walker(getHooks(visitor), sourceFile).walkFile();
+  let step = walk.next();
+  while (!step.done) {
+    const { hook, node, context } = step.value;
+    step = walk.next(await hook(node, context));
+  }
+  return step.value;
+}
@@ -1,7 +1,10 @@
+export * from "./core/accessor";
 export * from "./core/assign";
+export * from "./core/binding";
 export * from "./core/block";
 export * from "./core/ctor";
 export * from "./core/decorator";
+export * from "./core/enum";
 export * from "./core/expr";
 export * from "./core/func";
 export * from "./core/global";
@@ -13,8 +16,10 @@ export * from "./core/namespace";
 export * from "./core/object";
 export * from "./core/params";
 export * from "./core/prop";
+export * from "./core/quote";
 export * from "./core/stmt";
 export * from "./core/tokens";
+export * from "./core/typeAlias";
 export * from "./core/varDecl";
 export * from "./core/variable";
 export * from "./helpers/commentPresets";
@@ -22,12 +27,24 @@ export * from "./helpers/finder";
 export * from "./helpers/highlight";
 export * from "./helpers/moduleResolver";
 export * from "./helpers/node";
+export * from "./helpers/parse";
+export * from "./helpers/query";
 export * from "./helpers/trivia";
 export * from "./helpers/type";
+export * from "./modules/diagnostics";
+export * from "./modules/emit";
+export * from "./modules/errors";
+export * from "./modules/exp";
 export * from "./modules/file";
+export * from "./modules/format";
+export * from "./modules/fs";
+export * from "./modules/graph";
 export * from "./modules/imp";
+export * from "./modules/logger";
+export * from "./modules/pattern";
 export * from "./modules/print";
 export * from "./modules/program";
 export * from "./modules/registry";
 export * from "./modules/symbolResolver";
+export * from "./modules/transform";
 export * from "./types";
@@ -13,8 +13,38 @@ export const $number = (): ts.KeywordTypeNode =>
 export const $boolean = (): ts.KeywordTypeNode =>
   ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
 
-export const $ref = (name: string): ts.TypeReferenceNode =>
-  ts.factory.createTypeReferenceNode(name);
+export const $unknown = (): ts.KeywordTypeNode =>
+  ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+
+export const $never = (): ts.KeywordTypeNode =>
+  ts.factory.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword);
+
+export const $void = (): ts.KeywordTypeNode =>
+  ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword);
+
+export const $undefined = (): ts.KeywordTypeNode =>
+  ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword);
+
+export const $null = (): ts.LiteralTypeNode =>
+  ts.factory.createLiteralTypeNode(ts.factory.createNull());
+
+export const $ref = (
+  name: string,
+  typeArgs?: ts.TypeNode[],
+): ts.TypeReferenceNode => ts.factory.createTypeReferenceNode(name, typeArgs);
+
+// Type parameter: T extends Constraint = Default
+export const typeParam = (
+  name: string,
+  constraint?: ts.TypeNode,
+  defaultType?: ts.TypeNode,
+): ts.TypeParameterDeclaration =>
+  ts.factory.createTypeParameterDeclaration(
+    undefined,
+    name,
+    constraint,
+    defaultType,
+  );
 
 // Union type
 export const union = (...types: ts.TypeNode[]): ts.UnionTypeNode =>
@@ -24,6 +54,231 @@ export const union = (...types: ts.TypeNode[]): ts.UnionTypeNode =>
 export const arrayType = (elementType: ts.TypeNode): ts.ArrayTypeNode =>
   ts.factory.createArrayTypeNode(elementType);
 
+// Intersection type: A & B
+export const intersection = (
+  ...types: ts.TypeNode[]
+): ts.IntersectionTypeNode => ts.factory.createIntersectionTypeNode(types);
+
+// Literal type: "a", 1, true, null
+export const literalType = (
+  value: string | number | boolean | null,
+): ts.LiteralTypeNode => {
+  if (value === null) {
+    return ts.factory.createLiteralTypeNode(ts.factory.createNull());
+  } else if (typeof value === "string") {
+    return ts.factory.createLiteralTypeNode(
+      ts.factory.createStringLiteral(value),
+    );
+  } else if (typeof value === "number") {
+    return ts.factory.createLiteralTypeNode(
+      value < 0
+        ? ts.factory.createPrefixUnaryExpression(
+            ts.SyntaxKind.MinusToken,
+            ts.factory.createNumericLiteral(-value),
+          )
+        : ts.factory.createNumericLiteral(value),
+    );
+  }
+  return ts.factory.createLiteralTypeNode(
+    value ? ts.factory.createTrue() : ts.factory.createFalse(),
+  );
+};
+
+// Tuple type: [A, B?, ...C[]]
+export const tupleType = (...elements: ts.TypeNode[]): ts.TupleTypeNode =>
+  ts.factory.createTupleTypeNode(elements);
+
+// Named tuple member: name: T, name?: T, ...name: T[]
+export const tupleMember = (
+  name: string,
+  type: ts.TypeNode,
+  options: { optional?: boolean; rest?: boolean } = {},
+): ts.NamedTupleMember =>
+  ts.factory.createNamedTupleMember(
+    options.rest
+      ? ts.factory.createToken(ts.SyntaxKind.DotDotDotToken)
+      : undefined,
+    ts.factory.createIdentifier(name),
+    options.optional
+      ? ts.factory.createToken(ts.SyntaxKind.QuestionToken)
+      : undefined,
+    type,
+  );
+
+// Optional tuple element: T?
+export const optionalType = (type: ts.TypeNode): ts.OptionalTypeNode =>
+  ts.factory.createOptionalTypeNode(type);
+
+// Rest tuple element: ...T
+export const restType = (type: ts.TypeNode): ts.RestTypeNode =>
+  ts.factory.createRestTypeNode(type);
+
+// Conditional type: Check extends Extends ? True : False
+export const conditionalType = (
+  checkType: ts.TypeNode,
+  extendsType: ts.TypeNode,
+  trueType: ts.TypeNode,
+  falseType: ts.TypeNode,
+): ts.ConditionalTypeNode =>
+  ts.factory.createConditionalTypeNode(
+    checkType,
+    extendsType,
+    trueType,
+    falseType,
+  );
+
+// Infer type inside a conditional type: infer U extends Constraint
+export const inferType = (
+  name: string,
+  constraint?: ts.TypeNode,
+): ts.InferTypeNode =>
+  ts.factory.createInferTypeNode(typeParam(name, constraint));
+
+/**
+ * Modifier for mapped types: `true`/`"+"` adds it, `"-"` removes it
+ */
+export type MappedTypeModifier = boolean | "+" | "-";
+
+// Mapped type: { readonly [K in Keys as Name]?: T }
+export const mappedType = (
+  paramName: string,
+  constraint: ts.TypeNode,
+  type?: ts.TypeNode,
+  options: {
+    readonly?: MappedTypeModifier;
+    optional?: MappedTypeModifier;
+    as?: ts.TypeNode;
+  } = {},
+): ts.MappedTypeNode => {
+  const readonlyToken =
+    options.readonly === "+"
+      ? ts.factory.createToken(ts.SyntaxKind.PlusToken)
+      : options.readonly === "-"
+        ? ts.factory.createToken(ts.SyntaxKind.MinusToken)
+        : options.readonly
+          ? ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)
+          : undefined;
+
+  const questionToken =
+    options.optional === "+"
+      ? ts.factory.createToken(ts.SyntaxKind.PlusToken)
+      : options.optional === "-"
+        ? ts.factory.createToken(ts.SyntaxKind.MinusToken)
+        : options.optional
+          ? ts.factory.createToken(ts.SyntaxKind.QuestionToken)
+          : undefined;
+
+  return ts.factory.createMappedTypeNode(
+    readonlyToken,
+    typeParam(paramName, constraint),
+    options.as,
+    questionToken,
+    type,
+    undefined, // members
+  );
+};
+
+// Indexed access type: T[K]
+export const indexedAccessType = (
+  objectType: ts.TypeNode,
+  indexType: ts.TypeNode,
+): ts.IndexedAccessTypeNode =>
+  ts.factory.createIndexedAccessTypeNode(objectType, indexType);
+
+// keyof operator: keyof T
+export const keyofType = (type: ts.TypeNode): ts.TypeOperatorNode =>
+  ts.factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, type);
+
+// typeof query: typeof value, typeof ns.value
+export const typeofType = (
+  name: string | ts.EntityName,
+  typeArgs?: ts.TypeNode[],
+): ts.TypeQueryNode => {
+  let entityName: ts.EntityName;
+  if (typeof name === "string") {
+    const [first = "", ...rest] = name.split(".");
+    entityName = rest.reduce<ts.EntityName>(
+      (left, right) => ts.factory.createQualifiedName(left, right),
+      ts.factory.createIdentifier(first),
+    );
+  } else {
+    entityName = name;
+  }
+  return ts.factory.createTypeQueryNode(entityName, typeArgs);
+};
+
+/**
+ * Template literal type from alternating text and type parts
+ * @example
+ * ```ts
+ * templateLiteralType("on", $ref("Capitalize<E>"), "Changed") // `on${Capitalize<E>}Changed`
+ * ```
+ */
+export const templateLiteralType = (
+  ...parts: (string | ts.TypeNode)[]
+): ts.TemplateLiteralTypeNode => {
+  let head = "";
+  let index = 0;
+  while (index < parts.length && typeof parts[index] === "string") {
+    head += parts[index] as string;
+    index++;
+  }
+
+  const spans: ts.TemplateLiteralTypeSpan[] = [];
+  while (index < parts.length) {
+    const type = parts[index] as ts.TypeNode;
+    index++;
+
+    let text = "";
+    while (index < parts.length && typeof parts[index] === "string") {
+      text += parts[index] as string;
+      index++;
+    }
+
+    spans.push(
+      ts.factory.createTemplateLiteralTypeSpan(
+        type,
+        index < parts.length
+          ? ts.factory.createTemplateMiddle(text)
+          : ts.factory.createTemplateTail(text),
+      ),
+    );
+  }
+
+  if (spans.length === 0) {
+    throw new Error("templateLiteralType requires at least one type part");
+  }
+
+  return ts.factory.createTemplateLiteralType(
+    ts.factory.createTemplateHead(head),
+    spans,
+  );
+};
+
+// Function type: <T>(a: A) => R
+export const functionType = (
+  params: ts.ParameterDeclaration[],
+  returnType: ts.TypeNode,
+  typeParams?: ts.TypeParameterDeclaration[],
+): ts.FunctionTypeNode =>
+  ts.factory.createFunctionTypeNode(typeParams, params, returnType);
+
+// Constructor type: new <T>(a: A) => R, abstract new () => R
+export const constructorType = (
+  params: ts.ParameterDeclaration[],
+  returnType: ts.TypeNode,
+  typeParams?: ts.TypeParameterDeclaration[],
+  isAbstract = false,
+): ts.ConstructorTypeNode =>
+  ts.factory.createConstructorTypeNode(
+    isAbstract
+      ? [ts.factory.createModifier(ts.SyntaxKind.AbstractKeyword)]
+      : undefined,
+    typeParams,
+    params,
+    returnType,
+  );
+
 // Type Interface Builder for inline object types
 class TypeInterfaceBuilder implements BuildableAST {
   #type: ts.TypeLiteralNode;
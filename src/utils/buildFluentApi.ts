@@ -24,8 +24,16 @@ export function buildFluentApi<
   BuilderClass: new (options: TBuilderOptions) => TBuilder,
   options: TBuilderOptions,
 ): TBuilder & ReturnType<TBuilder["get"]> {
-  const builder = new BuilderClass(options);
+  return wrapFluentApi(new BuilderClass(options));
+}
 
+/**
+ * Wrap an existing builder in the fluent API
+ * @see buildFluentApi
+ */
+export function wrapFluentApi<TBuilder extends BuildableAST>(
+  builder: TBuilder,
+): TBuilder & ReturnType<TBuilder["get"]> {
   return new Proxy(builder, {
     get(target, prop, receiver) {
       // Check builder first (fastest path)
@@ -47,3 +55,18 @@ export function buildFluentApi<
     },
   }) as TBuilder & ReturnType<TBuilder["get"]>;
 }
+
+/**
+ * The nodes a node or builder stands for; a builder gives its node, after
+ * its overload signatures if it has any
+ */
+export function unwrapNodes<T extends ts.Node>(node: T): T[] {
+  const builder = node as Partial<{ get(): T; getAll(): T[] }>;
+  if (typeof builder.getAll === "function") {
+    return builder.getAll();
+  }
+  if (typeof builder.get === "function") {
+    return [builder.get()];
+  }
+  return [node];
+}
@@ -0,0 +1,188 @@
+import type { TextEdit } from "./textEdit";
+
+type DiffLine = { type: " " | "-" | "+"; text: string };
+
+const splitLines = (text: string): string[] => {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+// Whether diagonal k is best reached from k + 1, i.e. by an insertion
+const isInsertion = (
+  frontier: number[],
+  offset: number,
+  k: number,
+  depth: number,
+): boolean =>
+  k === -depth ||
+  (k !== depth && frontier[k - 1 + offset]! < frontier[k + 1 + offset]!);
+
+/**
+ * Line diff using Myers' algorithm
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const max = before.length + after.length;
+  const offset = max + 1;
+  const trace: number[][] = [];
+  let frontier = new Array<number>(2 * max + 3).fill(0);
+
+  search: for (let depth = 0; depth <= max; depth++) {
+    trace.push(frontier.slice());
+    for (let k = -depth; k <= depth; k += 2) {
+      let x = isInsertion(frontier, offset, k, depth)
+        ? frontier[k + 1 + offset]!
+        : frontier[k - 1 + offset]! + 1;
+      let y = x - k;
+      while (x < before.length && y < after.length && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      frontier[k + offset] = x;
+      if (x >= before.length && y >= after.length) {
+        break search;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const lines: DiffLine[] = [];
+  let x = before.length;
+  let y = after.length;
+  for (let depth = trace.length - 1; depth >= 0; depth--) {
+    frontier = trace[depth]!;
+    const k = x - y;
+    const prevK = isInsertion(frontier, offset, k, depth) ? k + 1 : k - 1;
+    const prevX = frontier[prevK + offset]!;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: " ", text: before[x - 1]! });
+      x--;
+      y--;
+    }
+    if (depth > 0) {
+      if (x === prevX) {
+        lines.push({ type: "+", text: after[y - 1]! });
+      } else {
+        lines.push({ type: "-", text: before[x - 1]! });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Create a unified diff between two texts
+ * @param oldPath Path shown for the old text (use "/dev/null" for new files)
+ * @param newPath Path shown for the new text (use "/dev/null" for deletions)
+ * @param oldText The original content
+ * @param newText The updated content
+ * @param context Number of unchanged lines around each change
+ * @returns The unified diff, or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  context = 3,
+): string {
+  if (oldText === newText) return "";
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = lines
+    .map((line, index) => (line.type === " " ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changes.length === 0) return "";
+
+  // Group changes whose context overlaps into hunks
+  const ranges: [number, number][] = [];
+  for (const index of changes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+  let oldLine = 1;
+  let newLine = 1;
+  let position = 0;
+
+  for (const [start, end] of ranges) {
+    // Advance line counters up to the hunk
+    for (; position < start; position++) {
+      const type = lines[position]!.type;
+      if (type !== "+") oldLine++;
+      if (type !== "-") newLine++;
+    }
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} ` +
+        `+${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    output.push(...hunk.map((line) => line.type + line.text));
+
+    oldLine += oldCount;
+    newLine += newCount;
+    position = end + 1;
+  }
+
+  return `${output.join("\n")}\n`;
+}
+
+// Lines including their line break; the last one may not have one
+const splitLinesWithBreaks = (text: string): string[] =>
+  text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+/**
+ * Line-based edits that turn one text into another
+ * @param oldText The original content
+ * @param newText The updated content
+ * @returns Edits on `oldText`, each replacing whole lines
+ */
+export function createLineEdits(oldText: string, newText: string): TextEdit[] {
+  if (oldText === newText) return [];
+
+  const lines = diffLines(
+    splitLinesWithBreaks(oldText),
+    splitLinesWithBreaks(newText),
+  );
+  const edits: TextEdit[] = [];
+  let offset = 0;
+  let current: TextEdit | undefined;
+
+  for (const line of lines) {
+    if (line.type === " ") {
+      current = undefined;
+      offset += line.text.length;
+      continue;
+    }
+    if (!current) {
+      current = { start: offset, end: offset, text: "" };
+      edits.push(current);
+    }
+    if (line.type === "-") {
+      offset += line.text.length;
+      current.end = offset;
+    } else {
+      current.text += line.text;
+    }
+  }
+
+  return edits;
+}
@@ -0,0 +1,236 @@
+/**
+ * Replacement of the original text between `start` and `end` (offsets)
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Source map in the v3 format, ready for `JSON.stringify`
+ */
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
+}
+
+/**
+ * Sort edits and merge overlapping ones; edits starting at the same offset
+ * keep their order
+ */
+export function normalizeTextEdits(edits: TextEdit[]): TextEdit[] {
+  const sorted = edits
+    .map((edit, order) => ({ edit, order }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.order - b.order)
+    .map(({ edit }) => ({ ...edit }));
+
+  const result: TextEdit[] = [];
+  for (const edit of sorted) {
+    const last = result[result.length - 1];
+    if (last && edit.start < last.end) {
+      last.text += edit.text;
+      last.end = Math.max(last.end, edit.end);
+    } else {
+      result.push(edit);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply edits to the text they were computed against
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  let result = "";
+  let position = 0;
+  for (const edit of normalizeTextEdits(edits)) {
+    result += text.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Combine two rounds of edits into edits on the original text
+ * @param text The text `first` was computed against
+ * @param first Edits on `text`
+ * @param second Edits on the text `first` produces
+ * @returns Edits on `text` that produce the text `second` produces
+ */
+export function composeTextEdits(
+  text: string,
+  first: TextEdit[],
+  second: TextEdit[],
+): TextEdit[] {
+  const intermediate = applyTextEdits(text, first);
+
+  // Ranges of the intermediate text that either round replaced; ranges of
+  // the first round remember how much longer they made the text
+  const ranges: {
+    start: number;
+    end: number;
+    growth: number;
+    edit?: TextEdit;
+  }[] = [];
+  let shift = 0;
+  for (const edit of normalizeTextEdits(first)) {
+    const growth = edit.text.length - (edit.end - edit.start);
+    const start = edit.start + shift;
+    ranges.push({ start, end: start + edit.text.length, growth });
+    shift += growth;
+  }
+  for (const edit of normalizeTextEdits(second)) {
+    ranges.push({ start: edit.start, end: edit.end, growth: 0, edit });
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  // Ranges that overlap or touch become one edit
+  const result: TextEdit[] = [];
+  let offset = 0;
+  let index = 0;
+  while (index < ranges.length) {
+    const start = ranges[index]!.start;
+    let end = start;
+    let growth = 0;
+    const edits: TextEdit[] = [];
+    while (index < ranges.length && ranges[index]!.start <= end) {
+      const range = ranges[index++]!;
+      end = Math.max(end, range.end);
+      growth += range.growth;
+      if (range.edit) {
+        edits.push({
+          start: range.edit.start - start,
+          end: range.edit.end - start,
+          text: range.edit.text,
+        });
+      }
+    }
+
+    const edit = {
+      start: start - offset,
+      end: end - offset - growth,
+      text: applyTextEdits(intermediate.slice(start, end), edits),
+    };
+    if (edit.text !== text.slice(edit.start, edit.end)) {
+      result.push(edit);
+    }
+    offset += growth;
+  }
+  return result;
+}
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Base64 VLQ as used by source map mappings
+const encodeVlq = (value: number): string => {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = "";
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    result += BASE64[digit];
+  } while (vlq > 0);
+  return result;
+};
+
+/**
+ * Create a source map from the text produced by applying edits back to the
+ * original text
+ *
+ * Unchanged text maps line by line to where it came from; each line of a
+ * replacement maps to the start of the range it replaced.
+ * @param originalText The text the edits were computed against
+ * @param edits The edits that produce the generated text
+ * @param file Name of the generated file
+ * @param source Name of the original file, defaults to `file`
+ */
+export function createSourceMap(
+  originalText: string,
+  edits: TextEdit[],
+  file: string,
+  source = file,
+): SourceMap {
+  const lines: string[][] = [[]];
+  let generatedColumn = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  // Previous values, segments are relative to them
+  let last = { generatedColumn: 0, originalLine: 0, originalColumn: 0 };
+
+  const addMapping = (line: number, column: number) => {
+    const segments = lines[lines.length - 1]!;
+    segments.push(
+      encodeVlq(generatedColumn - last.generatedColumn) +
+        encodeVlq(0) +
+        encodeVlq(line - last.originalLine) +
+        encodeVlq(column - last.originalColumn),
+    );
+    last = { generatedColumn, originalLine: line, originalColumn: column };
+  };
+
+  const newLine = () => {
+    lines.push([]);
+    generatedColumn = 0;
+    last.generatedColumn = 0;
+  };
+
+  // Copy unchanged original text, mapping the start of every line
+  const copy = (text: string) => {
+    for (const [index, part] of text.split("\n").entries()) {
+      if (index > 0) {
+        newLine();
+        originalLine++;
+        originalColumn = 0;
+      }
+      if (part.length > 0) {
+        addMapping(originalLine, originalColumn);
+      }
+      generatedColumn += part.length;
+      originalColumn += part.length;
+    }
+  };
+
+  // Emit replacement text, mapping every line to the replaced range
+  const replace = (text: string, removed: string) => {
+    const line = originalLine;
+    const column = originalColumn;
+    for (const [index, part] of text.split("\n").entries()) {
+      if (index > 0) newLine();
+      if (part.length > 0) {
+        addMapping(line, column);
+      }
+      generatedColumn += part.length;
+    }
+    // Skip over the removed original text
+    const removedLines = removed.split("\n");
+    originalLine += removedLines.length - 1;
+    originalColumn =
+      removedLines.length > 1
+        ? removedLines[removedLines.length - 1]!.length
+        : originalColumn + removed.length;
+  };
+
+  let position = 0;
+  for (const edit of normalizeTextEdits(edits)) {
+    copy(originalText.slice(position, edit.start));
+    replace(edit.text, originalText.slice(edit.start, edit.end));
+    position = edit.end;
+  }
+  copy(originalText.slice(position));
+
+  return {
+    version: 3,
+    file,
+    sources: [source],
+    sourcesContent: [originalText],
+    names: [],
+    mappings: lines.map((segments) => segments.join(",")).join(";"),
+  };
+}
@@ -0,0 +1,45 @@
+import ts from "typescript";
+
+// Single in-memory file served to the formatting language service
+const script = { fileName: "", text: "", version: 0 };
+let languageService: ts.LanguageService | undefined;
+
+const getLanguageService = (): ts.LanguageService => {
+  languageService ??= ts.createLanguageService(
+    {
+      getCompilationSettings: () => ({}),
+      getScriptFileNames: () => [script.fileName],
+      getScriptVersion: () => String(script.version),
+      getScriptSnapshot: (fileName) =>
+        fileName === script.fileName
+          ? ts.ScriptSnapshot.fromString(script.text)
+          : undefined,
+      getCurrentDirectory: () => "/",
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      readFile: () => undefined,
+      fileExists: (fileName) => fileName === script.fileName,
+    },
+    ts.createDocumentRegistry(),
+  );
+  return languageService;
+};
+
+/**
+ * Formatting edits from the TypeScript language service for a text
+ * @param text The code to format
+ * @param fileName File name, whose extension selects TS, TSX, JS, ...
+ * @param settings Formatter settings
+ */
+export function getFormattingEdits(
+  text: string,
+  fileName: string,
+  settings: ts.FormatCodeSettings,
+): readonly ts.TextChange[] {
+  script.fileName = `/${fileName.replace(/^\/+/, "")}`;
+  script.text = text;
+  script.version++;
+  return getLanguageService().getFormattingEditsForDocument(
+    script.fileName,
+    settings,
+  );
+}
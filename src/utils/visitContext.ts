@@ -0,0 +1,12 @@
+import ts from "typescript";
+
+/**
+ * Context for visiting nodes outside a transform, e.g. with
+ * `ts.visitEachChild`
+ *
+ * Not part of the public TypeScript types, but unlike `ts.transform` it
+ * keeps the emit nodes (and synthetic comments) of the file being changed.
+ */
+export const visitContext = (
+  ts as unknown as { nullTransformationContext: ts.TransformationContext }
+).nullTransformationContext;
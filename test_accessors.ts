@@ -0,0 +1,117 @@
+import {
+  $number,
+  $string,
+  block,
+  getter,
+  klass,
+  param,
+  setter,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+const SOURCE = `class Field {
+  other = 1;
+
+  /** The current value */
+  @Prop() value: string = ""; // shown in the UI
+  readonly id: string = "a";
+}
+`;
+
+/**
+ * Getter/setter builders, accessor pairs, and converting properties to
+ * accessors without losing their comments
+ */
+async function testAccessors() {
+  console.log("Testing accessors...");
+
+  try {
+    const expectIn = (name: string, text: string, parts: string[]) => {
+      console.log(`\n${name}:\n${text}`);
+      for (const part of parts) {
+        if (!text.includes(part)) {
+          throw new Error(`${name}: missing ${JSON.stringify(part)}`);
+        }
+      }
+    };
+
+    // Builders, and pairs replacing accessors of the same name in place
+    const counter = klass("Counter")
+      .addMember(getter("count", block(["return 0;"]), $number()))
+      .addAccessorPair("count", {
+        type: $number(),
+        get: block(["return this._count;"]),
+        set: block(["this._count = value;"]),
+      })
+      .addMember(
+        setter(
+          "label",
+          param("text", $string()).get(),
+          block(["this.text = text;"]),
+        ),
+      );
+    const pair = await file("counter.ts").addStatement(counter.get()).print();
+    expectIn("accessor pair", pair, [
+      "get count(): number",
+      "set count(value: number)",
+      "set label(text: string)",
+    ]);
+    if (pair.split("get count").length !== 2) {
+      throw new Error("addAccessorPair did not replace the existing getter");
+    }
+
+    // Adopting an accessor by name
+    counter.updateAccessorByName("count", "get", (g) =>
+      g.$body(block(["return this._count + 1;"])),
+    );
+    expectIn(
+      "updated getter",
+      await file("counter.ts").addStatement(counter.get()).print(),
+      ["return this._count + 1;"],
+    );
+
+    // Converting keeps decorators and comments with the getter, in both
+    // printing modes, and gives readonly properties only a getter
+    for (const preserveSource of [false, true]) {
+      const converted = await file("field.ts", SOURCE)
+        .updateClass("Field", (cls) =>
+          cls
+            .convertPropertyToAccessors("value")
+            .convertPropertyToAccessors("id", "#id"),
+        )
+        .print({ preserveSource });
+      expectIn(`converted (preserveSource: ${preserveSource})`, converted, [
+        "private _value: string",
+        "/** The current value */",
+        "// shown in the UI",
+        "#id: string",
+        "get id(): string",
+      ]);
+      if (converted.split("The current value").length !== 2) {
+        throw new Error("The property's doc comment was duplicated");
+      }
+      const doc = converted.indexOf("/** The current value */");
+      const field = converted.indexOf("private _value");
+      const decorator = converted.indexOf("@Prop()");
+      if (!(field < doc && doc < decorator)) {
+        throw new Error("The doc comment did not move with the getter");
+      }
+      if (converted.includes("set id(")) {
+        throw new Error("A readonly property got a setter");
+      }
+    }
+
+    console.log("\n🎉 All accessor tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testAccessors().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
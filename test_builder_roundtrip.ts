@@ -0,0 +1,88 @@
+import {
+  $,
+  $any,
+  $number,
+  $ref,
+  $string,
+  block,
+  func,
+  getter,
+  klass,
+  method,
+  param,
+  ret,
+  setter,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Builder proxies stand in for their nodes; passing them to addMember and
+ * addStatement without get() must print the same as passing the nodes,
+ * plus any overload signatures
+ */
+async function testBuilderRoundTrip() {
+  console.log("Testing builder proxies through addMember/addStatement...");
+
+  try {
+    const cases = {
+      method: () => method("m", [param("x", $string())], block([])),
+      "method with $body": () =>
+        method("m", [param("x", $string())], block([])).$body(
+          "return x;",
+        ),
+      getter: () => getter("g", block([]), $string()),
+      "getter with $body": () =>
+        getter("g", block([]), $string()).$body(block([ret($("g"))])),
+      setter: () => setter("s", param("value", $string()).get(), block([])),
+      "setter with $body": () =>
+        setter("s", "value", block([])).$body(block([])),
+    };
+
+    for (const [name, create] of Object.entries(cases)) {
+      const viaProxy = file("proxy.ts").addStatement(
+        klass("K").addMember(create()).get(),
+      );
+      const viaNode = file("node.ts").addStatement(
+        klass("K").addMember(create().get()).get(),
+      );
+
+      const printed = await viaProxy.print();
+      const expected = await viaNode.print();
+      console.log(`\n${name}:\n${printed}`);
+      if (printed !== expected) {
+        throw new Error(`${name} printed differently through its proxy`);
+      }
+    }
+
+    // Builders with overloads bring their signatures along
+    const parse = method("parse", [param("input", $any())], block([]))
+      .overload([param("input", $string()).get()], $ref("Ast"));
+    const load = func("load", [param("id", $any()).get()], block([]))
+      .overload([param("id", $number()).get()], $ref("Item"));
+    const overloaded = await file("overloads.ts")
+      .addStatement(klass("Parser").addMember(parse).get(), load)
+      .print();
+    console.log(`\noverloads:\n${overloaded}`);
+    for (const signature of [
+      "parse(input: string): Ast;",
+      "function load(id: number): Item;",
+    ]) {
+      if (!overloaded.includes(signature)) {
+        throw new Error(`Overload signature dropped: ${signature}`);
+      }
+    }
+
+    console.log("\n🎉 All builder round-trip tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testBuilderRoundTrip().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+import {
+  $,
+  $number,
+  $ref,
+  $static,
+  $string,
+  block,
+  ctor,
+  klass,
+  method,
+  param,
+  prop,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+const SOURCE = `class Store extends Base {
+  static #instances = 0;
+  [key: string]: unknown;
+  declare readonly kind: string;
+  accessor size = 0;
+  static {
+    Store.#instances++;
+  }
+  constructor(private readonly api: Api, public name = "store") {
+    super();
+  }
+  get(id: string): Item;
+  get(id: number): Item;
+  override get(id: string | number): Item {
+    return this.api.load(id);
+  }
+}
+`;
+
+/**
+ * Private fields, static blocks, index signatures, overloads, parameter
+ * properties and the override/declare/accessor modifiers can be built, and
+ * classes using them survive a round trip
+ */
+async function testClassFeatures() {
+  console.log("Testing class features...");
+
+  try {
+    const expectIn = (name: string, text: string, parts: string[]) => {
+      console.log(`\n${name}:\n${text}`);
+      for (const part of parts) {
+        if (!text.includes(part)) {
+          throw new Error(`${name}: missing ${JSON.stringify(part)}`);
+        }
+      }
+    };
+
+    const built = klass("Counter")
+      .addPrivateField("count", $number(), $(0))
+      .addIndexSignature("key", $string(), $ref("unknown"), [$static()])
+      .addStaticBlock(block(["Counter.created = Date.now();"]))
+      .addMember(
+        prop("total", $number()).$declare().get(),
+        prop("label", $string()).$override().$accessor().get(),
+        ctor([], block([]))
+          .addArg({
+            name: "http",
+            type: $ref("HttpClient"),
+            visibility: "private",
+            readonly: true,
+          })
+          .get(),
+        // The builder itself adds the method with its overloads
+        method("parse", [param("input", "string | Buffer").get()], "return 1;")
+          .overload([param("input", $string()).get()], $number()),
+      )
+      .addMethodOverload("parse", [param("input", $ref("Buffer")).get()])
+      .get();
+
+    expectIn("built", await file("counter.ts").addStatement(built).print(), [
+      "#count: number = 0;",
+      "static [key: string]: unknown;",
+      "static {",
+      "declare total: number;",
+      "override accessor label: string;",
+      "constructor(private readonly http: HttpClient)",
+      "parse(input: string): number;\n    parse(input: Buffer);\n" +
+        "    parse(input: string | Buffer) {",
+    ]);
+
+    // Decompiling and rebuilding keeps every feature
+    const rebuilt = await file("store.ts", SOURCE)
+      .updateClass("Store", (cls) => cls.addMember(prop("extra").get()))
+      .print();
+    expectIn("round trip", rebuilt, [
+      "static #instances = 0;",
+      "[key: string]: unknown;",
+      "declare readonly kind: string;",
+      "accessor size = 0;",
+      "Store.#instances++;",
+      "constructor(private readonly api: Api, public name = \"store\")",
+      "get(id: string): Item;",
+      "get(id: number): Item;",
+      "override get(id: string | number): Item {",
+      "extra;",
+    ]);
+
+    console.log("\n🎉 All class feature tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testClassFeatures().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
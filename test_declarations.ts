@@ -0,0 +1,71 @@
+import {
+  $number,
+  $ref,
+  $string,
+  const_,
+  declareConst,
+  declareFunction,
+  declareModule,
+  func,
+  klass,
+  param,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Function overloads come before their implementation, and ambient
+ * declarations print as a .d.ts file would have them
+ */
+async function testDeclarations() {
+  console.log("Testing overloads and ambient declarations...");
+
+  try {
+    const printed = await file("types.d.ts")
+      .addStatement(
+        declareFunction(
+          "fetchJson",
+          [param("url", $string()).get()],
+          $ref("Promise<unknown>"),
+        ).get(),
+        declareConst("VERSION", $string()).get(),
+        klass("Client")
+          .$declare()
+          .addMethodOverload("close", [], $ref("void"))
+          .get(),
+        declareModule("*.svg", [const_("url").$type($string()).get()]).get(),
+        ...func("parse", [param("input", "string | number").get()], "return 1;")
+          .overload([param("input", $string()).get()], $number())
+          .overload([param("input", $number()).get()], $number())
+          .getAll(),
+      )
+      .print();
+    console.log(printed);
+
+    for (const part of [
+      "declare function fetchJson(url: string): Promise<unknown>;",
+      "declare const VERSION: string;",
+      "declare class Client {\n    close(): void;\n}",
+      'declare module "*.svg" {\n    const url: string;\n}',
+      "function parse(input: string): number;\n" +
+        "function parse(input: number): number;\n" +
+        "function parse(input: string | number) {",
+    ]) {
+      if (!printed.includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+
+    console.log("\n🎉 All declaration tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testDeclarations().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
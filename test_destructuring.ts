@@ -0,0 +1,82 @@
+import {
+  $,
+  $ref,
+  arrayBinding,
+  bindingElement,
+  call,
+  const_,
+  expr,
+  forOf_,
+  func,
+  let_,
+  objectBinding,
+  param,
+  restBinding,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Destructuring patterns with renames, defaults, nesting, holes and rest
+ * elements work in variables, parameters and for-of loops
+ */
+async function testDestructuring() {
+  console.log("Testing destructuring...");
+
+  try {
+    const props = objectBinding([
+      "onClick",
+      bindingElement("isDisabled", {
+        propertyName: "disabled",
+        initializer: $(false),
+      }),
+      bindingElement(objectBinding(["city"]), { propertyName: "address" }),
+      restBinding("rest"),
+    ]);
+
+    const printed = await file("hooks.ts")
+      .addStatement(
+        const_(arrayBinding(["count", "setCount"]), call("useState", [$(0)]))
+          .get(),
+        let_(
+          arrayBinding([undefined, "second", restBinding("others")]),
+          expr("list"),
+        ).get(),
+        func(
+          "Button",
+          [param(props, { type: $ref("Props") }).get()],
+          "return null;",
+        ).get(),
+        forOf_(
+          arrayBinding(["key", "value"]),
+          call("Object.entries", [expr("obj")]),
+        ).get(),
+      )
+      .print();
+    console.log(printed);
+
+    for (const part of [
+      "const [count, setCount] = useState(0);",
+      "let [, second, ...others] = list;",
+      "function Button({ onClick, disabled: isDisabled = false, " +
+        "address: { city }, ...rest }: Props)",
+      "for (const [key, value] of Object.entries(obj))",
+    ]) {
+      if (!printed.includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+
+    console.log("\n🎉 All destructuring tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testDestructuring().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import ts from "typescript";
+import { formatDiagnostics } from "./src/index";
+import { file } from "./src/modules/file";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+// Whether a node is part of a tree
+const contains = (root: ts.Node, node: ts.Node): boolean =>
+  root === node ||
+  !!ts.forEachChild(root, (child) => contains(child, node) || undefined);
+
+/**
+ * Diagnostics of generated code point at the FileBuilder's own nodes and
+ * leave its AST alone
+ */
+async function testDiagnostics() {
+  console.log("Testing diagnostics...");
+
+  try {
+    const registry = new SourceFileRegistry();
+    const user = file(
+      "src/user.ts",
+      "export interface User { name: string }",
+    );
+    const usage = file("src/usage.ts")
+      .addStatement('import type { User } from "./user";')
+      .addStatement("declare const u: User;")
+      .addStatement("export const id: string = u.id;");
+    registry.registerFile("src/user.ts", user);
+    registry.registerFile("src/usage.ts", usage);
+
+    const before = usage.get();
+    const diagnostics = registry.getDiagnostics();
+    console.log(formatDiagnostics(diagnostics));
+
+    const [first] = diagnostics;
+    if (diagnostics.length !== 1 || first?.code !== 2339) {
+      throw new Error(`Expected one TS2339, got ${diagnostics.length}`);
+    }
+    if (usage.get() !== before) {
+      throw new Error("Checking replaced the file's AST");
+    }
+    if (!first.node || !ts.isIdentifier(first.node)) {
+      throw new Error("Diagnostic has no identifier node");
+    }
+    if (!contains(usage.get(), first.node)) {
+      throw new Error("Diagnostic node is not in the FileBuilder's AST");
+    }
+    console.log(`✅ ${first.line}:${first.column}: ${first.node.text}`);
+
+    // A file checked on its own maps back the same way
+    const single = file("single.ts").addStatement("const n: number = 'x';");
+    const [own] = single.getDiagnostics();
+    if (!own?.node || !contains(single.get(), own.node)) {
+      throw new Error("Single-file diagnostic is not in the file's AST");
+    }
+
+    // Edits after a check are seen by the next one
+    usage.addStatement("export const name: string = u.name;");
+    if (registry.getDiagnostics().length !== 1) {
+      throw new Error("Check program missed an edit");
+    }
+
+    // Syntax-only checks skip type errors
+    if (single.getDiagnostics({ semantic: false }).length !== 0) {
+      throw new Error("Syntax-only check reported a type error");
+    }
+
+    console.log("\n🎉 All diagnostics tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testDiagnostics().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
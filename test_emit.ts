@@ -0,0 +1,124 @@
+import { EmitError } from "./src/modules/errors";
+import { file } from "./src/modules/file";
+import { MemoryFileSystem } from "./src/modules/fs";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+// A file system whose renames onto one path fail
+class FailingFileSystem extends MemoryFileSystem {
+  constructor(
+    files: Record<string, string>,
+    private readonly failingPath: string,
+  ) {
+    super(files);
+  }
+
+  override rename(fromPath: string, toPath: string): void {
+    if (toPath === this.failingPath) {
+      throw new Error("disk full");
+    }
+    super.rename(fromPath, toPath);
+  }
+}
+
+/**
+ * Emitting reports what changes, writes nothing in dry runs and check mode,
+ * and rolls back when a write fails halfway
+ */
+async function testEmit() {
+  console.log("Testing emit...");
+
+  try {
+    const fileSystem = new MemoryFileSystem();
+    const registry = new SourceFileRegistry({ fileSystem });
+    registry.registerFile("src/a.ts", file("src/a.ts", "export const a = 1;"));
+    registry.registerFile("src/b.ts", file("src/b.ts", "export const b = 2;"));
+
+    // Dry runs report and diff without writing
+    const dryRun = await registry.emit({ dryRun: true });
+    console.log(dryRun.diff);
+    if (dryRun.created.length !== 2 || !dryRun.isStale || !dryRun.dryRun) {
+      throw new Error("Dry run did not report two new files");
+    }
+    if (fileSystem.fileExists("/src/a.ts")) {
+      throw new Error("Dry run wrote a file");
+    }
+    if (!dryRun.diff.includes("+++ b/src/a.ts")) {
+      throw new Error("Dry run diff is missing a file");
+    }
+
+    // Check mode fails on stale output and names the files
+    try {
+      await registry.emit({ check: true });
+      throw new Error("Expected check mode to fail");
+    } catch (error) {
+      if (!(error instanceof EmitError)) throw error;
+      if (error.outputPaths.length !== 2) {
+        throw new Error(`Expected 2 stale paths, got ${error.outputPaths}`);
+      }
+      console.log("✅ Check mode reports stale output");
+    }
+
+    // Writing, then checking again
+    const written = await registry.emit();
+    if (written.created.length !== 2 || !fileSystem.fileExists("/src/b.ts")) {
+      throw new Error("Emit did not write the files");
+    }
+    const check = await registry.emit({ check: true });
+    if (check.isStale || check.unchanged.length !== 2) {
+      throw new Error("Check mode reported fresh output as stale");
+    }
+
+    // Conflicts can be refused
+    fileSystem.writeFile("/src/a.ts", "// edited by hand\n");
+    try {
+      await registry.emit({ onConflict: "error" });
+      throw new Error("Expected a conflict error");
+    } catch (error) {
+      if (!(error instanceof EmitError)) throw error;
+      console.log("✅ Conflicts can be refused");
+    }
+    const skipped = await registry.emit({ onConflict: "skip" });
+    if (skipped.skipped.length !== 1 || !skipped.isStale) {
+      throw new Error("Skipped conflict was not reported");
+    }
+
+    // A failed rename rolls back the files already renamed and removes the
+    // remaining temp files
+    const failing = new FailingFileSystem(
+      { "/out/a.ts": "// previous a\n" },
+      "/out/c.ts",
+    );
+    const partial = new SourceFileRegistry({ fileSystem: failing });
+    partial.registerFile("out/a.ts", file("out/a.ts", "export const a = 1;"));
+    partial.registerFile("out/b.ts", file("out/b.ts", "export const b = 2;"));
+    partial.registerFile("out/c.ts", file("out/c.ts", "export const c = 3;"));
+    try {
+      await partial.emit();
+      throw new Error("Expected the emit to fail");
+    } catch (error) {
+      if (!(error instanceof EmitError)) throw error;
+      console.log(`✅ ${error.message}`);
+    }
+    const left = failing.readDirectory("/out");
+    console.log(`Left in /out: ${left.join(", ")}`);
+    if (left.join() !== "a.ts") {
+      throw new Error("A failed emit left files behind");
+    }
+    if (failing.readFile("/out/a.ts") !== "// previous a\n") {
+      throw new Error("A failed emit did not restore the previous content");
+    }
+
+    console.log("\n🎉 All emit tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testEmit().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import ts from "typescript";
+import {
+  exp,
+  expDefault,
+  expEquals,
+  extractExportOptions,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Export builders cover re-exports, `export *`, type-only lists, default
+ * exports and `export =`, and addOrUpdateExport merges barrel entries
+ */
+async function testExports() {
+  console.log("Testing exports...");
+
+  try {
+    const barrel = file("index.ts")
+      .addStatement(
+        exp({
+          moduleSpecifier: "./button",
+          namedExports: [{ name: "Button", alias: "PrimaryButton" }],
+        }).get(),
+        exp({ moduleSpecifier: "./utils", exportAll: true }).get(),
+        exp({ moduleSpecifier: "./icons", namespaceExport: "icons" }).get(),
+        exp({ namedExports: ["Props"], isTypeOnly: true }).get(),
+      )
+      .addOrUpdateExport({
+        moduleSpecifier: "./button",
+        namedExports: ["Size"],
+      })
+      .addOrUpdateExport({ moduleSpecifier: "./utils", exportAll: true })
+      .addOrUpdateExport({
+        moduleSpecifier: "./types",
+        typeOnlyNamedExports: ["Theme"],
+      })
+      .addStatement(expDefault("App"));
+    const printed = await barrel.print();
+    console.log(printed);
+
+    for (const part of [
+      'export { Button as PrimaryButton, Size } from "./button";',
+      'export * from "./utils";',
+      'export * as icons from "./icons";',
+      "export type { Props };",
+      'export { type Theme } from "./types";',
+      "export default App;",
+    ]) {
+      if (!printed.includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+    if (printed.split('from "./utils"').length !== 2) {
+      throw new Error("export * was added twice");
+    }
+
+    // Aliases survive extracting the options back
+    const [reExport] = file("a.ts", 'export { a as b } from "./a";')
+      .get()
+      .statements.filter(ts.isExportDeclaration);
+    const options = reExport && extractExportOptions(reExport);
+    const named = JSON.stringify(options?.namedExports);
+    console.log(named);
+    if (named !== '[{"name":"a","alias":"b"}]') {
+      throw new Error("extractExportOptions lost the alias");
+    }
+
+    const commonJs = await file("cjs.ts")
+      .addStatement(expEquals("api"))
+      .print();
+    if (!commonJs.includes("export = api;")) {
+      throw new Error("export = was not printed");
+    }
+
+    console.log("\n🎉 All export tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testExports().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+import type ts from "typescript";
+import {
+  $,
+  arr,
+  asConst,
+  as_,
+  await_,
+  bigint,
+  binary,
+  call,
+  chain,
+  conditional,
+  delete_,
+  expr,
+  exprStmt,
+  importMeta,
+  nonNull,
+  not,
+  optCall,
+  optElemAccess,
+  optPropAccess,
+  postfix,
+  prefix,
+  propAccess,
+  regex,
+  satisfies_,
+  spread,
+  taggedTemplate,
+  template,
+  this_,
+  type,
+  typeof_,
+  void_,
+  yield_,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Expression builders print the operators, chains and literals they stand
+ * for, with parentheses where precedence needs them
+ */
+async function testExpressions() {
+  console.log("Testing expression builders...");
+
+  try {
+    const cases: [ts.Expression, string][] = [
+      [propAccess("user", "name"), "user.name"],
+      [binary(expr("a"), "??", $(0)), "a ?? 0"],
+      [binary(expr("base"), "**", $(2)), "base ** 2"],
+      [binary(expr("cache"), "??=", arr()), "cache ??= []"],
+      [binary(expr("ok"), "||=", $(false)), "ok ||= false"],
+      [binary(expr("ok"), "&&=", $(true)), "ok &&= true"],
+      [
+        binary(binary(expr("a"), "+", expr("b")), "*", expr("c")),
+        "(a + b) * c",
+      ],
+      [prefix("-", expr("x")), "-x"],
+      [postfix(expr("i"), "++"), "i++"],
+      [not(call("ready", [])), "!ready()"],
+      [conditional(expr("ok"), $("yes"), $("no")), 'ok ? "yes" : "no"'],
+      [template("Hello, ", expr("name"), "!"), `\`Hello, \${name}!\``],
+      [template("plain"), "`plain`"],
+      [
+        taggedTemplate("sql", "SELECT ", expr("column")),
+        `sql \`SELECT \${column}\``,
+      ],
+      [optPropAccess("user", "profile"), "user?.profile"],
+      [optElemAccess("items", $(0)), "items?.[0]"],
+      [optCall("callback", [$(1)]), "callback?.(1)"],
+      [
+        chain("user").optProp("profile").prop("name").call().get(),
+        "user?.profile.name()",
+      ],
+      [
+        chain(this_()).prop("items").elem($(0)).nonNull().get(),
+        "this.items[0]!",
+      ],
+      [await_(call("load", [])), "await load()"],
+      [yield_(expr("value")), "yield value"],
+      [yield_(expr("inner"), true), "yield* inner"],
+      [typeof_(expr("x")), "typeof x"],
+      [delete_(propAccess("obj", "key")), "delete obj.key"],
+      [void_($(0)), "void 0"],
+      [as_(expr("value"), type`T`), "value as T"],
+      [asConst(arr([$(1), $(2)])), "[1, 2] as const"],
+      [satisfies_(expr("config"), type`Config`), "config satisfies Config"],
+      [nonNull(expr("maybe")), "maybe!"],
+      [arr([$(1), spread(expr("rest"))]), "[1, ...rest]"],
+      [regex(/a+b/i, "g"), "/a+b/gi"],
+      [bigint(10n), "10n"],
+      [$(-1), "-1"],
+      [propAccess(importMeta(), "url"), "import.meta.url"],
+    ];
+
+    const printed = await file("expressions.ts")
+      .addStatement(...cases.map(([expression]) => exprStmt(expression)))
+      .print();
+    const lines = printed.trim().split("\n");
+    cases.forEach(([, expected], index) => {
+      const line = lines[index];
+      console.log(line);
+      if (line !== `${expected};`) {
+        throw new Error(`Expected ${expected}, got ${line}`);
+      }
+    });
+
+    // yield* needs something to delegate to
+    try {
+      yield_(undefined, true);
+      throw new Error("Expected yield* without an expression to throw");
+    } catch (error) {
+      if (!(error instanceof TypeError)) throw error;
+      console.log(`✅ ${error.message}`);
+    }
+
+    console.log("\n🎉 All expression builder tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testExpressions().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
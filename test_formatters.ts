@@ -0,0 +1,84 @@
+import { Biome } from "@biomejs/js-api";
+import { PrintError } from "./src/modules/errors";
+import { file } from "./src/modules/file";
+import { biomeFormatter, typescriptFormatter } from "./src/modules/format";
+
+const SOURCE = "function f(a,b){return a+b}";
+
+/**
+ * Printed code runs through the TypeScript formatter, Biome or any function,
+ * and a failing formatter leaves the code unformatted
+ */
+async function testFormatters() {
+  console.log("Testing formatters...");
+
+  try {
+    const typescript = await file("f.ts", SOURCE).print({
+      preserveSource: true,
+      indent: 2,
+      formatter: typescriptFormatter(),
+    });
+    console.log(typescript);
+    if (!typescript.includes("function f(a, b) { return a + b }")) {
+      throw new Error("TypeScript formatter did not format the code");
+    }
+
+    const custom = await file("f.ts", SOURCE).print({
+      formatter: (text, { fileName }) => `// ${fileName}\n${text}`,
+    });
+    if (!custom.startsWith("// f.ts\n")) {
+      throw new Error("Custom formatter was not called");
+    }
+
+    // Failing formatters keep the printed code, or throw when strict
+    const failing = () => {
+      throw new Error("formatter broke");
+    };
+    const unformatted = await file("f.ts", SOURCE).print({
+      formatter: failing,
+      logger: () => {},
+    });
+    if (!unformatted.includes("function f(a, b)")) {
+      throw new Error("Failing formatter lost the printed code");
+    }
+    try {
+      await file("f.ts", SOURCE).print({ formatter: failing, strict: true });
+      throw new Error("Expected a PrintError");
+    } catch (error) {
+      if (!(error instanceof PrintError)) throw error;
+      console.log(`✅ ${error.message}`);
+    }
+
+    // Biome formats, and a failed Biome load is retried by the next file
+    const format = biomeFormatter();
+    const context = { fileName: "f.ts", options: {} };
+    const create = Biome.create;
+    Biome.create = () => Promise.reject(new Error("no WebAssembly"));
+    try {
+      await format(SOURCE, context);
+      throw new Error("Expected the Biome load to fail");
+    } catch (error) {
+      if (!String(error).includes("no WebAssembly")) throw error;
+    } finally {
+      Biome.create = create;
+    }
+    const biome = await format(SOURCE, context);
+    console.log(biome);
+    if (!biome.includes("return a + b;")) {
+      throw new Error("Biome did not format after a failed load");
+    }
+
+    console.log("\n🎉 All formatter tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testFormatters().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
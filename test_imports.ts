@@ -0,0 +1,81 @@
+import ts from "typescript";
+import {
+  await_,
+  dynamicImport,
+  exprStmt,
+  extractImportOptions,
+  imp,
+  impEquals,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Side-effect imports, aliases, import attributes, `import x = require()`
+ * and dynamic imports can be built, and merging keeps aliases
+ */
+async function testImports() {
+  console.log("Testing imports...");
+
+  try {
+    const printed = await file("app.ts", 'import { a as b } from "./a";')
+      .addStatement(
+        imp({ moduleSpecifier: "./polyfill" }).get(),
+        imp({
+          moduleSpecifier: "./data.json",
+          defaultImport: "data",
+          attributes: { type: "json" },
+        }).get(),
+        impEquals("fs", "fs"),
+        exprStmt(await_(dynamicImport("./heavy", { type: "json" }))),
+      )
+      .addOrUpdateImport({
+        moduleSpecifier: "./a",
+        namedImports: [{ name: "c", alias: "d" }],
+        typeOnlyNamedImports: ["A"],
+      })
+      .addOrUpdateImport({ moduleSpecifier: "./a", namedImports: ["b"] })
+      .print();
+    console.log(printed);
+
+    for (const part of [
+      'import { a as b, c as d, type A } from "./a";',
+      'import "./polyfill";',
+      'import data from "./data.json" with { type: "json" };',
+      'import fs = require("fs");',
+      'await import("./heavy", { with: { type: "json" } });',
+    ]) {
+      if (!printed.includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+
+    // Extracting options keeps aliases and attributes
+    const [declaration] = file(
+      "b.ts",
+      'import x, { y as z } from "./x" with { type: "json" };',
+    )
+      .get()
+      .statements.filter(ts.isImportDeclaration);
+    const options = declaration && extractImportOptions(declaration);
+    console.log(JSON.stringify(options));
+    if (
+      JSON.stringify(options?.namedImports) !== '[{"name":"y","alias":"z"}]' ||
+      options?.attributes?.type !== "json"
+    ) {
+      throw new Error("extractImportOptions lost an alias or attribute");
+    }
+
+    console.log("\n🎉 All import tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testImports().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+import { file } from "./src/modules/file";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+/**
+ * The module graph resolves relative and `paths` imports, orders files by
+ * their dependencies, and finds cycles, unreachable files and used symbols
+ */
+async function testModuleGraph() {
+  console.log("Testing the module graph...");
+
+  try {
+    const expectEqual = (name: string, actual: unknown, expected: unknown) => {
+      console.log(`${name}: ${JSON.stringify(actual)}`);
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        throw new Error(`${name}: expected ${JSON.stringify(expected)}`);
+      }
+    };
+
+    const registry = new SourceFileRegistry();
+    registry.setCompilerOptions({
+      baseUrl: ".",
+      // The more specific pattern wins, whatever the key order
+      paths: {
+        "@/*": ["src/*"],
+        "@/features/*": ["src/features/*/index"],
+      },
+    });
+    registry.registerFile(
+      "src/main.ts",
+      file(
+        "src/main.ts",
+        [
+          'import { format, parse } from "./util";',
+          'import { login } from "@/features/auth";',
+          'import { config } from "@/config";',
+          'import ts from "typescript";',
+          "",
+        ].join("\n"),
+      ),
+    );
+    registry.registerFile(
+      "src/util.ts",
+      file("src/util.ts", 'export * from "./config";'),
+    );
+    registry.registerFile(
+      "src/config.ts",
+      file("src/config.ts", 'import "./util";\nexport const config = {};'),
+    );
+    registry.registerFile(
+      "src/features/auth/index.ts",
+      file("src/features/auth/index.ts", "export const login = () => {};"),
+    );
+    registry.registerFile(
+      "src/features/auth.ts",
+      file("src/features/auth.ts", "export const login = 'wrong file';"),
+    );
+    registry.registerFile(
+      "src/unused.ts",
+      file("src/unused.ts", "export const unused = 1;"),
+    );
+
+    expectEqual("dependencies", registry.getDependencies("src/main.ts"), [
+      "src/util.ts",
+      "src/features/auth/index.ts",
+      "src/config.ts",
+    ]);
+    expectEqual(
+      "dependents",
+      registry.getDependents("src/config.ts").sort(),
+      ["src/main.ts", "src/util.ts"],
+    );
+    expectEqual(
+      "used symbols",
+      Object.fromEntries(registry.getUsedSymbols("src/util.ts")),
+      { "src/main.ts": ["format", "parse"], "src/config.ts": [] },
+    );
+    expectEqual("cycles", registry.findCycles().length, 1);
+    expectEqual(
+      "unreachable",
+      registry.getUnreachableFiles(["src/main.ts"]).sort(),
+      ["src/features/auth.ts", "src/unused.ts"],
+    );
+
+    const order = registry.getTopologicalOrder();
+    console.log(`order: ${order.join(", ")}`);
+    if (
+      order.indexOf("src/features/auth/index.ts") >
+      order.indexOf("src/main.ts")
+    ) {
+      throw new Error("A dependency came after its dependent");
+    }
+
+    console.log("\n🎉 All module graph tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testModuleGraph().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import { file } from "./src/modules/file";
+import { MemoryFileSystem } from "./src/modules/fs";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+/**
+ * Moving files rewrites every kind of module reference to them, keeps the
+ * moved files' own imports working, and leaves the rest of the code as it
+ * was written
+ */
+async function testMoveFiles() {
+  console.log("Testing moveFiles...");
+
+  try {
+    const fileSystem = new MemoryFileSystem({}, "/project");
+    const registry = new SourceFileRegistry({ fileSystem });
+    registry.registerFile(
+      "src/a.ts",
+      file(
+        "src/a.ts",
+        [
+          "import { b } from './b';",
+          'export { c } from "./c.js";',
+          "import util = require('./util');",
+          "const lazy = () => import('./b');",
+          "export const a = b + 1;",
+          "",
+        ].join("\n"),
+      ),
+    );
+    registry.registerFile(
+      "src/b.ts",
+      file("src/b.ts", "import { c } from './c';\nexport const b = c;\n"),
+    );
+    registry.registerFile("src/c.ts", file("src/c.ts", "export const c = 1;"));
+    registry.registerFile("src/util.ts", file("src/util.ts", "export = {};"));
+
+    await registry.emit();
+
+    registry.moveFiles({
+      "src/b.ts": "src/lib/b.ts",
+      "src/c.ts": "src/lib/c.ts",
+    });
+
+    const a = await registry.get("src/a.ts")?.print({ preserveSource: true });
+    console.log(a);
+    for (const part of [
+      "import { b } from './lib/b';",
+      'export { c } from "./lib/c.js";',
+      "import util = require('./util');",
+      "const lazy = () => import('./lib/b');",
+    ]) {
+      if (!a?.includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+
+    // The moved file's own imports still resolve
+    const b = registry.get("src/lib/b.ts");
+    if (!b || registry.get("src/b.ts")) {
+      throw new Error("src/b.ts was not moved");
+    }
+    const printed = await b.print({ preserveSource: true });
+    if (!printed.includes("import { c } from './c';")) {
+      throw new Error(`Moved file's import is broken:\n${printed}`);
+    }
+
+    // Emitting again writes the new paths and deletes the old ones
+    const report = await registry.emit();
+    if (report.deleted.join() !== "src/b.ts,src/c.ts") {
+      throw new Error(`Unexpected deletions: ${report.deleted}`);
+    }
+    if (!fileSystem.fileExists("/project/src/lib/b.ts")) {
+      throw new Error("Moved file was not written");
+    }
+
+    console.log("\n🎉 All moveFiles tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testMoveFiles().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
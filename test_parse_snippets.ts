@@ -0,0 +1,116 @@
+import ts from "typescript";
+import {
+  ParseError,
+  expr,
+  klass,
+  method,
+  parseExpression,
+  parseStatements,
+  parseType,
+  stmts,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Code strings parse in every slot that takes them, report syntax errors
+ * with a location, and parse as TSX where JSX is allowed
+ */
+async function testParseSnippets() {
+  console.log("Testing parse helpers...");
+
+  try {
+    const check = (name: string, actual: string, expected: string) => {
+      console.log(`${name}: ${actual}`);
+      if (actual !== expected) {
+        throw new Error(`${name}: expected ${expected}, got ${actual}`);
+      }
+    };
+
+    check(
+      "statements",
+      String(parseStatements("const a = 1; a++;").length),
+      "2",
+    );
+    check(
+      "expression",
+      ts.SyntaxKind[parseExpression("a ?? b").kind],
+      "BinaryExpression",
+    );
+    check("type", ts.SyntaxKind[parseType("string[]").kind], "ArrayType");
+
+    // Syntax errors point into the snippet
+    try {
+      parseStatements("const x = ;");
+      throw new Error("Expected a ParseError");
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      check("error location", `${error.line}:${error.column}`, "1:11");
+    }
+
+    // Builder slots take code strings
+    const printed = await file("method.ts")
+      .addStatement(
+        klass("A")
+          .addMember(method("load", [], "return 1;").$returnType("number"))
+          .get(),
+      )
+      .print();
+    if (!printed.includes("load(): number")) {
+      throw new Error(`Method slots lost their code:\n${printed}`);
+    }
+
+    // .tsx files parse added code as TSX, .ts files keep type assertions
+    const component = await file("X.tsx")
+      .addStatement("export const X = () => <div className=\"x\" />;")
+      .print();
+    console.log(component);
+    if (!component.includes("<div")) {
+      throw new Error("JSX was not kept in a .tsx file");
+    }
+    const assertion = await file("x.ts")
+      .addStatement("const n = <number>value;")
+      .print();
+    if (!assertion.includes("<number>value")) {
+      throw new Error("Type assertion was not kept in a .ts file");
+    }
+
+    // Parse helpers and templates take a script kind
+    const tsx = { scriptKind: ts.ScriptKind.TSX };
+    check(
+      "parseExpression TSX",
+      ts.SyntaxKind[parseExpression("<App />", tsx).kind],
+      "JsxSelfClosingElement",
+    );
+    check(
+      "expr TSX",
+      ts.SyntaxKind[expr(tsx)`<App user={${expr("user")}} />`.kind],
+      "JsxSelfClosingElement",
+    );
+    check("stmts TSX", String(stmts(tsx)`render(<App />);`.length), "1");
+
+    // Patterns in .tsx files parse as TSX too
+    const replaced = await file(
+      "Y.tsx",
+      "const el = <Old title={name} />;",
+    )
+      .replacePattern("<Old title={$T} />", "<New label={$T} />")
+      .print();
+    console.log(replaced);
+    if (!replaced.includes("<New label={name}")) {
+      throw new Error("JSX pattern was not replaced");
+    }
+
+    console.log("\n🎉 All parse helper tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testParseSnippets().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
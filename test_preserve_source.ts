@@ -0,0 +1,94 @@
+import { $number, prop } from "./src/index";
+import { file } from "./src/modules/file";
+
+const SOURCE = `// Settings of the app
+import { load } from './load';
+
+const defaults = {
+  theme: 'dark',
+  retries: 3,
+};
+
+
+/** A user */
+export class User {
+  name: string = '';   // display name
+
+  greet() { return 'hi ' + this.name }
+}
+
+export const version = '1.0';
+`;
+
+/**
+ * Printing with preserveSource keeps untouched code verbatim, blank lines,
+ * quotes, trailing commas and comments included, and only re-emits what
+ * changed
+ */
+async function testPreserveSource() {
+  console.log("Testing source-preserving printing...");
+
+  try {
+    // Nothing changed, nothing printed differently
+    const untouched = await file("app.ts", SOURCE).print({
+      preserveSource: true,
+    });
+    if (untouched !== SOURCE) {
+      throw new Error(`Untouched file changed:\n${untouched}`);
+    }
+
+    // A new member is inserted and a removed import takes its blank line
+    // along; the neighbours keep their formatting
+    const edited = await file("app.ts", SOURCE)
+      .updateClass("User", (cls) =>
+        cls.addMember(prop("id", $number()).get()),
+      )
+      .addStatement("export const build = 42;")
+      .removeImport("./load")
+      .print({ preserveSource: true });
+    console.log(edited);
+
+    const expected = SOURCE.replace("import { load } from './load';\n\n", "")
+      .replace(
+        "greet() { return 'hi ' + this.name }\n",
+        "greet() { return 'hi ' + this.name }\n  id: number;\n",
+      )
+      .concat("export const build = 42;\n");
+    if (edited !== expected) {
+      throw new Error(`Expected:\n${expected}\nGot:\n${edited}`);
+    }
+
+    // A replaced member is re-emitted in place, with the surrounding
+    // indentation
+    const replaced = await file("app.ts", SOURCE)
+      .updateClass("User", (cls) => {
+        cls.updatePropertyByName("name", (name) => name.$readonly());
+        return cls;
+      })
+      .print({ preserveSource: true });
+    console.log(replaced);
+    const lines = replaced.split("\n");
+    const changed = SOURCE.split("\n").filter(
+      (line, index) => lines[index] !== line,
+    );
+    if (changed.join() !== "  name: string = '';   // display name") {
+      throw new Error(`Unexpected changed lines: ${changed}`);
+    }
+    if (!lines.includes("  readonly name: string = '';   // display name")) {
+      throw new Error("The property was not re-emitted in place");
+    }
+
+    console.log("\n🎉 All source-preserving printing tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testPreserveSource().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
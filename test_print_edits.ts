@@ -0,0 +1,112 @@
+import { $number, prop } from "./src/index";
+import { file } from "./src/modules/file";
+import { applyTextEdits } from "./src/utils/textEdit";
+
+const SOURCE = `export class User {
+  name = 'a';
+}
+
+export const version = '1.0';
+`;
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Decode the mappings of a source map into, per generated line, the
+// original line of its first segment
+function originalLines(mappings: string): (number | undefined)[] {
+  let originalLine = 0;
+  return mappings.split(";").map((line) => {
+    let first: number | undefined;
+    for (const segment of line.split(",").filter(Boolean)) {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        shift += 5;
+        if (!(digit & 32)) {
+          values.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      originalLine += values[2] ?? 0;
+      first ??= originalLine;
+    }
+    return first;
+  });
+}
+
+/**
+ * print({ edits: true }) returns the edits on the original text and a v3
+ * source map from the printed text back to it
+ */
+async function testPrintEdits() {
+  console.log("Testing print edits and source maps...");
+
+  try {
+    const builder = file("user.ts", SOURCE).updateClass("User", (cls) =>
+      cls.addMember(prop("id", $number()).get()),
+    );
+
+    // With preserveSource the edits are just the inserted member
+    const { text, edits, sourceMap } = await builder.print({
+      preserveSource: true,
+      edits: true,
+    });
+    console.log(JSON.stringify(edits));
+    if (applyTextEdits(SOURCE, edits) !== text) {
+      throw new Error("Applying the edits does not give the printed text");
+    }
+    if (edits.length !== 1 || !edits[0]?.text.includes("id: number;")) {
+      throw new Error(`Expected a single insertion, got ${edits.length}`);
+    }
+    if (edits[0].start !== edits[0].end) {
+      throw new Error("The insertion replaced original text");
+    }
+
+    // The map points the lines after the insertion back to where they were
+    if (sourceMap.version !== 3 || sourceMap.sources[0] !== "user.ts") {
+      throw new Error(`Unexpected source map: ${JSON.stringify(sourceMap)}`);
+    }
+    if (sourceMap.sourcesContent[0] !== SOURCE) {
+      throw new Error("The source map does not embed the original text");
+    }
+    const lines = originalLines(sourceMap.mappings);
+    const generated = text.split("\n");
+    const versionLine = generated.findIndex((line) =>
+      line.startsWith("export const version"),
+    );
+    console.log(`Line ${versionLine} maps to line ${lines[versionLine]}`);
+    if (lines[versionLine] !== 4) {
+      throw new Error("The version line does not map to its original line");
+    }
+    if (lines[0] !== 0) {
+      throw new Error("The first line does not map to itself");
+    }
+
+    // Without preserveSource the edits are the changed lines
+    const reprinted = await builder.print({ edits: true });
+    if (applyTextEdits(SOURCE, reprinted.edits) !== reprinted.text) {
+      throw new Error("Line edits do not give the printed text");
+    }
+    if (reprinted.text !== (await builder.print())) {
+      throw new Error("print({ edits: true }) printed different text");
+    }
+
+    console.log("\n🎉 All print edits tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testPrintEdits().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
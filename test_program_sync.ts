@@ -0,0 +1,85 @@
+import ts from "typescript";
+import { $, $number, prop } from "./src/index";
+import { file } from "./src/modules/file";
+import { MemoryFileSystem } from "./src/modules/fs";
+import { programFromRegistry } from "./src/modules/program";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+/**
+ * A program built from a registry follows FileBuilder edits on refresh(),
+ * and nodes found through the builders work with its type checker
+ */
+async function testProgramSync() {
+  console.log("Testing program sync...");
+
+  try {
+    const registry = new SourceFileRegistry({
+      fileSystem: new MemoryFileSystem({}, "/project"),
+    });
+    const user = file("src/user.ts", "export class User { name = 'a'; }");
+    registry.registerFile("src/user.ts", user);
+    registry.registerFile(
+      "src/main.ts",
+      file(
+        "src/main.ts",
+        'import { User } from "./user";\nexport const id = new User().id;',
+      ),
+    );
+
+    const prog = programFromRegistry(registry, {
+      compilerOptions: { strict: true, noEmit: true },
+    });
+    const codes = () =>
+      ts.getPreEmitDiagnostics(prog.get()).map(({ code }) => code);
+    if (!codes().includes(2339)) {
+      throw new Error("Expected User.id to be missing before the edit");
+    }
+
+    // Edit, refresh, and the checker sees the new member
+    const before = prog.get();
+    user.updateClass("User", (cls) =>
+      cls.addMember(prop("id", $number()).$init($(1))),
+    );
+    prog.refresh();
+    if (prog.get() === before) {
+      throw new Error("refresh() did not build a new program");
+    }
+    if (codes().length !== 0) {
+      throw new Error(`Unexpected diagnostics after refresh: ${codes()}`);
+    }
+    console.log("✅ The checker sees the added property");
+
+    // The builder's AST is the checked one, so its nodes have types
+    const checker = prog.get().getTypeChecker();
+    const [declaration] = user.get().statements.filter(ts.isClassDeclaration);
+    const idMember = declaration?.members.find(
+      (member) => member.name?.getText() === "id",
+    );
+    if (!idMember) throw new Error("id member not found");
+    const type = checker.typeToString(checker.getTypeAtLocation(idMember));
+    console.log(`User.id: ${type}`);
+    if (type !== "number") {
+      throw new Error(`Expected number, got ${type}`);
+    }
+
+    // Unchanged files are reused
+    const reused = prog.get().getSourceFile("/project/src/main.ts");
+    prog.refresh();
+    if (prog.get().getSourceFile("/project/src/main.ts") !== reused) {
+      throw new Error("An unchanged file was re-parsed");
+    }
+
+    console.log("\n🎉 All program sync tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testProgramSync().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+import type ts from "typescript";
+import { SelectorError, query } from "./src/index";
+import { file } from "./src/modules/file";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+const COMPONENT = `import { Component, Input } from "@angular/core";
+
+@Component({ selector: "app-user" })
+export class UserComponent {
+  @Input() name = "";
+  @Input() static count = 0;
+  readonly id?: number;
+  private onClick() {}
+  onHover() {}
+}
+
+export class Plain {
+  @Input() ignored = "";
+}
+`;
+
+const LOCAL = `import { Component } from "@angular/core";
+import { Input } from "./input";
+
+@Component({ selector: "app-other" })
+export class OtherComponent {
+  @Input() title = "";
+}
+`;
+
+// Names of the matched nodes
+const names = (matches: { node: ts.Node }[]) =>
+  matches.map(({ node }) => (node as ts.NamedDeclaration).name?.getText());
+
+/**
+ * query() finds nodes with CSS-like selectors in a file or a registry, with
+ * attribute predicates, :has/:not and captures
+ */
+async function testQuery() {
+  console.log("Testing queries...");
+
+  try {
+    const component = file("user.component.ts", COMPONENT);
+
+    // Child combinator, :has and attribute predicates
+    const inputs = query<ts.PropertyDeclaration>(
+      component,
+      "ClassDeclaration:has(> Decorator[name=Component])@cls" +
+        " > PropertyDeclaration[static=false]:has(> Decorator[name=Input])",
+    );
+    console.log(names(inputs));
+    if (names(inputs).join() !== "name") {
+      throw new Error(`Expected only name, got ${names(inputs)}`);
+    }
+    const cls = inputs[0]?.captures.cls as ts.ClassDeclaration | undefined;
+    if (cls?.name?.text !== "UserComponent") {
+      throw new Error("The class was not captured");
+    }
+
+    // Modifiers, optional, regular expressions and :not
+    const readonly = query(
+      component,
+      "PropertyDeclaration[modifiers~=readonly][optional]",
+    );
+    if (names(readonly).join() !== "id") {
+      throw new Error(`Unexpected readonly matches ${names(readonly)}`);
+    }
+    const handlers = query(
+      component,
+      "MethodDeclaration[name=/^on[A-Z]/]:not([private])",
+    );
+    if (names(handlers).join() !== "onHover") {
+      throw new Error(`Unexpected handlers ${names(handlers)}`);
+    }
+
+    // Across a registry, the decorator module tells imports apart
+    const registry = new SourceFileRegistry();
+    registry.registerFile("user.component.ts", component);
+    registry.registerFile("other.component.ts", file("other.ts", LOCAL));
+    const angularInputs = query(
+      registry,
+      "PropertyDeclaration:has(> Decorator[name=Input][module=@angular/core])",
+    );
+    if (names(angularInputs).join() !== "name,count,ignored") {
+      throw new Error(`Unexpected inputs ${names(angularInputs)}`);
+    }
+    const files = new Set(angularInputs.map(({ fileName }) => fileName));
+    if ([...files].join() !== "user.component.ts") {
+      throw new Error("A locally imported Input matched");
+    }
+
+    // Broken selectors throw with the position of the problem
+    try {
+      query(component, "ClassDeclaration[name=");
+      throw new Error("Expected an invalid selector to throw");
+    } catch (error) {
+      if (!(error instanceof SelectorError)) throw error;
+      console.log(error.message);
+    }
+
+    console.log("\n🎉 All query tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testQuery().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
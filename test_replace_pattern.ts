@@ -0,0 +1,102 @@
+import { findPattern } from "./src/index";
+import { file } from "./src/modules/file";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+/**
+ * replacePattern() rewrites code matching a pattern with metavariables,
+ * checks constraints through the type checker and reports its changes
+ */
+async function testReplacePattern() {
+  console.log("Testing structural search and replace...");
+
+  try {
+    // $$$ARGS matches any number of arguments
+    const logging = await file(
+      "log.ts",
+      'console.log("a", 1);\nconsole.log();\nconsole.warn("b");\n',
+    )
+      .replacePattern("console.log($$$ARGS)", "logger.debug($$$ARGS)")
+      .print();
+    console.log(logging);
+    if (
+      logging !==
+      'logger.debug("a", 1);\nlogger.debug();\nconsole.warn("b");\n'
+    ) {
+      throw new Error("console.log calls were not rewritten");
+    }
+
+    // A metavariable used twice must match the same code, and statement
+    // sequences match too
+    const source = file(
+      "same.ts",
+      "const w = a === b;\n" +
+        "function f() {\n  const v = a === a;\n  return v;\n}\n",
+    );
+    if (findPattern(source.get(), "$X === $X").length !== 1) {
+      throw new Error("$X === $X should only match a === a");
+    }
+    const inlined = await source
+      .replacePattern("const $V = $E;\nreturn $V;", "return $E;")
+      .print();
+    if (!inlined.includes("{\n    return a === a;\n}")) {
+      throw new Error(`The statement pattern did not apply:\n${inlined}`);
+    }
+
+    // Type constraints only rewrite maps
+    const lookups = await file(
+      "maps.ts",
+      "const map = new Map<string, number>();\n" +
+        "const record: { get(key: string): number } = { get: () => 1 };\n" +
+        'export const a = map.get("x") !== undefined;\n' +
+        'export const b = record.get("x") !== undefined;\n',
+    )
+      .replacePattern("$MAP.get($KEY) !== undefined", "$MAP.has($KEY)", {
+        where: { MAP: { type: "Map" } },
+      })
+      .print();
+    console.log(lookups);
+    if (
+      !lookups.includes('export const a = map.has("x");') ||
+      !lookups.includes('export const b = record.get("x") !== undefined;')
+    ) {
+      throw new Error("The type constraint was not applied");
+    }
+
+    // Across a registry, with a change report
+    const registry = new SourceFileRegistry();
+    registry.registerFile(
+      "a.ts",
+      file("a.ts", 'const d = moment("2020");\nconst e = moment(now);\n'),
+    );
+    registry.registerFile("b.ts", file("b.ts", "const f = 1;\n"));
+    const report = registry.replacePattern("moment($DATE)", "dayjs($DATE)", {
+      where: { DATE: { kind: "StringLiteral" } },
+    });
+    console.log(JSON.stringify(report));
+    const [change] = report.changes;
+    if (report.files.join() !== "a.ts" || report.changes.length !== 1) {
+      throw new Error("Unexpected change report");
+    }
+    if (
+      change?.fileName !== "a.ts" ||
+      change.line !== 1 ||
+      change.before !== 'moment("2020")' ||
+      change.after !== 'dayjs("2020")'
+    ) {
+      throw new Error(`Unexpected change ${JSON.stringify(change)}`);
+    }
+
+    console.log("\n🎉 All structural search and replace tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testReplacePattern().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import {
+  $,
+  break_,
+  call,
+  continue_,
+  doWhile_,
+  expr,
+  forIn_,
+  forOf_,
+  if_,
+  label_,
+  newExpr,
+  ret,
+  switch_,
+  throw_,
+  try_,
+} from "./src/index";
+import { file } from "./src/modules/file";
+
+/**
+ * Statement builders print valid code, take code strings wherever they
+ * take expressions, and refuse incomplete statements
+ */
+async function testStatements() {
+  console.log("Testing statement builders...");
+
+  try {
+    const printed = await file("statements.ts")
+      .addStatement(
+        switch_("status")
+          .case($("pending"), [ret($("waiting"))])
+          .case($("active"))
+          .case("Status.Done", "return 'done';")
+          .default([throw_(newExpr("Error"))])
+          .get(),
+        try_([call("riskyOperation", [])])
+          .catch_("error", [call("report", [expr("error")])])
+          .finally_([call("cleanup", [])])
+          .get(),
+        try_("work();").finally_("cleanup();").get(),
+        label_(
+          "outer",
+          forOf_("row", expr("rows"))
+            .body([if_(expr("row"), break_("outer"), continue_()).get()])
+            .get(),
+        ),
+        forIn_("key", "obj").body(call("log", [expr("key")])).get(),
+        forOf_("chunk", expr("stream")).$await().get(),
+        doWhile_("pending").body([call("poll", [])]).get(),
+      )
+      .print();
+    console.log(printed);
+
+    for (const part of [
+      'case "pending":',
+      "case Status.Done: return 'done';",
+      "default: throw new Error();",
+      "catch (error) {",
+      "finally {",
+      "outer: for (const row of rows)",
+      "break outer;",
+      "for (const key in obj)",
+      "for await (const chunk of stream)",
+      "do {",
+      "} while (pending);",
+    ]) {
+      if (!printed.replace(/\s+/g, " ").includes(part)) {
+        throw new Error(`Missing ${JSON.stringify(part)}`);
+      }
+    }
+
+    // `try { }` alone is not valid TypeScript
+    try {
+      try_([call("riskyOperation", [])]).get();
+      throw new Error("Expected try_ without catch or finally to throw");
+    } catch (error) {
+      if (!String(error).includes("catch or finally")) throw error;
+      console.log("✅ try_ without catch or finally throws");
+    }
+
+    console.log("\n🎉 All statement builder tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testStatements().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import {
+  type LogEntry,
+  PathCorruptionError,
+  PrintError,
+} from "./src/index";
+import { file, fileFromString } from "./src/modules/file";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+const failingFormatter = () => {
+  throw new Error("formatter crashed");
+};
+
+/**
+ * Printing and moving files report to a logger instead of the console, and
+ * strict mode throws typed errors instead of falling back
+ */
+async function testStructuredErrors() {
+  console.log("Testing structured errors...");
+
+  // Nothing may go to the console while a logger is given
+  const consoleCalls: unknown[][] = [];
+  const { error: consoleError, warn: consoleWarn } = console;
+  console.error = (...args: unknown[]) => consoleCalls.push(args);
+  console.warn = (...args: unknown[]) => consoleCalls.push(args);
+
+  try {
+    // A failing formatter is logged and the unformatted text returned
+    const entries: LogEntry[] = [];
+    const source = file("a.ts", "const a = 1;", {
+      logger: (entry) => entries.push(entry),
+    });
+    const printed = await source.print({ formatter: failingFormatter });
+    if (printed.trim() !== "const a = 1;") {
+      throw new Error(`Expected the unformatted text, got ${printed}`);
+    }
+    const [entry] = entries.filter(({ level }) => level === "error");
+    if (!(entry?.error instanceof PrintError) || entry.fileName !== "a.ts") {
+      throw new Error(`Expected a logged PrintError: ${entries.length}`);
+    }
+
+    // ...and thrown in strict mode, with the cause attached
+    try {
+      await source.print({ formatter: failingFormatter, strict: true });
+      throw new Error("Expected strict printing to throw");
+    } catch (error) {
+      if (!(error instanceof PrintError)) throw error;
+      if (String((error.cause as Error).message) !== "formatter crashed") {
+        throw new Error("PrintError lost its cause");
+      }
+    }
+    console.log("✅ Print errors are logged or thrown");
+
+    // Files created with a registry share its logger
+    const registryEntries: LogEntry[] = [];
+    const registry = new SourceFileRegistry({
+      logger: (entry) => registryEntries.push(entry),
+    });
+    await fileFromString("b.ts", "const b = 1;", undefined, registry).print({
+      formatter: failingFormatter,
+    });
+    if (!registryEntries.some(({ error }) => error instanceof PrintError)) {
+      throw new Error("The file did not use the registry's logger");
+    }
+
+    // A corrupted move keeps the file where it was...
+    registry.registerFile("srcold/c.ts", file("srcold/c.ts", "export {};"));
+    registry.rewriteAllRelativeImports("old", "src");
+    if (!registry.get("srcold/c.ts")) {
+      throw new Error("The file was moved to a corrupted path");
+    }
+    if (
+      !registryEntries.some(({ error }) => error instanceof PathCorruptionError)
+    ) {
+      throw new Error("The corrupted path was not logged");
+    }
+
+    // ...and throws in strict mode
+    const strict = new SourceFileRegistry({ strict: true });
+    strict.registerFile("srcold/c.ts", file("srcold/c.ts", "export {};"));
+    try {
+      strict.rewriteAllRelativeImports("old", "src");
+      throw new Error("Expected a strict registry to throw");
+    } catch (error) {
+      if (!(error instanceof PathCorruptionError)) throw error;
+      if (error.path !== "srcsrc/c.ts") {
+        throw new Error(`Unexpected corrupted path ${error.path}`);
+      }
+    }
+    console.log("✅ Path corruption is logged or thrown");
+
+    if (consoleCalls.length > 0) {
+      throw new Error(`Unexpected console output: ${consoleCalls.join()}`);
+    }
+
+    console.log("\n🎉 All structured error tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  } finally {
+    console.error = consoleError;
+    console.warn = consoleWarn;
+  }
+}
+
+// Run the test
+testStructuredErrors().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import ts from "typescript";
+import {
+  $ref,
+  ParseError,
+  binary,
+  call,
+  expr,
+  klass,
+  member,
+  stmts,
+  type,
+} from "./src/index";
+
+const printer = ts.createPrinter();
+const sourceFile = ts.createSourceFile("t.ts", "", ts.ScriptTarget.Latest);
+const printNode = (node: ts.Node) =>
+  printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
+
+/**
+ * stmts, expr, type and member parse code templates, splicing nodes and
+ * builders in as AST and reporting syntax errors with a code frame
+ */
+async function testTemplates() {
+  console.log("Testing code templates...");
+
+  try {
+    // Nodes keep their structure, strings are source text
+    const sum = binary(expr("a"), "+", expr("b"));
+    const product = printNode(expr`${sum} * ${"factor"}`);
+    console.log(product);
+    if (product !== "(a + b) * factor") {
+      throw new Error(`Expected (a + b) * factor, got ${product}`);
+    }
+
+    // Lists fill list positions
+    const logs = stmts`log(1); log(2);`;
+    const body = stmts`
+      const user = await ${call("load", [expr("id")])};
+      ${logs}
+      return user;
+    `;
+    const printed = body.map(printNode);
+    console.log(printed.join("\n"));
+    if (
+      printed.join("\n") !==
+      "const user = await load(id);\nlog(1);\nlog(2);\nreturn user;"
+    ) {
+      throw new Error("Statements were not spliced in place");
+    }
+
+    // Types and members, with builders as holes
+    const record = printNode(type`Record<string, ${$ref("User")}[]>`);
+    if (record !== "Record<string, User[]>") {
+      throw new Error(`Unexpected type ${record}`);
+    }
+    const total = member`get total(): number { return ${sum}; }`;
+    if (!ts.isGetAccessorDeclaration(total)) {
+      throw new Error("member did not return a getter");
+    }
+    const cart = printNode(klass("Cart").addMember(total).get());
+    if (!cart.includes("return a + b;")) {
+      throw new Error(`The getter lost its body:\n${cart}`);
+    }
+    try {
+      member`a = 1; b = 2;`;
+      throw new Error("Expected two members to throw");
+    } catch (error) {
+      if (!(error instanceof TypeError)) throw error;
+    }
+
+    // Syntax errors point at the template text
+    try {
+      stmts`const ok = 1;\nconst x = ;`;
+      throw new Error("Expected a syntax error to throw");
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      console.log(error.codeFrame);
+      if (error.line !== 2 || error.column !== 11) {
+        throw new Error(`Unexpected location ${error.line}:${error.column}`);
+      }
+      if (!error.codeFrame.includes("> 2 | const x = ;")) {
+        throw new Error("The code frame does not show the failing line");
+      }
+    }
+
+    console.log("\n🎉 All code template tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testTemplates().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import ts from "typescript";
+import { expr, klass } from "./src/index";
+import { file } from "./src/modules/file";
+
+const SOURCE = `class Service {
+  run() {
+    console.log("running");
+    return compute(1, 2);
+  }
+}
+debugger;
+`;
+
+/**
+ * Visitors replace, remove and insert nodes, see ancestors, and reject
+ * hook results that aren't nodes
+ */
+async function testTransform() {
+  console.log("Testing transform...");
+
+  try {
+    const transformed = await file("service.ts", SOURCE)
+      .transform({
+        ClassDeclaration: {
+          leave: (node) => klass(node).$export(),
+        },
+        ExpressionStatement(_node, { findAncestor, remove }) {
+          if (findAncestor(ts.isClassDeclaration)) remove();
+        },
+        NumericLiteral(node, { parent, insertAfter }) {
+          if (ts.isCallExpression(parent) && node.text === "2") {
+            insertAfter(expr("3"));
+          }
+        },
+        DebuggerStatement: () => [],
+      })
+      .print();
+    console.log(transformed);
+    for (const [part, expected] of [
+      ["export class Service", true],
+      ["console.log", false],
+      ["compute(1, 2, 3)", true],
+      ["debugger", false],
+    ] as const) {
+      if (transformed.includes(part) !== expected) {
+        throw new Error(`Expected ${JSON.stringify(part)}: ${expected}`);
+      }
+    }
+
+    // Async hooks
+    const renamed = await (
+      await file("a.ts", "const a = 1;").transformAsync({
+        Identifier: async (node) =>
+          node.text === "a" ? ts.factory.createIdentifier("b") : undefined,
+      })
+    ).print();
+    if (!renamed.includes("const b = 1;")) {
+      throw new Error(`Async hook did not rename:\n${renamed}`);
+    }
+
+    // Hooks returning something other than a node fail clearly
+    for (const result of [null, 42]) {
+      try {
+        file("a.ts", "const a = 1;").transform({
+          Identifier: () => result as unknown as ts.Node,
+        });
+        throw new Error(`Expected ${result} to be rejected`);
+      } catch (error) {
+        if (!(error instanceof TypeError) || !/got (null|number)/.test(
+          error.message,
+        )) {
+          throw error;
+        }
+        console.log(`✅ ${error.message}`);
+      }
+    }
+
+    console.log("\n🎉 All transform tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testTransform().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+import ts from "typescript";
+import { fileFromPath } from "./src/modules/file";
+import { MemoryFileSystem } from "./src/modules/fs";
+import { program } from "./src/modules/program";
+import { SourceFileRegistry } from "./src/modules/registry";
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true,
+  noEmit: true,
+};
+
+/**
+ * Files, registries and programs read through a pluggable file system, and
+ * overlays let generated code be type-checked before it is written
+ */
+async function testVirtualFs() {
+  console.log("Testing virtual file systems...");
+
+  try {
+    const disk = new MemoryFileSystem(
+      {
+        "src/user.ts": "export interface User { name: string }",
+        "src/main.ts":
+          'import type { User } from "./user";\n' +
+          "export const user: User = { name: 'a' };\n",
+      },
+      "/project",
+    );
+
+    // Reading files
+    const user = fileFromPath("src/user.ts", undefined, undefined, false, disk);
+    if (!user.get().text.includes("interface User")) {
+      throw new Error("fileFromPath did not read the in-memory file");
+    }
+    try {
+      fileFromPath("src/missing.ts", undefined, undefined, false, disk);
+      throw new Error("Expected a missing file to throw");
+    } catch (error) {
+      if (!String(error).includes("file not found")) throw error;
+    }
+
+    // Programs resolve imports in memory and still find the lib files
+    const checked = program({
+      rootNames: ["src/main.ts"],
+      fileSystem: disk,
+      compilerOptions,
+    }).get();
+    const errors = ts.getPreEmitDiagnostics(checked);
+    if (errors.length > 0) {
+      throw new Error(
+        ts.formatDiagnostics(errors, {
+          getCanonicalFileName: (fileName) => fileName,
+          getCurrentDirectory: () => "/project",
+          getNewLine: () => "\n",
+        }),
+      );
+    }
+    console.log("✅ In-memory program has no errors");
+
+    // An overlay sees the generated code; the disk only after commit
+    const registry = new SourceFileRegistry({ fileSystem: disk });
+    registry.registerFile(
+      "src/main.ts",
+      fileFromPath("src/main.ts", undefined, registry, false).addStatement(
+        "export const broken: User = { name: 1 };",
+      ),
+    );
+    const overlay = registry.createOverlay();
+    const generated = program({
+      rootNames: ["src/main.ts"],
+      fileSystem: overlay,
+      compilerOptions,
+    }).get();
+    const codes = ts.getPreEmitDiagnostics(generated).map(({ code }) => code);
+    console.log(`Overlay diagnostics: ${codes.join(", ")}`);
+    if (!codes.includes(2322)) {
+      throw new Error("The overlay program missed the generated error");
+    }
+    if (disk.readFile("src/main.ts")?.includes("broken")) {
+      throw new Error("The overlay wrote through to the disk");
+    }
+    if (overlay.getChanges().written.size !== 1) {
+      throw new Error("The overlay does not list its pending change");
+    }
+    overlay.commit();
+    if (!disk.readFile("src/main.ts")?.includes("broken")) {
+      throw new Error("Committing the overlay did not write the file");
+    }
+
+    console.log("\n🎉 All virtual file system tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    throw error;
+  }
+}
+
+// Run the test
+testVirtualFs().then(() => {
+  console.log("Test completed successfully");
+}).catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});